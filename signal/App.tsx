@@ -2,6 +2,7 @@
 import React, { useEffect, useState } from 'react';
 import { UserRole } from './types';
 import { useFirebaseRoom } from './hooks/useFirebaseRoom';
+import { useQuestionLibrary } from './hooks/useQuestionLibrary';
 import AdminView from './components/AdminView';
 import TraineeView from './components/TraineeView';
 import WelcomeView from './components/WelcomeView';
@@ -12,33 +13,51 @@ const App: React.FC = () => {
   const {
     roomConfig,
     gameState,
+    rounds,
     participants,
+    presence,
     currentUser,
     isConnected,
     error,
     roomList,
+    sessionHistory,
+    serverTimeOffset,
     createRoom,
     joinRoom,
     joinRoomAsAdmin,
+    claimLegacyRoom,
     leaveRoom,
     deleteRoom,
     startGame,
     stopGame,
     resetRoom,
+    pauseTimer,
+    resumeTimer,
+    extendTimer,
     setHeroAnswer,
     submitMemberAnswer,
     changeQuestion,
+    rerollQuestions,
     revealResult,
     nextRound,
     skipToNextHero,
     switchToAdmin,
-    updateTeamCount,
+    updateTeams,
+    updateTeamAssignment,
+    moveParticipant,
+    shuffleTeams,
+    rebalanceTeams,
     updateQuestions,
+    updateScoring,
     refreshRoomList,
+    refreshSessionHistory,
+    deleteSession,
     restoreSession,
     clearSession
   } = useFirebaseRoom();
 
+  const questionLibrary = useQuestionLibrary();
+
   // 앱 시작 시 세션 복원 시도
   useEffect(() => {
     const restore = async () => {
@@ -49,17 +68,22 @@ const App: React.FC = () => {
   }, [restoreSession]);
 
   // 관리자 - 새 방 생성
-  const handleAdminLogin = async (config: Parameters<typeof createRoom>[0]) => {
+  const handleAdminLogin = async (config: Parameters<typeof createRoom>[0], adminSecret: string) => {
     try {
-      await createRoom(config);
+      await createRoom(config, adminSecret);
     } catch (err) {
       console.error('Failed to create room:', err);
     }
   };
 
   // 관리자 - 기존 방 입장
-  const handleAdminJoinRoom = async (roomId: string) => {
-    await joinRoomAsAdmin(roomId);
+  const handleAdminJoinRoom = async (roomId: string, adminSecret: string): Promise<boolean> => {
+    return await joinRoomAsAdmin(roomId, adminSecret);
+  };
+
+  // 관리자 - 소유자 없는 예전 방 등록 후 입장
+  const handleClaimLegacyRoom = async (roomId: string, setupSecret: string, adminSecret: string): Promise<boolean> => {
+    return await claimLegacyRoom(roomId, setupSecret, adminSecret);
   };
 
   // 참가자 로그인
@@ -68,8 +92,8 @@ const App: React.FC = () => {
   };
 
   // 방 삭제
-  const handleDeleteRoom = async (roomId: string) => {
-    await deleteRoom(roomId);
+  const handleDeleteRoom = async (roomId: string, adminSecret: string): Promise<boolean> => {
+    return await deleteRoom(roomId, adminSecret);
   };
 
   // 주인공 O/X 선택
@@ -104,14 +128,20 @@ const App: React.FC = () => {
     skipToNextHero(team);
   };
 
-  // 팀 수 변경 (관리자용)
-  const handleUpdateTeamCount = async (newTeamCount: number): Promise<boolean> => {
-    return await updateTeamCount(newTeamCount);
+  // 팀 변경 (관리자용)
+  const handleUpdateTeams = async (
+    newTeams: Parameters<typeof updateTeams>[0],
+    orphanPolicy?: Parameters<typeof updateTeams>[1]
+  ): Promise<boolean> => {
+    return await updateTeams(newTeams, orphanPolicy);
   };
 
   // 질문 수정 (관리자용)
-  const handleUpdateQuestions = async (newQuestions: string[]): Promise<boolean> => {
-    return await updateQuestions(newQuestions);
+  const handleUpdateQuestions = async (
+    newQuestions: Parameters<typeof updateQuestions>[0],
+    settings?: Parameters<typeof updateQuestions>[1]
+  ): Promise<boolean> => {
+    return await updateQuestions(newQuestions, settings);
   };
 
   // 방 나가기 (참가자용)
@@ -148,10 +178,10 @@ const App: React.FC = () => {
       )}
 
       {/* 에러 표시 */}
-      {error && (
+      {(error || questionLibrary.error) && (
         <div className="fixed top-4 left-4 right-4 md:left-auto md:right-4 md:w-80 z-50">
           <div className="bg-rose-500 text-white p-4 border-4 border-black font-bold">
-            {error}
+            {error || questionLibrary.error}
           </div>
         </div>
       )}
@@ -161,22 +191,45 @@ const App: React.FC = () => {
           roomList={roomList}
           onAdminLogin={handleAdminLogin}
           onAdminJoinRoom={handleAdminJoinRoom}
+          onClaimLegacyRoom={handleClaimLegacyRoom}
           onParticipantLogin={handleParticipantLogin}
           onDeleteRoom={handleDeleteRoom}
           onRefreshRooms={refreshRoomList}
+          questionSets={questionLibrary.sets}
+          libraryClientId={questionLibrary.clientId}
+          onSaveQuestionSet={questionLibrary.saveSet}
+          onDeleteQuestionSet={questionLibrary.deleteSet}
         />
       ) : currentUser.role === UserRole.ADMIN ? (
         <AdminView
           roomConfig={roomConfig}
           gameState={gameState}
+          rounds={rounds}
           participants={participants}
+          presence={presence}
+          serverTimeOffset={serverTimeOffset}
           onStart={startGame}
           onStop={stopGame}
           onReset={resetRoom}
+          onPauseTimer={pauseTimer}
+          onResumeTimer={resumeTimer}
+          onExtendTimer={extendTimer}
           onSkipHero={handleSkipHero}
           onLogout={handleAdminLogout}
-          onUpdateTeamCount={handleUpdateTeamCount}
+          onUpdateTeams={handleUpdateTeams}
+          onUpdateTeamAssignment={updateTeamAssignment}
+          onMoveParticipant={moveParticipant}
+          onShuffleTeams={shuffleTeams}
+          onRebalanceTeams={rebalanceTeams}
           onUpdateQuestions={handleUpdateQuestions}
+          onUpdateScoring={updateScoring}
+          sessionHistory={sessionHistory}
+          onRefreshSessionHistory={refreshSessionHistory}
+          onDeleteSession={deleteSession}
+          questionSets={questionLibrary.sets}
+          libraryClientId={questionLibrary.clientId}
+          onSaveQuestionSet={questionLibrary.saveSet}
+          onDeleteQuestionSet={questionLibrary.deleteSet}
         />
       ) : (
         <TraineeView
@@ -184,9 +237,12 @@ const App: React.FC = () => {
           roomConfig={roomConfig}
           gameState={gameState}
           participants={participants}
+          presence={presence}
+          serverTimeOffset={serverTimeOffset}
           onHeroAction={handleHeroAction}
           onMemberAnswer={handleMemberAnswer}
           onChangeQuestion={handleChangeQuestion}
+          onRerollQuestions={rerollQuestions}
           onRevealResult={handleRevealResult}
           onNextRound={handleNextRound}
           onLeaveRoom={handleLeaveRoom}
@@ -0,0 +1,18 @@
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// 방 관리자 비밀번호 해시 (방 ID를 섞어 방마다 다른 값이 되도록)
+export const hashAdminSecret = (roomId: string, secret: string): Promise<string> =>
+  sha256Hex(`yja-signal:${roomId}:${secret}`);
+
+// 설정 비밀번호 해시 - 운영자가 setupSecret/hash에 등록한 값과 비교 (소유자 없는 예전 방 등록용)
+export const hashSetupSecret = (secret: string): Promise<string> =>
+  sha256Hex(`yja-signal:setup:${secret}`);
+
+// 관리자 비밀번호 최소 길이
+export const MIN_ADMIN_SECRET_LENGTH = 4;
@@ -0,0 +1,53 @@
+
+import { RoomBackend } from './types';
+
+// 서버 시간 시계 - 저장소가 알려주는 시간 차이(offset)를 한 번만 구독해 모든 화면이 공유
+export interface ServerClock {
+  // 서버 기준 현재 시각 (ms)
+  now: () => number;
+  // 서버 시간 - 로컬 시간 (ms)
+  offset: () => number;
+  // 시간 차이가 바뀔 때마다 호출 (등록 즉시 현재 값 전달)
+  subscribe: (listener: (offsetMs: number) => void) => () => void;
+}
+
+const createServerClock = (backend: RoomBackend): ServerClock => {
+  const listeners = new Set<(offsetMs: number) => void>();
+  let offsetMs = 0;
+  let started = false;
+
+  // 처음 구독할 때 측정 시작 (사용하지 않는 저장소에는 연결하지 않음)
+  const start = () => {
+    if (started) return;
+    started = true;
+    backend.subscribeServerTimeOffset(next => {
+      offsetMs = next;
+      listeners.forEach(listener => listener(offsetMs));
+    });
+  };
+
+  return {
+    now: () => Date.now() + offsetMs,
+    offset: () => offsetMs,
+    subscribe: (listener) => {
+      start();
+      listeners.add(listener);
+      listener(offsetMs);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+const clocks = new WeakMap<RoomBackend, ServerClock>();
+
+// 저장소별 공용 시계
+export const getServerClock = (backend: RoomBackend): ServerClock => {
+  let clock = clocks.get(backend);
+  if (!clock) {
+    clock = createServerClock(backend);
+    clocks.set(backend, clock);
+  }
+  return clock;
+};
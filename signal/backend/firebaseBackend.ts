@@ -0,0 +1,130 @@
+
+import { database, auth, ref, set, get, onValue, update, remove, runTransaction, onDisconnect, signInAnonymously } from '../firebase';
+import { RoomBackend } from './types';
+import { applyUpdates, getAtPath, joinPath, withNextRevision } from './paths';
+
+// 익명 로그인 (보안 규칙에서 auth.uid로 방 소유자/관리자를 구분)
+const signIn = async (): Promise<string> => {
+  await auth.authStateReady();
+  if (auth.currentUser) return auth.currentUser.uid;
+  const credential = await signInAnonymously(auth);
+  return credential.user.uid;
+};
+
+// transactUpdates가 최신 값으로 다시 계산하는 최대 횟수
+const MAX_TRANSACT_ATTEMPTS = 5;
+
+const isPermissionDenied = (err: unknown): boolean =>
+  String((err as { code?: string })?.code ?? err).toUpperCase().includes('PERMISSION_DENIED');
+
+// Firebase Realtime Database 어댑터
+export const createFirebaseBackend = (): RoomBackend => {
+  let signedIn: Promise<string> | null = null;
+  const ensureSignedIn = () => {
+    if (!signedIn) {
+      signedIn = signIn().catch(err => {
+        signedIn = null;
+        throw err;
+      });
+    }
+    return signedIn;
+  };
+
+  return {
+    subscribe: (path, onData, onError) =>
+      onValue(ref(database, path), snapshot => onData(snapshot.val()), onError),
+
+    read: async (path) => {
+      const snapshot = await get(ref(database, path));
+      return snapshot.val();
+    },
+
+    set: async (path, value) => {
+      await ensureSignedIn();
+      await set(ref(database, path), value);
+    },
+
+    update: async (path, updates) => {
+      await ensureSignedIn();
+      await update(ref(database, path), updates);
+    },
+
+    transaction: async (path, apply) => {
+      await ensureSignedIn();
+      const result = await runTransaction(ref(database, path), apply);
+      return { committed: result.committed, value: result.snapshot.val() };
+    },
+
+    // runTransaction은 노드 전체를 쓰므로 경로별 보안 규칙 아래에서는 쓸 수 없음
+    // 대신 수정 번호 비교 - 규칙이 읽은 번호 + 1이 아닌 쓰기를 거부하면 다시 읽어 계산
+    transactUpdates: async (path, key, apply) => {
+      await ensureSignedIn();
+      for (let attempt = 0; attempt < MAX_TRANSACT_ATTEMPTS; attempt++) {
+        const current = (await get(ref(database, joinPath(path, key)))).val();
+        const updates = apply(current);
+        if (updates === undefined) {
+          return { committed: false, value: current };
+        }
+        const next = withNextRevision(updates, key, current);
+        try {
+          await update(ref(database, path), next);
+          return { committed: true, value: getAtPath(applyUpdates({ [key]: current }, next), key) };
+        } catch (err) {
+          if (!isPermissionDenied(err)) throw err;
+        }
+      }
+      return { committed: false, value: null };
+    },
+
+    remove: async (path) => {
+      await ensureSignedIn();
+      await remove(ref(database, path));
+    },
+
+    subscribeServerTimeOffset: (onOffset) =>
+      onValue(ref(database, '.info/serverTimeOffset'), snapshot => onOffset(Number(snapshot.val()) || 0)),
+
+    subscribeConnection: (onChange) =>
+      onValue(ref(database, '.info/connected'), snapshot => onChange(snapshot.val() === true)),
+
+    setOnDisconnect: async (path, value) => {
+      await ensureSignedIn();
+      await onDisconnect(ref(database, path)).set(value);
+    },
+
+    cancelOnDisconnect: async (path) => {
+      await onDisconnect(ref(database, path)).cancel();
+    },
+
+    getClientId: ensureSignedIn,
+
+    // 해시 검증은 보안 규칙이 담당 (adminClaims 쓰기가 거부되면 비밀번호 불일치)
+    claimAdmin: async (roomId, clientId, secretHash) => {
+      await ensureSignedIn();
+      try {
+        await set(ref(database, `adminClaims/${roomId}/${clientId}`), secretHash);
+        await set(ref(database, `rooms/${roomId}/admins/${clientId}`), true);
+        return true;
+      } catch (err) {
+        if (isPermissionDenied(err)) return false;
+        throw err;
+      }
+    },
+
+    claimLegacyRoom: async (roomId, clientId, setupHash, secretHash) => {
+      await ensureSignedIn();
+      const claimRef = ref(database, `legacyClaims/${roomId}/${clientId}`);
+      try {
+        await set(claimRef, setupHash);
+        await set(ref(database, `rooms/${roomId}/ownerId`), clientId);
+      } catch (err) {
+        if (isPermissionDenied(err)) return false;
+        throw err;
+      } finally {
+        await remove(claimRef).catch(() => {});
+      }
+      await set(ref(database, `roomSecrets/${roomId}`), { hash: secretHash });
+      return true;
+    }
+  };
+};
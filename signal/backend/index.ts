@@ -0,0 +1,19 @@
+
+import { RoomBackend } from './types';
+import { createFirebaseBackend } from './firebaseBackend';
+import { createLocalBackend } from './localBackend';
+
+export type { RoomBackend, RoomUpdates, TransactionResult } from './types';
+export { createFirebaseBackend, createLocalBackend };
+export { getServerClock } from './clock';
+export type { ServerClock } from './clock';
+
+// 사용할 저장소 선택 (.env.local 의 ROOM_BACKEND=local 이면 같은 기기 오프라인 모드)
+const createDefaultBackend = (): RoomBackend => {
+  if (process.env.ROOM_BACKEND === 'local') {
+    return createLocalBackend();
+  }
+  return createFirebaseBackend();
+};
+
+export const roomBackend: RoomBackend = createDefaultBackend();
@@ -0,0 +1,212 @@
+
+import { RoomBackend, RoomUpdates } from './types';
+import { applyUpdates, cloneValue, getAtPath, joinPath, setAtPath, withNextRevision } from './paths';
+
+interface LocalBackendOptions {
+  // BroadcastChannel / 저장소 키 / 잠금 이름으로 사용
+  namespace?: string;
+  // false면 순수 메모리 모드 (탭 간 공유 없음)
+  persist?: boolean;
+}
+
+// 같은 기기용 로컬 어댑터 (오프라인 연수실, 테스트용)
+// - 데이터는 메모리에 두고 localStorage에 스냅샷을 남겨 새 탭도 같은 상태로 시작
+// - 쓰기가 일어나면 BroadcastChannel로 다른 탭에 알림
+// - Web Locks를 지원하면 탭 간 쓰기/트랜잭션을 직렬화
+export const createLocalBackend = ({
+  namespace = 'yja-signal-local',
+  persist = true
+}: LocalBackendOptions = {}): RoomBackend => {
+  const storageKey = `${namespace}:data`;
+  const clientIdKey = `${namespace}:client-id`;
+  const storage = persist && typeof localStorage !== 'undefined' ? localStorage : null;
+  const channel = persist && typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(namespace) : null;
+  const listeners = new Set<() => void>();
+  const errorListeners = new Set<(error: Error) => void>();
+  const disconnectWrites = new Map<string, any>();
+  let tree: any = null;
+  let localClientId: string | null = null;
+  // 마지막으로 스냅샷을 읽지 못한 이유 (다시 읽으면 지움) - 이후 구독도 바로 오류를 받도록
+  let loadError: Error | null = null;
+
+  const fail = (error: Error) => {
+    errorListeners.forEach(listener => listener(error));
+  };
+
+  // 저장소의 최신 스냅샷 불러오기 - 읽지 못하면 이전 값을 유지하고 구독자에게 오류 전달
+  const load = () => {
+    if (!storage) return;
+    try {
+      const saved = storage.getItem(storageKey);
+      tree = saved ? JSON.parse(saved) : null;
+      loadError = null;
+    } catch (e) {
+      console.error('Failed to load local room data:', e);
+      loadError = e instanceof Error ? e : new Error(String(e));
+      fail(loadError);
+    }
+  };
+
+  const notify = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const commit = (next: any) => {
+    tree = next;
+    try {
+      storage?.setItem(storageKey, JSON.stringify(tree));
+    } catch (e) {
+      console.error('Failed to persist local room data:', e);
+    }
+    notify();
+    channel?.postMessage('changed');
+  };
+
+  // 탭 간 상호 배제 - 잠금 안에서 최신 스냅샷을 다시 읽은 뒤 쓰기
+  const exclusive = <T,>(task: () => T): Promise<T> => {
+    const run = () => {
+      load();
+      return task();
+    };
+    if (storage && typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(namespace, async () => run());
+    }
+    return Promise.resolve().then(run);
+  };
+
+  // 다른 탭에서 변경 알림을 받으면 스냅샷 다시 읽기
+  if (channel) {
+    channel.onmessage = () => {
+      load();
+      notify();
+    };
+    channel.onmessageerror = () => {
+      fail(new Error('Failed to receive a change from another tab'));
+    };
+  }
+
+  // 탭이 닫히면 등록된 onDisconnect 값 기록 (잠금을 기다릴 수 없으므로 바로 저장)
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => {
+      if (disconnectWrites.size === 0) return;
+      load();
+      commit(applyUpdates(tree, Object.fromEntries(disconnectWrites)));
+      disconnectWrites.clear();
+    });
+  }
+
+  load();
+
+  return {
+    subscribe: (path, onData, onError) => {
+      let lastSerialized: string | undefined;
+      const emit = () => {
+        const value = getAtPath(tree, path);
+        const serialized = JSON.stringify(value);
+        if (serialized === lastSerialized) return;
+        lastSerialized = serialized;
+        onData(cloneValue(value));
+      };
+
+      // 같은 onError로 여러 번 구독해도 구독마다 따로 해제되도록 감쌈
+      const report = (error: Error) => onError?.(error);
+
+      listeners.add(emit);
+      errorListeners.add(report);
+      // Firebase와 같이 첫 값은 비동기로 전달
+      queueMicrotask(() => {
+        emit();
+        if (loadError) report(loadError);
+      });
+
+      return () => {
+        listeners.delete(emit);
+        errorListeners.delete(report);
+      };
+    },
+
+    read: async (path) => cloneValue(getAtPath(tree, path)),
+
+    set: (path, value) => exclusive(() => {
+      commit(setAtPath(tree, path, value));
+    }),
+
+    update: (path, updates) => exclusive(() => {
+      commit(applyUpdates(tree, updates, path));
+    }),
+
+    transaction: <T,>(path: string, apply: (current: T | null) => T | null | undefined) => exclusive(() => {
+      const current = cloneValue(getAtPath(tree, path)) as T | null;
+      const next = apply(current);
+      if (next === undefined) {
+        return { committed: false, value: current };
+      }
+      commit(setAtPath(tree, path, next));
+      return { committed: true, value: cloneValue(getAtPath(tree, path)) as T | null };
+    }),
+
+    // 잠금 안에서 읽기 / 계산 / 쓰기를 모두 처리하므로 다시 계산할 일이 없음
+    transactUpdates: <T,>(path: string, key: string, apply: (current: T | null) => RoomUpdates | undefined) => exclusive(() => {
+      const current = cloneValue(getAtPath(tree, joinPath(path, key))) as T | null;
+      const updates = apply(current);
+      if (updates === undefined) {
+        return { committed: false, value: current };
+      }
+      commit(applyUpdates(tree, withNextRevision(updates, key, current), path));
+      return { committed: true, value: cloneValue(getAtPath(tree, joinPath(path, key))) as T | null };
+    }),
+
+    remove: (path) => exclusive(() => {
+      commit(setAtPath(tree, path, null));
+    }),
+
+    // 같은 기기의 탭끼리는 시계가 같으므로 항상 0
+    subscribeServerTimeOffset: (onOffset) => {
+      queueMicrotask(() => onOffset(0));
+      return () => {};
+    },
+
+    // 같은 기기 안에서는 항상 연결된 상태
+    subscribeConnection: (onChange) => {
+      queueMicrotask(() => onChange(true));
+      return () => {};
+    },
+
+    setOnDisconnect: async (path, value) => {
+      disconnectWrites.set(path, cloneValue(value));
+    },
+
+    cancelOnDisconnect: async (path) => {
+      disconnectWrites.delete(path);
+    },
+
+    getClientId: async () => {
+      if (!localClientId) {
+        localClientId = storage?.getItem(clientIdKey) || 'local_' + Math.random().toString(36).substr(2, 10);
+        storage?.setItem(clientIdKey, localClientId);
+      }
+      return localClientId;
+    },
+
+    // 보안 규칙이 없으므로 저장된 해시와 직접 비교
+    claimAdmin: (roomId, clientId, secretHash) => exclusive(() => {
+      if (getAtPath(tree, `roomSecrets/${roomId}/hash`) !== secretHash) return false;
+      commit(applyUpdates(tree, {
+        [`adminClaims/${roomId}/${clientId}`]: secretHash,
+        [`rooms/${roomId}/admins/${clientId}`]: true
+      }));
+      return true;
+    }),
+
+    claimLegacyRoom: (roomId, clientId, setupHash, secretHash) => exclusive(() => {
+      const registered = getAtPath(tree, 'setupSecret/hash');
+      if (!registered || registered !== setupHash) return false;
+      if (getAtPath(tree, `rooms/${roomId}/ownerId`)) return false;
+      commit(applyUpdates(tree, {
+        [`rooms/${roomId}/ownerId`]: clientId,
+        [`roomSecrets/${roomId}`]: { hash: secretHash }
+      }));
+      return true;
+    })
+  };
+};
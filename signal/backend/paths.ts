@@ -0,0 +1,84 @@
+
+import { RoomUpdates } from './types';
+
+// 'rooms/a/b' → ['rooms', 'a', 'b']
+export const splitPath = (path: string): string[] => path.split('/').filter(segment => segment !== '');
+
+export const joinPath = (...parts: string[]): string => parts.flatMap(splitPath).join('/');
+
+// 직렬화 가능한 값으로 복사 (undefined 제거)
+export const cloneValue = <T,>(value: T): T => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+
+// Firebase와 같이 null과 빈 객체는 "값 없음"으로 취급
+const isEmpty = (value: any): boolean =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0);
+
+// 하위의 null / 빈 객체를 재귀적으로 제거 (전부 비면 null)
+const normalize = (value: any): any => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(normalize);
+
+  const result: Record<string, any> = {};
+  Object.entries(value).forEach(([key, child]) => {
+    const normalized = normalize(child);
+    if (normalized !== null) result[key] = normalized;
+  });
+  return isEmpty(result) ? null : result;
+};
+
+export const getAtPath = (tree: any, path: string): any => {
+  let node = tree;
+  for (const key of splitPath(path)) {
+    if (node === null || typeof node !== 'object') return null;
+    node = node[key];
+  }
+  return node === undefined ? null : node;
+};
+
+// 경로에 값을 쓴 새 트리를 반환 (원본은 변경하지 않음)
+export const setAtPath = (tree: any, path: string, value: any): any => {
+  const write = (node: any, keys: string[]): any => {
+    if (keys.length === 0) return normalize(cloneValue(value));
+
+    const [key, ...rest] = keys;
+    const base = node !== null && typeof node === 'object' ? node : {};
+    const copy = Array.isArray(base) ? [...base] : { ...base };
+    const child = write(base[key], rest);
+
+    if (child === null) {
+      if (Array.isArray(copy)) {
+        (copy as any[])[Number(key)] = null;
+      } else {
+        delete (copy as Record<string, any>)[key];
+      }
+    } else {
+      (copy as Record<string, any>)[key] = child;
+    }
+
+    return isEmpty(copy) ? null : copy;
+  };
+
+  return write(tree, splitPath(path));
+};
+
+// 다중 경로 업데이트를 트리에 적용
+export const applyUpdates = (tree: any, updates: RoomUpdates, basePath = ''): any =>
+  Object.entries(updates).reduce(
+    (next, [path, value]) => setAtPath(next, joinPath(basePath, path), value),
+    tree
+  );
+
+// transactUpdates가 쓸 때마다 1씩 올리는 수정 번호 (보안 규칙이 읽은 값 + 1만 허용해 동시 쓰기를 거부)
+export const REVISION_KEY = 'revision';
+
+// 수정 번호를 1 올린 값 (없으면 0부터)
+export const nextRevision = (value: any): number => (Number(value?.[REVISION_KEY]) || 0) + 1;
+
+// key 아래 수정 번호를 1 올리는 쓰기를 더한 업데이트 (key 전체를 쓰면 그 값 안에 넣음 - Firebase는 상위 / 하위 경로를 함께 쓸 수 없음)
+export const withNextRevision = (updates: RoomUpdates, key: string, current: any): RoomUpdates =>
+  key in updates
+    ? { ...updates, [key]: { ...updates[key], [REVISION_KEY]: nextRevision(current) } }
+    : { ...updates, [joinPath(key, REVISION_KEY)]: nextRevision(current) };
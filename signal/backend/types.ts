@@ -0,0 +1,53 @@
+
+// 다중 경로 업데이트 ('gameState/heroAnswer/팀 1': 'O' 형태)
+export type RoomUpdates = Record<string, any>;
+
+// 트랜잭션 결과
+export interface TransactionResult<T> {
+  committed: boolean;
+  value: T | null;
+}
+
+// 방 데이터 저장소 추상화 (Firebase / 로컬 등 어댑터로 교체 가능)
+export interface RoomBackend {
+  // 경로 구독 - 값이 바뀔 때마다 호출되며, 구독 해제 함수를 반환
+  subscribe: (path: string, onData: (value: any) => void, onError?: (error: Error) => void) => () => void;
+
+  // 경로 값 읽기 (없으면 null)
+  read: (path: string) => Promise<any>;
+
+  // 경로 값 덮어쓰기 (null이면 삭제)
+  set: (path: string, value: any) => Promise<void>;
+
+  // 기준 경로 아래 여러 경로를 한 번에 업데이트
+  update: (path: string, updates: RoomUpdates) => Promise<void>;
+
+  // 현재 값을 받아 다음 값을 돌려주는 원자적 업데이트 (undefined를 돌려주면 중단)
+  transaction: <T>(path: string, apply: (current: T | null) => T | null | undefined) => Promise<TransactionResult<T>>;
+
+  // 여러 경로에 걸친 원자적 업데이트 - `path/key`의 현재 값을 받아 path 기준 업데이트를 돌려줌 (undefined를 돌려주면 중단)
+  // 같은 쓰기에 key/revision을 1 올려, 읽은 뒤 다른 기기가 key 아래를 바꿨으면 최신 값으로 다시 계산
+  transactUpdates: <T>(path: string, key: string, apply: (current: T | null) => RoomUpdates | undefined) => Promise<TransactionResult<T>>;
+
+  // 경로 삭제
+  remove: (path: string) => Promise<void>;
+
+  // 서버 시간 - 로컬 시계와의 차이(ms) 구독 (서버 시간 = Date.now() + offset)
+  subscribeServerTimeOffset: (onOffset: (offsetMs: number) => void) => () => void;
+
+  // 서버 연결 상태 구독 (다시 연결되면 onDisconnect 등록을 새로 해야 함)
+  subscribeConnection: (onChange: (connected: boolean) => void) => () => void;
+
+  // 연결이 끊기면 서버(또는 페이지 종료 시 로컬)가 대신 써 줄 값 등록 / 취소
+  setOnDisconnect: (path: string, value: any) => Promise<void>;
+  cancelOnDisconnect: (path: string) => Promise<void>;
+
+  // 이 기기(브라우저)의 고유 ID - 보안 규칙의 auth.uid와 같은 값
+  getClientId: () => Promise<string>;
+
+  // 방 관리자 권한 요청 - 비밀번호 해시가 방에 등록된 값과 같을 때만 성공
+  claimAdmin: (roomId: string, clientId: string, secretHash: string) => Promise<boolean>;
+
+  // 소유자 없는 예전 방을 소유 - 설정 비밀번호 해시가 운영자가 등록한 값과 같을 때만 성공하며 새 관리자 비밀번호 해시를 등록
+  claimLegacyRoom: (roomId: string, clientId: string, setupHash: string, secretHash: string) => Promise<boolean>;
+}
@@ -1,43 +1,180 @@
 
-import React, { useState } from 'react';
-import { RoomConfig, GameState, User, UserRole } from '../types';
+import React, { useState, useEffect } from 'react';
+import { RoomConfig, GameState, User, UserRole, Presence, TeamConfig, TeamAssignmentMode, OrphanPolicy, QuestionItem, QuestionSet, ScoringPolicy, ResetMode, SessionArchive, RoundLog } from '../types';
+import {
+  buildAnswerStats,
+  countMemberAnswers,
+  createTeam,
+  describeAward,
+  findFastestCorrect,
+  getAnswerRemainingMs,
+  formatResponseMs,
+  getTeamAssignmentMode,
+  getHeroRerollLimit,
+  getPresenceState,
+  getQuestionChoiceCount,
+  getQuestionChoices,
+  getQuestionItems,
+  getRemainingMs,
+  getScoringPolicy,
+  getTeams,
+  MAX_HERO_REROLLS,
+  MAX_QUESTION_CHOICES,
+  MAX_TEAM_COUNT,
+  MIN_QUESTION_CHOICES,
+  MIN_TEAM_COUNT,
+  QUESTION_CHOICE_COUNT,
+  REVEAL_COUNTDOWN_MS,
+  summarizeReset
+} from '../engine';
+import { QuestionSettings } from '../hooks/useFirebaseRoom';
+import QuestionEditor from './QuestionEditor';
+import ScoringEditor from './ScoringEditor';
+import SessionHistory from './SessionHistory';
+import ExportMenu from './ExportMenu';
 
 interface Props {
   roomConfig: RoomConfig | null;
   gameState: GameState;
+  rounds: RoundLog;
   participants: User[];
+  presence: Record<string, Presence>;
+  serverTimeOffset: number;
   onStart: () => void;
   onStop: () => void;
-  onReset: () => void;
+  onReset: (mode: ResetMode) => void;
+  onPauseTimer: () => void;
+  onResumeTimer: () => void;
+  onExtendTimer: (minutes: number) => void;
   onSkipHero: (team: string) => void;
   onLogout: () => void;
-  onUpdateTeamCount: (newTeamCount: number) => Promise<boolean>;
-  onUpdateQuestions: (newQuestions: string[]) => Promise<boolean>;
+  onUpdateTeams: (teams: TeamConfig[], orphanPolicy?: OrphanPolicy) => Promise<boolean>;
+  onUpdateTeamAssignment: (mode: TeamAssignmentMode) => Promise<boolean>;
+  onMoveParticipant: (userId: string, team: string) => Promise<boolean>;
+  onShuffleTeams: () => Promise<boolean>;
+  onRebalanceTeams: () => Promise<boolean>;
+  onUpdateQuestions: (newQuestions: QuestionItem[], settings?: QuestionSettings) => Promise<boolean>;
+  onUpdateScoring: (scoring: ScoringPolicy) => Promise<boolean>;
+  sessionHistory: SessionArchive[];
+  onRefreshSessionHistory: () => void;
+  onDeleteSession: (sessionId: string) => Promise<boolean>;
+  questionSets: QuestionSet[];
+  libraryClientId: string | null;
+  onSaveQuestionSet: (name: string, questions: QuestionItem[]) => Promise<boolean>;
+  onDeleteQuestionSet: (setId: string) => Promise<boolean>;
 }
 
+const RESET_MODES: { mode: ResetMode; label: string; hint: string }[] = [
+  { mode: 'replay', label: '같은 팀으로 다시 하기', hint: '참가자와 팀은 그대로, 점수와 진행 기록만 지웁니다' },
+  { mode: 'newSession', label: '보관 후 새 세션', hint: '지금 세션을 기록으로 보관한 뒤 참가자와 게임을 모두 지웁니다' },
+  { mode: 'full', label: '전체 초기화', hint: '보관 없이 참가자와 게임을 모두 지웁니다 (방 설정과 질문은 유지)' }
+];
+
 const AdminView: React.FC<Props> = ({
   roomConfig,
   gameState,
+  rounds,
   participants,
+  presence,
+  serverTimeOffset,
   onStart,
   onStop,
   onReset,
+  onPauseTimer,
+  onResumeTimer,
+  onExtendTimer,
   onSkipHero,
   onLogout,
-  onUpdateTeamCount,
-  onUpdateQuestions
+  onUpdateTeams,
+  onUpdateTeamAssignment,
+  onMoveParticipant,
+  onShuffleTeams,
+  onRebalanceTeams,
+  onUpdateQuestions,
+  onUpdateScoring,
+  sessionHistory,
+  onRefreshSessionHistory,
+  onDeleteSession,
+  questionSets,
+  libraryClientId,
+  onSaveQuestionSet,
+  onDeleteQuestionSet
 }) => {
 
   const traineeParticipants = participants.filter(p => p.role === UserRole.TRAINEE);
 
   // 모달 상태
   const [selectedTeam, setSelectedTeam] = useState<string | null>(null);
-  const [showTeamCountModal, setShowTeamCountModal] = useState(false);
-  const [newTeamCount, setNewTeamCount] = useState(roomConfig?.teamCount || 4);
+  const [showTeamModal, setShowTeamModal] = useState(false);
+  const [editingTeams, setEditingTeams] = useState<TeamConfig[]>([]);
+  const [orphanPolicy, setOrphanPolicy] = useState<OrphanPolicy>('reassign');
+  const [draggingUserId, setDraggingUserId] = useState<string | null>(null);
+  const [dropTeamId, setDropTeamId] = useState<string | null>(null);
   const [showQuestionsModal, setShowQuestionsModal] = useState(false);
-  const [editingQuestions, setEditingQuestions] = useState('');
+  const [editingQuestions, setEditingQuestions] = useState<QuestionItem[]>([]);
+  const [editingSettings, setEditingSettings] = useState<QuestionSettings>({});
+  const [editingScoring, setEditingScoring] = useState<ScoringPolicy | null>(null);
+  const [resetMode, setResetMode] = useState<ResetMode | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [serverNow, setServerNow] = useState(() => Date.now() + serverTimeOffset);
+
+  const updateEditingTeam = (index: number, changes: Partial<TeamConfig>) => {
+    setEditingTeams(editingTeams.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  };
+
+  // 참가자 드래그 앤 드롭 - 참가자 카드를 팀 카드에 놓으면 팀 이동
+  const participantDragProps = (userId: string) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData('text/plain', userId);
+      setDraggingUserId(userId);
+    },
+    onDragEnd: () => {
+      setDraggingUserId(null);
+      setDropTeamId(null);
+    }
+  });
+
+  const teamDropProps = (teamId: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggingUserId) return;
+      e.preventDefault();
+      setDropTeamId(teamId);
+    },
+    onDragLeave: () => setDropTeamId(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const userId = e.dataTransfer.getData('text/plain');
+      setDraggingUserId(null);
+      setDropTeamId(null);
+      if (userId) onMoveParticipant(userId, teamId);
+    }
+  });
+
+  // 카운트다운 / 접속 상태용 서버 기준 현재 시각
+  useEffect(() => {
+    const tick = () => setServerNow(Date.now() + serverTimeOffset);
+    tick();
+    const interval = setInterval(tick, gameState?.isStarted ? 500 : 5000);
+    return () => clearInterval(interval);
+  }, [gameState?.isStarted, serverTimeOffset]);
+
+  // 참가자 접속 상태 표시 (오프라인이면 마지막 접속 후 경과 시간)
+  const getPresenceLabel = (userId: string) => {
+    const record = presence[userId];
+    const state = getPresenceState(record, serverNow);
+    if (state === 'online') return { dot: 'bg-emerald-400', text: '접속 중' };
+    if (state === 'idle') return { dot: 'bg-yellow-300', text: '자리 비움' };
+    const seconds = record ? Math.max(0, Math.floor((serverNow - record.lastSeen) / 1000)) : 0;
+    return { dot: 'bg-slate-400', text: seconds < 60 ? `${seconds}초 전` : `${Math.floor(seconds / 60)}분 전` };
+  };
 
   // 안전하게 gameState 가져오기
+  const isPaused = gameState?.pausedAt != null;
+  const timeLeft = roomConfig ? Math.ceil(getRemainingMs(gameState, roomConfig, serverNow) / 1000) : 0;
+  const resultRevealed = gameState?.resultRevealed || {};
+  const resultRevealedAt = gameState?.resultRevealedAt || {};
   const currentHeroId = gameState?.currentHeroId || {};
   const heroAnswer = gameState?.heroAnswer || {};
   const individualScores = gameState?.individualScores || {};
@@ -45,6 +182,7 @@ const AdminView: React.FC<Props> = ({
   const roundCount = gameState?.roundCount || {};
   const questionHistory = gameState?.questionHistory || {};
   const currentQuestionIndex = gameState?.currentQuestionIndex || {};
+  const roundAwards = gameState?.roundAwards || {};
 
   // 팀별 데이터 계산
   const getTeamData = (teamName: string) => {
@@ -66,8 +204,29 @@ const AdminView: React.FC<Props> = ({
     const teamCurrentIndex = currentQuestionIndex[teamName] ?? 0;
     const currentQuestionIdx = teamQuestionHistory[teamCurrentIndex];
     const currentQuestion = roomConfig?.questions?.[currentQuestionIdx] || null;
+    const { start: choiceStart, choices } = getQuestionChoices(gameState, teamName);
+    const rerolls = gameState?.questionRerolls?.[teamName] || 0;
+
+    // 결과 공개 후 다음 라운드까지 남은 시간 (초)
+    const revealedAt = resultRevealedAt[teamName];
+    const nextRoundIn = resultRevealed[teamName] && revealedAt
+      ? Math.max(0, Math.ceil((revealedAt + REVEAL_COUNTDOWN_MS - serverNow) / 1000))
+      : null;
+
+    // 팀원 답변 현황 (오프라인 팀원 제외)
+    const answers = countMemberAnswers(gameState, teamName, members, presence, serverNow);
+
+    // 팀원 답변 제한 시간 (결과 공개 전, 설정한 방만)
+    const answerRemainingMs = roomConfig && !resultRevealed[teamName] ? getAnswerRemainingMs(gameState, roomConfig, teamName, serverNow) : null;
+    const answerSecondsLeft = answerRemainingMs !== null ? Math.ceil(answerRemainingMs / 1000) : null;
 
-    return { members, teamScores, totalScore, hero, answer, rounds, herosDone, currentQuestion, teamQuestionHistory, teamCurrentIndex };
+    // 이번 라운드 점수 내역 (결과 공개 후, 점수를 받은 사람만)
+    const teamAwards = roundAwards[teamName] || {};
+    const awards = resultRevealed[teamName]
+      ? members.filter(m => teamAwards[m.id]).map(m => ({ ...m, award: teamAwards[m.id] }))
+      : null;
+
+    return { members, teamScores, totalScore, hero, answer, rounds, herosDone, currentQuestion, teamQuestionHistory, teamCurrentIndex, choiceStart, choiceCount: choices.length, rerolls, nextRoundIn, answers, answerSecondsLeft, awards };
   };
 
   if (!roomConfig) {
@@ -78,13 +237,27 @@ const AdminView: React.FC<Props> = ({
     );
   }
 
-  // 팀 목록 생성
-  const teamNames = Array.from({ length: roomConfig.teamCount }, (_, i) => `팀 ${i + 1}`);
+  // 팀 목록 (ID로 데이터 조회, 이름/색상은 표시용)
+  const teams = getTeams(roomConfig);
+  const teamById = (teamId: string) => teams.find(t => t.id === teamId);
+  const teamNameOf = (teamId: string) => teamById(teamId)?.name || '미배정';
+  const unassignedCount = traineeParticipants.filter(p => !teamById(p.team)).length;
+
+  const openTeamModal = () => {
+    setEditingTeams(teams.map(t => ({ ...t })));
+    setOrphanPolicy('reassign');
+    setShowTeamModal(true);
+  };
+
+  // 수정 중인 목록에서 빠진 팀에 남아 있는 팀원 수
+  const orphanedCount = traineeParticipants.filter(
+    p => teamById(p.team) && !editingTeams.some(t => t.id === p.team)
+  ).length;
 
   // 팀별 총점으로 정렬
-  const sortedTeams = [...teamNames].sort((a, b) => {
-    const aScore = getTeamData(a).totalScore;
-    const bScore = getTeamData(b).totalScore;
+  const sortedTeams = [...teams].sort((a, b) => {
+    const aScore = getTeamData(a.id).totalScore;
+    const bScore = getTeamData(b.id).totalScore;
     return bScore - aScore;
   });
 
@@ -99,6 +272,12 @@ const AdminView: React.FC<Props> = ({
               {gameState?.isStarted ? '● 진행 중' : gameState?.isFinished ? '■ 종료됨' : '○ 대기'}
             </span>
             <p className="text-lg font-black">접속: {traineeParticipants.length}명</p>
+            {gameState?.isStarted && (
+              <span className={`brutal-badge ${isPaused ? 'bg-slate-300' : timeLeft < 30 ? 'bg-rose-400 animate-pulse' : 'bg-white'}`}>
+                {isPaused ? '⏸ ' : '⏱ '}
+                {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
+              </span>
+            )}
           </div>
         </div>
 
@@ -106,23 +285,31 @@ const AdminView: React.FC<Props> = ({
           {!gameState?.isStarted && !gameState?.isFinished ? (
             <>
               <button
-                onClick={() => {
-                  setNewTeamCount(roomConfig?.teamCount || 4);
-                  setShowTeamCountModal(true);
-                }}
+                onClick={openTeamModal}
                 className="px-6 py-4 brutal-button bg-indigo-500 text-white hover:bg-indigo-600"
               >
                 팀 수정
               </button>
               <button
                 onClick={() => {
-                  setEditingQuestions(roomConfig?.questions?.join('\n\n') || '');
+                  setEditingQuestions(getQuestionItems(roomConfig));
+                  setEditingSettings({
+                    questionChoiceCount: getQuestionChoiceCount(roomConfig),
+                    heroRerolls: getHeroRerollLimit(roomConfig),
+                    balanceCategories: !!roomConfig.balanceCategories
+                  });
                   setShowQuestionsModal(true);
                 }}
                 className="px-6 py-4 brutal-button bg-purple-500 text-white hover:bg-purple-600"
               >
                 질문 수정
               </button>
+              <button
+                onClick={() => setEditingScoring(getScoringPolicy(roomConfig))}
+                className="px-6 py-4 brutal-button bg-amber-400 hover:bg-amber-500"
+              >
+                점수 규칙
+              </button>
               <button
                 onClick={onStart}
                 disabled={traineeParticipants.length === 0}
@@ -133,6 +320,33 @@ const AdminView: React.FC<Props> = ({
                 게임 시작
               </button>
             </>
+          ) : gameState?.isStarted ? (
+            <>
+              <button
+                onClick={openTeamModal}
+                className="px-6 py-4 brutal-button bg-indigo-500 text-white hover:bg-indigo-600"
+              >
+                팀 수정
+              </button>
+              <button
+                onClick={isPaused ? onResumeTimer : onPauseTimer}
+                className="px-6 py-4 brutal-button bg-sky-400 hover:bg-sky-500"
+              >
+                {isPaused ? '재개' : '일시정지'}
+              </button>
+              <button
+                onClick={() => onExtendTimer(5)}
+                className="px-6 py-4 brutal-button bg-white hover:bg-slate-100"
+              >
+                +5분
+              </button>
+              <button
+                onClick={onStop}
+                className="px-8 py-4 brutal-button brutal-button-danger"
+              >
+                게임 종료
+              </button>
+            </>
           ) : (
             <button
               onClick={onStop}
@@ -142,11 +356,19 @@ const AdminView: React.FC<Props> = ({
             </button>
           )}
           <button
-            onClick={() => {
-              if (confirm('방을 초기화하시겠습니까?')) {
-                onReset();
-              }
-            }}
+            onClick={() => setShowExport(true)}
+            className="px-6 py-4 brutal-button bg-emerald-400 hover:bg-emerald-500"
+          >
+            내보내기
+          </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="px-6 py-4 brutal-button bg-cyan-400 hover:bg-cyan-500"
+          >
+            게임 기록
+          </button>
+          <button
+            onClick={() => setResetMode('replay')}
             className="px-6 py-4 brutal-button brutal-button-secondary"
           >
             초기화
@@ -166,21 +388,71 @@ const AdminView: React.FC<Props> = ({
 
       {/* 참가자 목록 */}
       <div className="brutal-card p-6">
-        <h3 className="text-xl font-black mb-4 border-b-4 border-black pb-2">
-          참가자 현황 ({traineeParticipants.length}명)
-        </h3>
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4 border-b-4 border-black pb-2">
+          <h3 className="text-xl font-black">
+            참가자 현황 ({traineeParticipants.length}명)
+          </h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={getTeamAssignmentMode(roomConfig)}
+              onChange={(e) => onUpdateTeamAssignment(e.target.value as TeamAssignmentMode)}
+              className="brutal-input py-1 text-sm font-bold"
+            >
+              <option value="self">팀 직접 선택</option>
+              <option value="round-robin">입장 순서대로 배정</option>
+              <option value="smallest">인원 적은 팀에 배정</option>
+            </select>
+            {!gameState?.isStarted && !gameState?.isFinished && traineeParticipants.length > 0 && (
+              <>
+                <button
+                  onClick={() => {
+                    if (confirm('모든 참가자를 무작위로 다시 배정하시겠습니까?')) {
+                      onShuffleTeams();
+                    }
+                  }}
+                  className="brutal-button px-3 py-1 text-sm bg-indigo-100 hover:bg-indigo-200"
+                >
+                  섞기
+                </button>
+                <button
+                  onClick={onRebalanceTeams}
+                  className="brutal-button px-3 py-1 text-sm bg-white hover:bg-slate-100"
+                >
+                  균형 맞추기
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+        {traineeParticipants.length > 0 && (
+          <p className="text-xs text-gray-500 mb-2">* 참가자를 끌어서 아래 팀 카드에 놓으면 팀을 옮길 수 있습니다 (점수 유지)</p>
+        )}
+        {unassignedCount > 0 && (
+          <p className="text-sm font-bold text-rose-600 mb-2">⚠️ 팀이 없는 참가자 {unassignedCount}명 - 팀 카드로 끌어서 배정해주세요</p>
+        )}
         {traineeParticipants.length === 0 ? (
           <div className="text-center py-8 text-slate-500">
             <p className="font-bold">아직 참가자가 없습니다.</p>
           </div>
         ) : (
           <div className="grid grid-cols-3 md:grid-cols-6 lg:grid-cols-8 gap-2">
-            {traineeParticipants.map(p => (
-              <div key={p.id} className="brutal-inset p-2 bg-white text-center">
-                <p className="font-black text-sm truncate">{p.name}</p>
-                <p className="text-xs text-indigo-600 font-bold">{p.team}</p>
-              </div>
-            ))}
+            {traineeParticipants.map(p => {
+              const presenceLabel = getPresenceLabel(p.id);
+              return (
+                <div
+                  key={p.id}
+                  {...participantDragProps(p.id)}
+                  className={`brutal-inset p-2 text-center cursor-move ${teamById(p.team) ? 'bg-white' : 'bg-rose-100'} ${draggingUserId === p.id ? 'opacity-50' : ''}`}
+                >
+                  <p className="font-black text-sm truncate">
+                    <span className={`inline-block w-2 h-2 mr-1 border border-black ${presenceLabel.dot}`} />
+                    {p.name}
+                  </p>
+                  <p className="text-xs font-bold" style={{ color: teamById(p.team)?.color }}>{teamNameOf(p.team)}</p>
+                  <p className="text-[10px] text-gray-500">{presenceLabel.text}</p>
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -192,18 +464,27 @@ const AdminView: React.FC<Props> = ({
         </h3>
 
         <div className="grid grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4">
-          {sortedTeams.map((teamName, teamRank) => {
+          {sortedTeams.map((team, teamRank) => {
+            const teamName = team.id;
             const data = getTeamData(teamName);
 
             return (
-              <div key={teamName} className="border-4 border-black bg-white flex flex-col">
+              <div
+                key={teamName}
+                {...teamDropProps(teamName)}
+                className={`border-4 border-black bg-white flex flex-col ${dropTeamId === teamName ? 'ring-4 ring-indigo-400' : ''}`}
+              >
                 {/* 팀 헤더 - 컴팩트 */}
                 <div className={`p-3 border-b-4 border-black ${
                   teamRank === 0 ? 'bg-yellow-300' : teamRank === 1 ? 'bg-slate-200' : teamRank === 2 ? 'bg-orange-200' : 'bg-slate-100'
                 }`}>
                   <div className="flex justify-between items-start">
                     <div>
-                      <p className="font-black text-lg">{teamRank + 1}위 {teamName}</p>
+                      <p className="font-black text-lg">
+                        {teamRank + 1}위{' '}
+                        <span className="inline-block w-3 h-3 mr-1 border-2 border-black" style={{ backgroundColor: team.color }} />
+                        {team.name}
+                      </p>
                       <p className="text-xs text-gray-600">
                         {data.members.length}명 · R{data.rounds}
                       </p>
@@ -230,7 +511,8 @@ const AdminView: React.FC<Props> = ({
                         return (
                           <div
                             key={member.id}
-                            className={`flex justify-between items-center px-2 py-1 text-sm ${
+                            {...participantDragProps(member.id)}
+                            className={`flex justify-between items-center px-2 py-1 text-sm cursor-move ${
                               isCurrentHero ? 'bg-yellow-200 border-l-4 border-yellow-500' : 'bg-slate-50'
                             }`}
                           >
@@ -253,6 +535,55 @@ const AdminView: React.FC<Props> = ({
         </div>
       </div>
 
+      {/* 게임 종료 후 답변 기록 - 가장 빨리 맞힌 사람 / 개인별 평균 응답 시간 */}
+      {gameState?.isFinished && (() => {
+        const answerStats = buildAnswerStats(gameState, traineeParticipants).filter(entry => entry.answered > 0);
+        const fastest = findFastestCorrect(answerStats);
+        return (
+          <div className="brutal-card p-6">
+            <h3 className="text-xl font-black mb-4 border-b-4 border-black pb-2">⚡ 답변 기록</h3>
+            {fastest && (
+              <div className="brutal-inset p-4 bg-yellow-50 mb-4">
+                <p className="text-sm text-gray-600 mb-1">최고 순발력 (가장 빨리 맞힌 사람)</p>
+                <p className="font-black text-xl">
+                  {fastest.user.name} <span className="text-sm text-gray-500">{teamNameOf(fastest.user.team)}</span> · {formatResponseMs(fastest.fastestCorrectMs)}
+                </p>
+              </div>
+            )}
+            {answerStats.length === 0 ? (
+              <p className="text-center text-gray-400 py-4">답변 기록이 없습니다</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="bg-black text-white">
+                      <th className="px-4 py-3 font-black text-sm">이름</th>
+                      <th className="px-4 py-3 font-black text-sm">팀</th>
+                      <th className="px-4 py-3 font-black text-sm">정답</th>
+                      <th className="px-4 py-3 font-black text-sm">평균 응답</th>
+                      <th className="px-4 py-3 font-black text-sm">최고 기록</th>
+                      <th className="px-4 py-3 font-black text-sm">답 변경</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y-2 divide-black">
+                    {answerStats.map(entry => (
+                      <tr key={entry.user.id} className="hover:bg-yellow-50">
+                        <td className="px-4 py-3 font-bold">{entry.user.name}</td>
+                        <td className="px-4 py-3">{teamNameOf(entry.user.team)}</td>
+                        <td className="px-4 py-3">{entry.correct}/{entry.answered}</td>
+                        <td className="px-4 py-3">{formatResponseMs(entry.averageResponseMs)}</td>
+                        <td className="px-4 py-3">{formatResponseMs(entry.fastestCorrectMs)}</td>
+                        <td className="px-4 py-3">{entry.changes}회</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
+      })()}
+
       {/* 실시간 현황 테이블 */}
       {gameState?.isStarted && (
         <div className="brutal-card p-6">
@@ -271,11 +602,11 @@ const AdminView: React.FC<Props> = ({
                 </tr>
               </thead>
               <tbody className="divide-y-2 divide-black">
-                {teamNames.map((team) => {
+                {teams.map(({ id: team, name, color }) => {
                   const data = getTeamData(team);
                   return (
                     <tr key={team} className="hover:bg-yellow-50">
-                      <td className="px-4 py-3 font-black text-indigo-600">{team}</td>
+                      <td className="px-4 py-3 font-black" style={{ color }}>{name}</td>
                       <td className="px-4 py-3 font-bold">{data.hero?.name || '-'}</td>
                       <td className="px-4 py-3">
                         {data.currentQuestion ? (
@@ -292,19 +623,36 @@ const AdminView: React.FC<Props> = ({
                       </td>
                       <td className="px-4 py-3">
                         {data.answer ? (
-                          <span className={`brutal-badge ${data.answer === 'O' ? 'bg-emerald-400' : 'bg-rose-400'}`}>
-                            {data.answer}
-                          </span>
+                          <>
+                            <span className={`brutal-badge ${data.answer === 'O' ? 'bg-emerald-400' : 'bg-rose-400'}`}>
+                              {data.answer}
+                            </span>
+                            {data.nextRoundIn !== null && (
+                              <span className="ml-2 text-xs font-bold text-gray-500">
+                                {data.nextRoundIn > 0 ? `공개 · ${data.nextRoundIn}초` : '공개 · 대기'}
+                              </span>
+                            )}
+                          </>
                         ) : (
                           <span className="text-gray-400 animate-pulse">선택 중...</span>
                         )}
+                        {data.answer && data.nextRoundIn === null && data.answers.expected > 0 && (
+                          <span className={`ml-2 text-xs font-bold ${data.answers.allAnswered ? 'text-emerald-600' : 'text-gray-500'}`}>
+                            {data.answers.answered}/{data.answers.expected}명
+                          </span>
+                        )}
+                        {data.answerSecondsLeft !== null && (
+                          <span className={`ml-2 text-xs font-bold ${data.answerSecondsLeft <= 5 ? 'text-rose-600' : 'text-sky-600'}`}>
+                            {data.answerSecondsLeft > 0 ? `⏱ ${data.answerSecondsLeft}초` : '⏱ 마감'}
+                          </span>
+                        )}
                       </td>
                       <td className="px-4 py-3 font-bold">{data.rounds}</td>
                       <td className="px-4 py-3 font-black text-xl">{data.totalScore}</td>
                       <td className="px-4 py-3">
                         <button
                           onClick={() => {
-                            if (confirm(`${team}의 주인공을 다음 사람으로 넘기시겠습니까?`)) {
+                            if (confirm(`${name}의 주인공을 다음 사람으로 넘기시겠습니까?`)) {
                               onSkipHero(team);
                             }
                           }}
@@ -338,7 +686,7 @@ const AdminView: React.FC<Props> = ({
             onClick={(e) => e.stopPropagation()}
           >
             <div className="flex justify-between items-center mb-6 border-b-4 border-black pb-4">
-              <h2 className="text-2xl font-black">{selectedTeam} 현재 문제</h2>
+              <h2 className="text-2xl font-black">{teamNameOf(selectedTeam)} 현재 문제</h2>
               <button
                 onClick={() => setSelectedTeam(null)}
                 className="brutal-button px-4 py-2 bg-slate-200 hover:bg-slate-300"
@@ -360,7 +708,7 @@ const AdminView: React.FC<Props> = ({
                   {/* 현재 문제 */}
                   <div className="brutal-inset p-4 bg-indigo-50">
                     <p className="text-sm text-gray-600 mb-2">
-                      현재 문제 ({data.teamCurrentIndex + 1}/4)
+                      현재 문제 ({data.teamCurrentIndex - data.choiceStart + 1}/{data.choiceCount})
                     </p>
                     <p className="font-black text-lg leading-relaxed">
                       {data.currentQuestion || '문제 없음'}
@@ -377,23 +725,47 @@ const AdminView: React.FC<Props> = ({
                     </div>
                   )}
 
-                  {/* 전체 문제 목록 */}
+                  {/* 점수 내역 (결과 공개 후) */}
+                  {data.awards && (
+                    <div className="brutal-inset p-4 bg-white">
+                      <p className="text-sm text-gray-600 mb-2">이번 라운드 점수</p>
+                      <div className="space-y-1">
+                        {data.awards.map(m => (
+                          <div key={m.id} className="flex justify-between gap-2 text-sm">
+                            <span className="font-bold">{m.id === data.hero?.id ? '⭐ ' : ''}{m.name} +{m.award.total}</span>
+                            <span className="text-gray-600">{describeAward(m.award)}</span>
+                          </div>
+                        ))}
+                        {data.awards.length === 0 && (
+                          <p className="text-sm text-gray-500">점수를 받은 사람이 없습니다</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* 이번 라운드에 제시한 문제 (교체된 선택지 포함) */}
                   <div className="brutal-inset p-4 bg-slate-50">
-                    <p className="text-sm text-gray-600 mb-3">이번 라운드 문제 (4개)</p>
+                    <p className="text-sm text-gray-600 mb-3">
+                      이번 라운드 문제 ({data.teamQuestionHistory.length}개 제시{data.rerolls > 0 ? `, 교체 ${data.rerolls}회` : ''})
+                    </p>
                     <div className="space-y-2">
                       {data.teamQuestionHistory.map((qIdx, idx) => {
                         const question = roomConfig?.questions?.[qIdx];
                         const isCurrent = idx === data.teamCurrentIndex;
+                        const isReplaced = idx < data.choiceStart;
                         return (
                           <div
                             key={idx}
                             className={`p-3 border-2 border-black ${
-                              isCurrent ? 'bg-yellow-200 font-bold' : 'bg-white'
+                              isCurrent ? 'bg-yellow-200 font-bold' : isReplaced ? 'bg-slate-200 text-slate-500' : 'bg-white'
                             }`}
                           >
                             <span className="text-indigo-600 mr-2">{idx + 1}.</span>
-                            {question || '질문 없음'}
-                            {isCurrent && <span className="ml-2 text-xs brutal-badge bg-yellow-400">현재</span>}
+                            <span className={isReplaced ? 'line-through' : ''}>{question || '질문 없음'}</span>
+                            {isCurrent && (
+                              <span className="ml-2 text-xs brutal-badge bg-yellow-400">{data.answer ? '선택됨' : '현재'}</span>
+                            )}
+                            {isReplaced && <span className="ml-2 text-xs brutal-badge bg-slate-300">교체됨</span>}
                           </div>
                         );
                       })}
@@ -407,19 +779,19 @@ const AdminView: React.FC<Props> = ({
       )}
 
       {/* 팀 수정 모달 */}
-      {showTeamCountModal && (
+      {showTeamModal && (
         <div
           className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
-          onClick={() => setShowTeamCountModal(false)}
+          onClick={() => setShowTeamModal(false)}
         >
           <div
-            className="brutal-card bg-white p-8 max-w-md w-full mx-4"
+            className="brutal-card bg-white p-8 max-w-xl w-full mx-4 max-h-[90vh] overflow-y-auto"
             onClick={(e) => e.stopPropagation()}
           >
             <div className="flex justify-between items-center mb-6 border-b-4 border-black pb-4">
-              <h2 className="text-2xl font-black">팀 수 수정</h2>
+              <h2 className="text-2xl font-black">팀 수정</h2>
               <button
-                onClick={() => setShowTeamCountModal(false)}
+                onClick={() => setShowTeamModal(false)}
                 className="brutal-button px-4 py-2 bg-slate-200 hover:bg-slate-300"
               >
                 ✕
@@ -427,52 +799,96 @@ const AdminView: React.FC<Props> = ({
             </div>
 
             <div className="space-y-6">
-              <div className="brutal-inset p-4 bg-yellow-50">
-                <p className="text-sm text-gray-600 mb-1">현재 팀 수</p>
-                <p className="font-black text-2xl">{roomConfig?.teamCount}개 팀</p>
+              <div className="space-y-2">
+                {editingTeams.map((team, idx) => {
+                  const memberCount = traineeParticipants.filter(p => p.team === team.id).length;
+                  return (
+                    <div key={team.id} className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={team.color}
+                        onChange={(e) => updateEditingTeam(idx, { color: e.target.value })}
+                        className="w-10 h-10 border-2 border-black cursor-pointer"
+                      />
+                      <input
+                        type="text"
+                        value={team.name}
+                        onChange={(e) => updateEditingTeam(idx, { name: e.target.value })}
+                        className="flex-1 brutal-input font-black"
+                      />
+                      <input
+                        type="number"
+                        value={team.maxSize ?? ''}
+                        onChange={(e) => updateEditingTeam(idx, { maxSize: parseInt(e.target.value) || undefined })}
+                        min={1}
+                        placeholder="정원"
+                        className="w-20 brutal-input font-black text-center"
+                      />
+                      <span className="w-10 text-xs text-gray-500 text-center">{memberCount}명</span>
+                      <button
+                        onClick={() => setEditingTeams(editingTeams.filter((_, i) => i !== idx))}
+                        disabled={editingTeams.length <= MIN_TEAM_COUNT}
+                        className={`px-3 py-2 brutal-button text-xs font-bold ${
+                          editingTeams.length <= MIN_TEAM_COUNT
+                            ? 'bg-slate-200 cursor-not-allowed text-slate-400'
+                            : 'bg-rose-500 text-white'
+                        }`}
+                      >
+                        삭제
+                      </button>
+                    </div>
+                  );
+                })}
               </div>
 
-              <div>
-                <label className="block text-sm font-black text-black mb-2">새로운 팀 수 (2~10)</label>
-                <input
-                  type="number"
-                  value={newTeamCount}
-                  onChange={(e) => setNewTeamCount(parseInt(e.target.value) || 2)}
-                  min={2}
-                  max={10}
-                  className="w-full brutal-input font-black text-xl text-center"
-                />
-              </div>
+              <button
+                onClick={() => setEditingTeams([...editingTeams, createTeam(editingTeams)])}
+                disabled={editingTeams.length >= MAX_TEAM_COUNT}
+                className={`w-full py-3 brutal-button font-bold ${
+                  editingTeams.length >= MAX_TEAM_COUNT ? 'bg-slate-200 cursor-not-allowed text-slate-400' : 'bg-white hover:bg-slate-100'
+                }`}
+              >
+                + 팀 추가
+              </button>
+
+              {orphanedCount > 0 && (
+                <div className="brutal-inset p-3 bg-rose-50 space-y-2">
+                  <p className="font-bold text-rose-700 text-sm">삭제되는 팀의 팀원 {orphanedCount}명</p>
+                  <select
+                    value={orphanPolicy}
+                    onChange={(e) => setOrphanPolicy(e.target.value as OrphanPolicy)}
+                    className="w-full brutal-input text-sm font-bold"
+                  >
+                    <option value="reassign">남은 팀 중 인원이 적은 팀으로 자동 배정</option>
+                    <option value="unassigned">미배정으로 두고 직접 배정</option>
+                  </select>
+                </div>
+              )}
 
               <div className="brutal-inset p-3 bg-amber-50 text-sm">
                 <p className="font-bold text-amber-800">⚠️ 주의사항</p>
                 <ul className="text-amber-700 mt-1 space-y-1">
-                  <li>• 게임 시작 전에만 변경 가능합니다</li>
                   <li>• 변경 시 참가자 화면에 즉시 반영됩니다</li>
-                  <li>• 기존에 선택된 팀 번호가 사라지면 참가자가 재선택해야 합니다</li>
+                  <li>• 게임 중 팀을 삭제하면 그 팀의 진행 상황(주인공, 문제, 답변)은 사라지고 개인 점수는 유지됩니다</li>
+                  <li>• 게임 중 추가된 팀은 팀원이 들어오면 바로 첫 주인공이 정해집니다 (정원은 비워두면 제한 없음)</li>
                 </ul>
               </div>
 
               <div className="flex gap-4">
                 <button
-                  onClick={() => setShowTeamCountModal(false)}
+                  onClick={() => setShowTeamModal(false)}
                   className="flex-1 px-6 py-3 brutal-button bg-slate-200 hover:bg-slate-300"
                 >
                   취소
                 </button>
                 <button
                   onClick={async () => {
-                    const success = await onUpdateTeamCount(newTeamCount);
+                    const success = await onUpdateTeams(editingTeams, orphanPolicy);
                     if (success) {
-                      setShowTeamCountModal(false);
+                      setShowTeamModal(false);
                     }
                   }}
-                  disabled={newTeamCount === roomConfig?.teamCount}
-                  className={`flex-1 px-6 py-3 brutal-button ${
-                    newTeamCount === roomConfig?.teamCount
-                      ? 'bg-slate-300 cursor-not-allowed text-slate-500'
-                      : 'bg-indigo-500 text-white hover:bg-indigo-600'
-                  }`}
+                  className="flex-1 px-6 py-3 brutal-button bg-indigo-500 text-white hover:bg-indigo-600"
                 >
                   변경하기
                 </button>
@@ -482,6 +898,194 @@ const AdminView: React.FC<Props> = ({
         </div>
       )}
 
+      {/* 점수 규칙 모달 */}
+      {editingScoring && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={() => setEditingScoring(null)}
+        >
+          <div
+            className="brutal-card bg-white p-8 max-w-xl w-full mx-4 max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-6 border-b-4 border-black pb-4">
+              <h2 className="text-2xl font-black">점수 규칙</h2>
+              <button
+                onClick={() => setEditingScoring(null)}
+                className="brutal-button px-4 py-2 bg-slate-200 hover:bg-slate-300"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="space-y-6">
+              <ScoringEditor scoring={editingScoring} onChange={setEditingScoring} />
+
+              <div className="brutal-inset p-3 bg-amber-50 text-sm">
+                <p className="font-bold text-amber-800">⚠️ 주의사항</p>
+                <ul className="text-amber-700 mt-1 space-y-1">
+                  <li>• 게임 시작 전에만 변경 가능합니다</li>
+                  <li>• 보너스를 0점으로 두면 해당 보너스는 사용하지 않습니다</li>
+                </ul>
+              </div>
+
+              <div className="flex gap-4">
+                <button
+                  onClick={() => setEditingScoring(null)}
+                  className="flex-1 px-6 py-3 brutal-button bg-slate-200 hover:bg-slate-300"
+                >
+                  취소
+                </button>
+                <button
+                  onClick={async () => {
+                    const success = await onUpdateScoring(editingScoring);
+                    if (success) {
+                      setEditingScoring(null);
+                    }
+                  }}
+                  className="flex-1 px-6 py-3 brutal-button bg-amber-400 hover:bg-amber-500"
+                >
+                  저장하기
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 결과 내보내기 모달 */}
+      {showExport && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={() => setShowExport(false)}
+        >
+          <div
+            className="brutal-card bg-white p-8 max-w-xl w-full mx-4 max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-6 border-b-4 border-black pb-4">
+              <h2 className="text-2xl font-black">결과 내보내기</h2>
+              <button
+                onClick={() => setShowExport(false)}
+                className="brutal-button px-4 py-2 bg-slate-200 hover:bg-slate-300"
+              >
+                ✕
+              </button>
+            </div>
+
+            <ExportMenu
+              source={{ config: roomConfig, gameState, participants, rounds }}
+              fileName={`${roomConfig.roomName}_결과`}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* 게임 기록 모달 */}
+      {showHistory && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={() => setShowHistory(false)}
+        >
+          <div
+            className="brutal-card bg-white p-8 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-6 border-b-4 border-black pb-4">
+              <h2 className="text-2xl font-black">게임 기록</h2>
+              <button
+                onClick={() => setShowHistory(false)}
+                className="brutal-button px-4 py-2 bg-slate-200 hover:bg-slate-300"
+              >
+                ✕
+              </button>
+            </div>
+
+            <SessionHistory sessions={sessionHistory} onRefresh={onRefreshSessionHistory} onDelete={onDeleteSession} />
+          </div>
+        </div>
+      )}
+
+      {/* 초기화 모달 */}
+      {resetMode && (() => {
+        const summary = summarizeReset(resetMode, gameState, participants, rounds);
+        return (
+          <div
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+            onClick={() => setResetMode(null)}
+          >
+            <div
+              className="brutal-card bg-white p-8 max-w-xl w-full mx-4 max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-6 border-b-4 border-black pb-4">
+                <h2 className="text-2xl font-black">초기화</h2>
+                <button
+                  onClick={() => setResetMode(null)}
+                  className="brutal-button px-4 py-2 bg-slate-200 hover:bg-slate-300"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="space-y-6">
+                <div className="space-y-2">
+                  {RESET_MODES.map(option => (
+                    <label
+                      key={option.mode}
+                      className={`block brutal-inset p-3 cursor-pointer ${resetMode === option.mode ? 'bg-yellow-100' : 'bg-white'}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          name="resetMode"
+                          checked={resetMode === option.mode}
+                          onChange={() => setResetMode(option.mode)}
+                        />
+                        <span className="font-black">{option.label}</span>
+                      </div>
+                      <p className="text-xs text-gray-600 mt-1 ml-6">{option.hint}</p>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="brutal-inset p-3 bg-red-50 text-sm">
+                  <p className="font-bold text-red-800">⚠️ 사라지는 내용</p>
+                  <ul className="text-red-700 mt-1 space-y-1">
+                    <li>• 점수: {summary.scoredParticipants}명, 합계 {summary.totalPoints}점</li>
+                    <li>• 진행한 라운드: {summary.rounds}라운드 (모든 팀 합계)</li>
+                    <li>
+                      • 참가자: {summary.participants > 0 ? `${summary.participants}명 모두 방에서 나가게 됩니다` : '그대로 유지됩니다'}
+                    </li>
+                  </ul>
+                  {summary.archived && (
+                    <p className="font-bold text-emerald-700 mt-2">지금 세션은 초기화 전에 기록으로 보관됩니다</p>
+                  )}
+                </div>
+
+                <div className="flex gap-4">
+                  <button
+                    onClick={() => setResetMode(null)}
+                    className="flex-1 px-6 py-3 brutal-button bg-slate-200 hover:bg-slate-300"
+                  >
+                    취소
+                  </button>
+                  <button
+                    onClick={() => {
+                      onReset(resetMode);
+                      setResetMode(null);
+                    }}
+                    className="flex-1 px-6 py-3 brutal-button brutal-button-danger"
+                  >
+                    초기화하기
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
       {/* 질문 수정 모달 */}
       {showQuestionsModal && (
         <div
@@ -508,21 +1112,50 @@ const AdminView: React.FC<Props> = ({
                 <p className="font-black text-2xl">{roomConfig?.questions?.length || 0}개</p>
               </div>
 
-              <div>
-                <label className="block text-sm font-black text-black mb-2">질문 목록 (빈 줄로 문항 구분)</label>
-                <textarea
-                  rows={15}
-                  value={editingQuestions}
-                  onChange={(e) => setEditingQuestions(e.target.value)}
-                  placeholder="질문 1 내용 (여러 줄 가능)
+              <QuestionEditor
+                questions={editingQuestions}
+                onChange={setEditingQuestions}
+                sets={questionSets}
+                clientId={libraryClientId}
+                onSaveSet={onSaveQuestionSet}
+                onDeleteSet={onDeleteQuestionSet}
+                exportName={roomConfig.roomName}
+              />
 
-질문 2 내용 (여러 줄 가능)
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-black text-black mb-2">질문 선택지 수</label>
+                  <input
+                    type="number"
+                    value={editingSettings.questionChoiceCount ?? QUESTION_CHOICE_COUNT}
+                    onChange={(e) => setEditingSettings({ ...editingSettings, questionChoiceCount: parseInt(e.target.value) || QUESTION_CHOICE_COUNT })}
+                    min={MIN_QUESTION_CHOICES}
+                    max={MAX_QUESTION_CHOICES}
+                    className="w-full brutal-input font-black"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-black text-black mb-2">주인공당 질문 교체</label>
+                  <input
+                    type="number"
+                    value={editingSettings.heroRerolls ?? 0}
+                    onChange={(e) => setEditingSettings({ ...editingSettings, heroRerolls: parseInt(e.target.value) || 0 })}
+                    min={0}
+                    max={MAX_HERO_REROLLS}
+                    className="w-full brutal-input font-black"
+                  />
+                </div>
+              </div>
 
-질문 3 내용..."
-                  className="w-full brutal-input text-sm leading-relaxed"
+              <label className="flex items-center gap-2 text-sm font-bold">
+                <input
+                  type="checkbox"
+                  checked={!!editingSettings.balanceCategories}
+                  onChange={(e) => setEditingSettings({ ...editingSettings, balanceCategories: e.target.checked })}
+                  className="w-5 h-5 accent-black"
                 />
-                <p className="text-xs text-gray-500 mt-1">* 긴 질문은 여러 줄 작성 가능, 문항 사이에 빈 줄(엔터 두 번)로 구분</p>
-              </div>
+                주인공에게 보여줄 질문을 서로 다른 카테고리에서 고르기
+              </label>
 
               <div className="brutal-inset p-3 bg-amber-50 text-sm">
                 <p className="font-bold text-amber-800">⚠️ 주의사항</p>
@@ -542,17 +1175,20 @@ const AdminView: React.FC<Props> = ({
                 <button
                   onClick={async () => {
                     const newQuestions = editingQuestions
-                      .split(/\n\n+/)
-                      .map(q => q.trim())
-                      .filter(q => q !== '');
-                    const success = await onUpdateQuestions(newQuestions);
+                      .map(q => ({ ...q, text: q.text.trim() }))
+                      .filter(q => q.text !== '');
+                    const success = await onUpdateQuestions(newQuestions, {
+                      ...editingSettings,
+                      questionChoiceCount: Math.min(MAX_QUESTION_CHOICES, Math.max(MIN_QUESTION_CHOICES, editingSettings.questionChoiceCount ?? QUESTION_CHOICE_COUNT)),
+                      heroRerolls: Math.min(MAX_HERO_REROLLS, Math.max(0, editingSettings.heroRerolls ?? 0))
+                    });
                     if (success) {
                       setShowQuestionsModal(false);
                     }
                   }}
-                  disabled={editingQuestions.trim() === ''}
+                  disabled={editingQuestions.length === 0}
                   className={`flex-1 px-6 py-3 brutal-button ${
-                    editingQuestions.trim() === ''
+                    editingQuestions.length === 0
                       ? 'bg-slate-300 cursor-not-allowed text-slate-500'
                       : 'bg-purple-500 text-white hover:bg-purple-600'
                   }`}
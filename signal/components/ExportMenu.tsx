@@ -0,0 +1,98 @@
+
+import React, { useState } from 'react';
+import {
+  ReportSource,
+  buildParticipantSheet,
+  buildReportSheets,
+  buildRoundSheet,
+  buildSummaryHtml,
+  buildTeamSheet,
+  createXlsx,
+  sheetToCsv
+} from '../engine';
+import { downloadFile } from './download';
+
+interface Props {
+  source: ReportSource;
+  fileName: string; // 확장자 없는 파일 이름
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// 결과 내보내기 - 모두 브라우저에서 만들어 바로 저장 / 인쇄 (서버 없이 동작)
+const ExportMenu: React.FC<Props> = ({ source, fileName }) => {
+  const [printError, setPrintError] = useState(false);
+
+  const csvItems = [
+    { label: '개인 점수', suffix: '개인점수', build: buildParticipantSheet },
+    { label: '팀 점수', suffix: '팀점수', build: buildTeamSheet },
+    { label: '라운드 상세', suffix: '라운드상세', build: buildRoundSheet }
+  ];
+
+  // 엑셀에서 한글이 깨지지 않도록 CSV에는 BOM 추가
+  const handleCsv = (item: typeof csvItems[number]) => {
+    downloadFile('\uFEFF' + sheetToCsv(item.build(source)), 'text/csv;charset=utf-8', `${fileName}_${item.suffix}.csv`);
+  };
+
+  const handleXlsx = () => {
+    downloadFile(createXlsx(buildReportSheets(source)), XLSX_MIME_TYPE, `${fileName}.xlsx`);
+  };
+
+  // 새 창에 요약을 띄워 브라우저 인쇄 (PDF로 저장 가능)
+  const handlePrint = () => {
+    const win = window.open('', '_blank');
+    if (!win) {
+      setPrintError(true);
+      return;
+    }
+    setPrintError(false);
+    win.document.write(buildSummaryHtml(source, Date.now()));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm font-black mb-2">엑셀 (시트: 개인 점수 / 팀 점수 / 라운드 상세)</p>
+        <button
+          onClick={handleXlsx}
+          className="w-full px-6 py-3 brutal-button bg-emerald-400 hover:bg-emerald-500"
+        >
+          XLSX 내려받기
+        </button>
+      </div>
+
+      <div>
+        <p className="text-sm font-black mb-2">CSV</p>
+        <div className="grid grid-cols-3 gap-2">
+          {csvItems.map(item => (
+            <button
+              key={item.suffix}
+              onClick={() => handleCsv(item)}
+              className="px-3 py-2 brutal-button bg-slate-200 hover:bg-slate-300 text-sm"
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-black mb-2">인쇄용 요약 (팀 순위 / 개인 순위 한 장)</p>
+        <button
+          onClick={handlePrint}
+          className="w-full px-6 py-3 brutal-button bg-amber-400 hover:bg-amber-500"
+        >
+          인쇄 / PDF 저장
+        </button>
+        {printError && (
+          <p className="text-sm text-rose-600 font-bold mt-1">팝업이 차단되어 인쇄 창을 열 수 없습니다. 팝업을 허용한 뒤 다시 시도하세요.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,381 @@
+
+import React, { useState } from 'react';
+import { QuestionItem, QuestionSet } from '../types';
+import {
+  DEFAULT_QUESTION_CATEGORY,
+  QUESTION_FORMAT_EXTENSIONS,
+  QuestionFormat,
+  QuestionImportPlan,
+  collectCategories,
+  collectTags,
+  countByCategory,
+  filterQuestionItems,
+  detectQuestionFormat,
+  exportQuestions,
+  mergeQuestionItems,
+  parseQuestionText,
+  parseQuestions,
+  parseTags,
+  planQuestionImport
+} from '../engine';
+import { downloadFile } from './download';
+
+interface Props {
+  questions: QuestionItem[];
+  onChange: (questions: QuestionItem[]) => void;
+  sets: QuestionSet[];
+  clientId: string | null;
+  onSaveSet: (name: string, questions: QuestionItem[]) => Promise<boolean>;
+  onDeleteSet: (setId: string) => Promise<boolean>;
+  exportName?: string; // 내보낼 파일 이름
+}
+
+// 파일에서 읽어 추가하기 전 미리보기
+interface ImportPreview extends QuestionImportPlan {
+  fileName: string;
+  errors: string[];
+}
+
+const EXPORT_MIME_TYPES: Record<QuestionFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  text: 'text/plain'
+};
+
+// 질문 편집기 - 라이브러리 세트 불러오기 / 카테고리 섞기 / 문항별 분류 / 파일 가져오기·내보내기 / 현재 질문을 세트로 저장
+const QuestionEditor: React.FC<Props> = ({ questions, onChange, sets, clientId, onSaveSet, onDeleteSet, exportName = '질문' }) => {
+  const [selectedSetId, setSelectedSetId] = useState(sets[0]?.id || '');
+  const [filterCategories, setFilterCategories] = useState<string[]>([]);
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [newText, setNewText] = useState('');
+  const [newCategory, setNewCategory] = useState(DEFAULT_QUESTION_CATEGORY);
+  const [newSetName, setNewSetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [exportFormat, setExportFormat] = useState<QuestionFormat>('csv');
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+
+  const selectedSet = sets.find(s => s.id === selectedSetId);
+  const selectedSetQuestions = selectedSet?.questions || [];
+  const picked = filterQuestionItems(selectedSetQuestions, filterCategories, filterTags);
+  const setCategoryCounts = countByCategory(selectedSetQuestions);
+  const setTags = collectTags(selectedSetQuestions);
+  const categories = collectCategories([...questions, ...sets.flatMap(s => s.questions)]);
+  const currentCounts = countByCategory(questions);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const selectSet = (setId: string) => {
+    setSelectedSetId(setId);
+    setFilterCategories([]);
+    setFilterTags([]);
+  };
+
+  const updateQuestion = (index: number, changes: Partial<QuestionItem>) => {
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const handleAdd = () => {
+    onChange(mergeQuestionItems(questions, parseQuestionText(newText, newCategory)));
+    setNewText('');
+  };
+
+  // 파일을 읽어 형식 확인 / 검증 / 기존 질문과 중복 제거 후 미리보기
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      const { questions: imported, errors } = parseQuestions(content, detectQuestionFormat(file.name, content), newCategory);
+      setImportPreview({ fileName: file.name, errors, ...planQuestionImport(questions, imported) });
+    } catch (err) {
+      console.error('Failed to read question file:', err);
+      setImportPreview({ fileName: file.name, errors: ['파일을 읽을 수 없습니다.'], added: [], duplicates: [] });
+    }
+  };
+
+  const handleExport = () => {
+    // 엑셀에서 한글이 깨지지 않도록 CSV에는 BOM 추가
+    const content = (exportFormat === 'csv' ? '\uFEFF' : '') + exportQuestions(questions, exportFormat);
+    downloadFile(content, `${EXPORT_MIME_TYPES[exportFormat]};charset=utf-8`, `${exportName}.${QUESTION_FORMAT_EXTENSIONS[exportFormat]}`);
+  };
+
+  const handleSaveSet = async () => {
+    setIsSaving(true);
+    const success = await onSaveSet(newSetName, questions);
+    setIsSaving(false);
+    if (success) setNewSetName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 라이브러리에서 불러오기 */}
+      <div className="brutal-inset p-4 bg-purple-50 space-y-3">
+        <p className="text-sm font-black">질문 라이브러리</p>
+        <div className="flex gap-2">
+          <select
+            value={selectedSetId}
+            onChange={(e) => selectSet(e.target.value)}
+            className="flex-1 brutal-input text-sm font-bold"
+          >
+            {sets.map(s => (
+              <option key={s.id} value={s.id}>{s.name} ({s.questions.length}개)</option>
+            ))}
+          </select>
+          {selectedSet?.ownerId && selectedSet.ownerId === clientId && (
+            <button
+              type="button"
+              onClick={async () => {
+                if (confirm(`'${selectedSet.name}' 세트를 삭제하시겠습니까?`) && await onDeleteSet(selectedSet.id)) {
+                  selectSet(sets[0]?.id || '');
+                }
+              }}
+              className="px-3 py-2 brutal-button text-xs font-bold bg-rose-500 text-white"
+            >
+              삭제
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {Object.keys(setCategoryCounts).map(category => (
+            <button
+              key={category}
+              type="button"
+              onClick={() => setFilterCategories(toggle(filterCategories, category))}
+              className={`px-2 py-1 border-2 border-black text-xs font-bold ${
+                filterCategories.includes(category) ? 'bg-purple-500 text-white' : 'bg-white'
+              }`}
+            >
+              {category} {setCategoryCounts[category]}
+            </button>
+          ))}
+        </div>
+        {setTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {setTags.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => setFilterTags(toggle(filterTags, tag))}
+                className={`px-2 py-1 border border-black text-xs ${filterTags.includes(tag) ? 'bg-black text-white' : 'bg-white'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2 items-center">
+          <span className="flex-1 text-xs text-gray-600">
+            {filterCategories.length === 0 && filterTags.length === 0 ? '세트 전체' : '선택한 분류'} {picked.length}개
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(picked)}
+            disabled={picked.length === 0}
+            className="px-3 py-2 brutal-button text-xs font-bold bg-white hover:bg-slate-100"
+          >
+            바꾸기
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange(mergeQuestionItems(questions, picked))}
+            disabled={picked.length === 0}
+            className="px-3 py-2 brutal-button text-xs font-bold bg-purple-500 text-white hover:bg-purple-600"
+          >
+            추가하기
+          </button>
+        </div>
+      </div>
+
+      {/* 현재 질문 */}
+      <div>
+        <div className="flex justify-between items-end mb-2">
+          <label className="block text-sm font-black text-black">현재 질문 {questions.length}개</label>
+          <span className="text-xs text-gray-500">
+            {Object.entries(currentCounts).map(([category, count]) => `${category} ${count}`).join(' · ')}
+          </span>
+        </div>
+        <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+          {questions.map((q, idx) => (
+            <div key={idx} className="brutal-inset p-2 bg-white space-y-1">
+              <div className="flex gap-2">
+                <select
+                  value={q.category}
+                  onChange={(e) => updateQuestion(idx, { category: e.target.value })}
+                  className="brutal-input py-1 text-xs font-bold"
+                >
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+                <input
+                  key={(q.tags || []).join(',')}
+                  type="text"
+                  defaultValue={(q.tags || []).join(', ')}
+                  onBlur={(e) => updateQuestion(idx, { tags: parseTags(e.target.value) })}
+                  placeholder="태그 (쉼표로 구분)"
+                  className="flex-1 brutal-input py-1 text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={() => onChange(questions.filter((_, i) => i !== idx))}
+                  className="px-2 brutal-button text-xs bg-slate-200 hover:bg-slate-300"
+                >
+                  ✕
+                </button>
+              </div>
+              <textarea
+                rows={2}
+                value={q.text}
+                onChange={(e) => updateQuestion(idx, { text: e.target.value })}
+                className="w-full brutal-input text-sm leading-relaxed"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 직접 추가 */}
+      <div className="space-y-2">
+        <label className="block text-sm font-black text-black">직접 추가 (빈 줄로 문항 구분)</label>
+        <textarea
+          rows={4}
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          placeholder="질문 1 내용 (여러 줄 가능)
+
+질문 2 내용..."
+          className="w-full brutal-input text-sm leading-relaxed"
+        />
+        <div className="flex gap-2">
+          <select
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            className="brutal-input text-sm font-bold"
+          >
+            {categories.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={newText.trim() === ''}
+            className={`flex-1 brutal-button text-sm font-bold ${
+              newText.trim() === '' ? 'bg-slate-200 cursor-not-allowed text-slate-400' : 'bg-white hover:bg-slate-100'
+            }`}
+          >
+            + 질문 추가
+          </button>
+        </div>
+      </div>
+
+      {/* 파일 가져오기 / 내보내기 */}
+      <div className="brutal-inset p-4 bg-slate-50 space-y-3">
+        <p className="text-sm font-black">파일 가져오기 / 내보내기</p>
+        <div className="flex gap-2">
+          <label className="flex-1 py-2 brutal-button text-sm font-bold text-center bg-white hover:bg-slate-100 cursor-pointer">
+            가져오기 (CSV, JSON, TXT)
+            <input type="file" accept=".csv,.json,.txt,text/plain" onChange={handleImportFile} className="hidden" />
+          </label>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as QuestionFormat)}
+            className="brutal-input text-sm font-bold"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+            <option value="text">텍스트</option>
+          </select>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={questions.length === 0}
+            className="px-3 brutal-button text-sm font-bold bg-white hover:bg-slate-100"
+          >
+            내보내기
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">* CSV 열: question, category, tags (태그는 ;로 구분) / 카테고리가 없으면 위에서 고른 카테고리로 추가</p>
+
+        {importPreview && (
+          <div className="border-2 border-black bg-white p-3 space-y-2">
+            <p className="text-sm font-black">{importPreview.fileName}</p>
+            <p className="text-xs font-bold">
+              새 질문 {importPreview.added.length}개 · 중복 제외 {importPreview.duplicates.length}개 · 오류 {importPreview.errors.length}개
+            </p>
+            {importPreview.errors.length > 0 && (
+              <ul className="text-xs text-rose-600 space-y-0.5">
+                {importPreview.errors.slice(0, 5).map(message => (
+                  <li key={message}>• {message}</li>
+                ))}
+                {importPreview.errors.length > 5 && <li>• 외 {importPreview.errors.length - 5}개</li>}
+              </ul>
+            )}
+            {importPreview.added.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto text-xs space-y-1">
+                {importPreview.added.map(q => (
+                  <li key={q.text} className="flex gap-2">
+                    <span className="font-bold shrink-0">[{q.category}]</span>
+                    <span className="truncate">{q.text}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setImportPreview(null)}
+                className="flex-1 py-2 brutal-button text-xs font-bold bg-slate-200 hover:bg-slate-300"
+              >
+                취소
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  onChange([...questions, ...importPreview.added]);
+                  setImportPreview(null);
+                }}
+                disabled={importPreview.added.length === 0}
+                className={`flex-1 py-2 brutal-button text-xs font-bold ${
+                  importPreview.added.length === 0 ? 'bg-slate-200 cursor-not-allowed text-slate-400' : 'bg-purple-500 text-white hover:bg-purple-600'
+                }`}
+              >
+                {importPreview.added.length}개 추가
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 현재 질문을 세트로 저장 */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newSetName}
+          onChange={(e) => setNewSetName(e.target.value)}
+          placeholder="새 세트 이름"
+          className="flex-1 brutal-input text-sm font-bold"
+        />
+        <button
+          type="button"
+          onClick={handleSaveSet}
+          disabled={isSaving || questions.length === 0 || !newSetName.trim()}
+          className={`px-4 brutal-button text-sm font-bold ${
+            isSaving || questions.length === 0 || !newSetName.trim()
+              ? 'bg-slate-200 cursor-not-allowed text-slate-400'
+              : 'bg-indigo-500 text-white hover:bg-indigo-600'
+          }`}
+        >
+          세트로 저장
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
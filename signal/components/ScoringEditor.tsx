@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { ScoringPolicy } from '../types';
+import { MAX_AWARD_POINTS } from '../engine';
+
+interface Props {
+  scoring: ScoringPolicy;
+  onChange: (scoring: ScoringPolicy) => void;
+}
+
+type PointField = 'pointsPerCorrect' | 'signalBonus' | 'speedBonus' | 'unanimityBonus';
+
+const POINT_FIELDS: { key: PointField; label: string; hint: string }[] = [
+  { key: 'pointsPerCorrect', label: '정답 점수', hint: '주인공의 답을 맞힌 팀원이 받는 기본 점수' },
+  { key: 'speedBonus', label: '속도 보너스 (최대)', hint: '주인공이 답을 고른 직후 맞히면 최대, 제한 시간이 지나면 0점' },
+  { key: 'unanimityBonus', label: '만장일치 보너스', hint: '팀원 전원이 맞히면 맞힌 팀원 모두에게' },
+  { key: 'signalBonus', label: '시그널 보너스', hint: '팀원 다수(또는 전원)가 맞히면 주인공에게' }
+];
+
+// 점수 규칙 편집기 - 방 만들기 / 관리자 화면에서 함께 사용 (0점이면 해당 보너스 사용 안 함)
+const ScoringEditor: React.FC<Props> = ({ scoring, onChange }) => {
+  const update = (changes: Partial<ScoringPolicy>) => onChange({ ...scoring, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {POINT_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-xs font-black text-black mb-1">{field.label}</label>
+            <input
+              type="number"
+              value={scoring[field.key]}
+              onChange={(e) => update({ [field.key]: Math.min(MAX_AWARD_POINTS, Math.max(0, parseInt(e.target.value) || 0)) })}
+              min={0}
+              max={MAX_AWARD_POINTS}
+              step={10}
+              className="w-full brutal-input font-black"
+            />
+            <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-black text-black mb-1">속도 보너스 시간 (초)</label>
+          <input
+            type="number"
+            value={scoring.speedWindowSeconds}
+            onChange={(e) => update({ speedWindowSeconds: Math.max(1, parseInt(e.target.value) || 1) })}
+            min={1}
+            max={120}
+            disabled={scoring.speedBonus === 0}
+            className="w-full brutal-input font-black disabled:opacity-50"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-black text-black mb-1">시그널 보너스 조건</label>
+          <select
+            value={scoring.signalThreshold}
+            onChange={(e) => update({ signalThreshold: e.target.value as ScoringPolicy['signalThreshold'] })}
+            disabled={scoring.signalBonus === 0}
+            className="w-full brutal-input font-black disabled:opacity-50"
+          >
+            <option value="majority">팀원 과반수 정답</option>
+            <option value="all">팀원 전원 정답</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoringEditor;
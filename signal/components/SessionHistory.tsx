@@ -0,0 +1,236 @@
+
+import React, { useEffect, useState } from 'react';
+import { SessionArchive, User, UserRole } from '../types';
+import { buildReplay, countRecordedRounds, describeAward, getTeamName, getTeams } from '../engine';
+import ExportMenu from './ExportMenu';
+
+interface Props {
+  sessions: SessionArchive[];
+  onRefresh: () => void;
+  onDelete: (sessionId: string) => Promise<boolean>;
+}
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}.${date.getMonth() + 1}.${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+// 파일 이름용 날짜 (예: 20240315)
+const formatDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// 보관된 게임 목록과 라운드별 다시 보기
+const SessionHistory: React.FC<Props> = ({ sessions, onRefresh, onDelete }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [teamFilter, setTeamFilter] = useState<string>('all');
+  const [step, setStep] = useState(0);
+
+  useEffect(() => {
+    onRefresh();
+  }, [onRefresh]);
+
+  const session = sessions.find(s => s.id === selectedId);
+
+  if (!session) {
+    return (
+      <div className="space-y-3">
+        {sessions.length === 0 && (
+          <p className="text-center text-gray-500 py-8">보관된 게임이 없습니다. 게임이 끝나면 자동으로 보관됩니다.</p>
+        )}
+        {sessions.map(s => {
+          const trainees = (Object.values(s.participants) as User[]).filter(p => p.role === UserRole.TRAINEE);
+          return (
+            <div key={s.id} className="brutal-inset p-4 flex justify-between items-center gap-4">
+              <div>
+                <p className="font-black">{formatTime(s.archivedAt)}</p>
+                <p className="text-sm text-gray-600">
+                  참가자 {trainees.length}명 · {getTeams(s.config).length}팀 · {countRecordedRounds(s.rounds)}라운드
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setSelectedId(s.id);
+                    setTeamFilter('all');
+                    setStep(0);
+                  }}
+                  className="px-4 py-2 brutal-button bg-indigo-500 text-white hover:bg-indigo-600"
+                >
+                  다시 보기
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm('이 게임 기록을 삭제하시겠습니까?')) {
+                      onDelete(s.id);
+                    }
+                  }}
+                  className="px-4 py-2 brutal-button brutal-button-danger"
+                >
+                  삭제
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const { config, gameState, participants, rounds } = session;
+  const teamColor = (teamId: string) => getTeams(config).find(t => t.id === teamId)?.color;
+
+  const replay = buildReplay(rounds).filter(r => teamFilter === 'all' || r.record.team === teamFilter);
+  const current = replay[Math.min(step, replay.length - 1)];
+  // 라운드 기록에 남은 이름 우선 (게임 중 나간 참가자)
+  const nameOf = (userId: string) => current?.record.names[userId] || participants[userId]?.name || '(나간 참가자)';
+
+  // 최종 순위 - 보관 시점의 개인 점수
+  const ranking = (Object.values(participants) as User[])
+    .filter(p => p.role === UserRole.TRAINEE)
+    .sort((a, b) => (gameState.individualScores[b.id] || 0) - (gameState.individualScores[a.id] || 0));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <button
+          onClick={() => setSelectedId(null)}
+          className="px-4 py-2 brutal-button bg-slate-200 hover:bg-slate-300"
+        >
+          ← 목록
+        </button>
+        <p className="font-black">{config.roomName} · {formatTime(session.archivedAt)}</p>
+      </div>
+
+      {/* 최종 순위 */}
+      <div className="brutal-inset p-4 bg-yellow-50">
+        <p className="text-sm text-gray-600 mb-2">최종 점수</p>
+        <div className="grid grid-cols-2 gap-1 text-sm">
+          {ranking.map((p, index) => (
+            <p key={p.id} className="font-bold">
+              {index + 1}. {p.name} <span style={{ color: teamColor(p.team) }}>({getTeamName(config, p.team)})</span> {gameState.individualScores[p.id] || 0}점
+            </p>
+          ))}
+        </div>
+      </div>
+
+      {/* 이 세션 결과 내보내기 */}
+      <details className="brutal-inset p-4">
+        <summary className="font-black cursor-pointer">결과 내보내기</summary>
+        <div className="mt-4">
+          <ExportMenu
+            source={{ config, gameState, participants: Object.values(participants) as User[], rounds }}
+            fileName={`${config.roomName}_결과_${formatDate(session.archivedAt)}`}
+          />
+        </div>
+      </details>
+
+      {/* 라운드 다시 보기 */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <select
+            value={teamFilter}
+            onChange={(e) => {
+              setTeamFilter(e.target.value);
+              setStep(0);
+            }}
+            className="brutal-input font-black"
+          >
+            <option value="all">모든 팀</option>
+            {Object.keys(rounds).map(teamId => (
+              <option key={teamId} value={teamId}>{getTeamName(config, teamId)}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setStep(s => Math.max(0, s - 1))}
+              disabled={step === 0}
+              className="px-4 py-2 brutal-button bg-slate-200 hover:bg-slate-300 disabled:opacity-50"
+            >
+              ◀ 이전
+            </button>
+            <span className="font-black">{replay.length > 0 ? Math.min(step, replay.length - 1) + 1 : 0} / {replay.length}</span>
+            <button
+              onClick={() => setStep(s => Math.min(replay.length - 1, s + 1))}
+              disabled={step >= replay.length - 1}
+              className="px-4 py-2 brutal-button bg-slate-200 hover:bg-slate-300 disabled:opacity-50"
+            >
+              다음 ▶
+            </button>
+          </div>
+        </div>
+
+        {!current && (
+          <p className="text-center text-gray-500 py-8">기록된 라운드가 없습니다.</p>
+        )}
+
+        {current && (
+          <div className="brutal-inset p-4 space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="font-black text-lg" style={{ color: teamColor(current.record.team) }}>
+                {getTeamName(config, current.record.team)} · {current.record.round + 1}라운드
+              </p>
+              <p className="text-sm text-gray-600">⭐ {nameOf(current.record.heroId)}</p>
+            </div>
+
+            <div>
+              <p className="text-sm text-gray-600 mb-1">제시된 질문</p>
+              <ul className="space-y-1 text-sm">
+                {current.record.offeredQuestions.map((text, i) => (
+                  <li
+                    key={i}
+                    className={text === current.record.question ? 'font-black' : 'text-gray-500'}
+                  >
+                    {text === current.record.question ? '▶ ' : '· '}{text || '(지워진 질문)'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <p>
+              주인공의 답:{' '}
+              <span className={`font-black text-2xl ${current.record.heroAnswer === 'O' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                {current.record.heroAnswer}
+              </span>
+            </p>
+
+            <div className="space-y-1 text-sm">
+              {Object.entries(current.record.memberAnswers).map(([userId, answer]) => (
+                <div key={userId} className="flex justify-between gap-2">
+                  <span className="font-bold">
+                    {answer === current.record.heroAnswer ? '✅' : '❌'} {nameOf(userId)} ({answer})
+                  </span>
+                  {current.record.awards[userId] && (
+                    <span className="text-gray-600">+{current.record.awards[userId].total} · {describeAward(current.record.awards[userId])}</span>
+                  )}
+                </div>
+              ))}
+              {Object.keys(current.record.memberAnswers).length === 0 && (
+                <p className="text-gray-500">답을 낸 팀원이 없습니다</p>
+              )}
+              {current.record.awards[current.record.heroId] && (
+                <p className="text-gray-600">
+                  ⭐ {nameOf(current.record.heroId)} +{current.record.awards[current.record.heroId].total} · {describeAward(current.record.awards[current.record.heroId])}
+                </p>
+              )}
+            </div>
+
+            <div className="border-t-2 border-black pt-2">
+              <p className="text-sm text-gray-600 mb-1">이 라운드까지 이번 게임 점수</p>
+              <p className="text-sm font-bold">
+                {Object.entries(current.scores)
+                  .sort(([, a], [, b]) => b - a)
+                  .slice(0, 5)
+                  .map(([userId, score]) => `${nameOf(userId)} ${score}점`)
+                  .join(' · ') || '-'}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistory;
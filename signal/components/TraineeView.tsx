@@ -1,6 +1,23 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { User, RoomConfig, GameState } from '../types';
+import { User, RoomConfig, GameState, Presence } from '../types';
+import {
+  buildAnswerStats,
+  countMemberAnswers,
+  describeAward,
+  findFastestCorrect,
+  formatResponseMs,
+  findTeam,
+  getAnswerRemainingMs,
+  getAnswerTimeoutAction,
+  getHeroRerollLimit,
+  getPresenceState,
+  getQuestionChoices,
+  getRemainingMs,
+  getTeamName,
+  isAnswerWindowOver,
+  REVEAL_COUNTDOWN_MS
+} from '../engine';
 
 // 축하 사운드 재생 함수
 const playCelebrationSound = () => {
@@ -40,13 +57,16 @@ interface Props {
   roomConfig: RoomConfig | null;
   gameState: GameState;
   participants: User[];
+  presence: Record<string, Presence>;
+  serverTimeOffset: number;
   onHeroAction: (answer: 'O' | 'X') => void;
   onMemberAnswer: (odUserId: string, team: string, answer: 'O' | 'X') => void;
   onChangeQuestion: (team: string, direction: 'next' | 'prev' | number) => void;
+  onRerollQuestions: (team: string) => void;
   onRevealResult: (team: string) => void;
   onNextRound: (team: string) => void;
   onLeaveRoom: () => void;
-  onSwitchToAdmin: () => void;
+  onSwitchToAdmin: (adminSecret: string) => Promise<boolean>;
 }
 
 const TraineeView: React.FC<Props> = ({
@@ -54,9 +74,12 @@ const TraineeView: React.FC<Props> = ({
   roomConfig,
   gameState,
   participants,
+  presence,
+  serverTimeOffset,
   onHeroAction,
   onMemberAnswer,
   onChangeQuestion,
+  onRerollQuestions,
   onRevealResult,
   onNextRound,
   onLeaveRoom,
@@ -71,6 +94,17 @@ const TraineeView: React.FC<Props> = ({
   const [showConfetti, setShowConfetti] = useState(false);
   const celebrationPlayedRef = useRef(false);
 
+  // 방 관리자 비밀번호 확인 후 관리자 화면으로 전환
+  const handleAdminSwitch = async () => {
+    if (await onSwitchToAdmin(adminPassword)) {
+      setShowAdminModal(false);
+      setAdminPassword('');
+      setPasswordError('');
+    } else {
+      setPasswordError('방 관리자 비밀번호가 올바르지 않습니다.');
+    }
+  };
+
   // 안전하게 gameState 접근
   const currentHeroId = gameState?.currentHeroId || {};
   const heroAnswerMap = gameState?.heroAnswer || {};
@@ -81,6 +115,7 @@ const TraineeView: React.FC<Props> = ({
   const memberAnswers = gameState?.memberAnswers || {};
   const resultRevealed = gameState?.resultRevealed || {};
   const resultRevealedAt = gameState?.resultRevealedAt || {};
+  const roundAwards = gameState?.roundAwards || {};
 
   const teamMembers = participants.filter(p => p.team === user.team);
   const isHero = currentHeroId[user.team] === user.id;
@@ -93,20 +128,39 @@ const TraineeView: React.FC<Props> = ({
   const actualQuestionIndex = teamQuestionHistory[questionIdx];
   const currentQuestion = roomConfig?.questions?.[actualQuestionIndex];
 
-  // 내 답변 확인
+  // 현재 선택지 (교체한 경우 questionHistory 뒤쪽) / 남은 교체 횟수
+  const { start: choiceStart, choices: questionChoices } = getQuestionChoices(gameState, user.team);
+  const rerollsLeft = roomConfig ? getHeroRerollLimit(roomConfig) - (gameState?.questionRerolls?.[user.team] || 0) : 0;
+
+  // 내 답변 확인 (lockFirstAnswer면 처음 고른 답으로 확정)
   const myAnswer = memberAnswers[user.team]?.[user.id];
+  const isAnswerLocked = !!roomConfig?.lockFirstAnswer && !!myAnswer;
+
+  // 이번 라운드 점수 내역 (결과 공개 후)
+  const teamAwards = roundAwards[user.team] || {};
+  const myAward = teamAwards[user.id];
 
-  // 타이머
+  // 팀원 답변 현황 (오프라인 팀원은 기다리지 않음)
+  const serverNow = Date.now() + serverTimeOffset;
+  const answerStatus = countMemberAnswers(gameState, user.team, teamMembers, presence, serverNow);
+
+  // 팀원 답변 제한 시간 (주인공이 답을 고른 뒤부터, 설정한 방만)
+  const answerRemainingMs = roomConfig ? getAnswerRemainingMs(gameState, roomConfig, user.team, serverNow) : null;
+  const answerSecondsLeft = answerRemainingMs !== null ? Math.ceil(answerRemainingMs / 1000) : null;
+  const isAnswerClosed = roomConfig ? isAnswerWindowOver(gameState, roomConfig, user.team, serverNow) : false;
+  const revealsOnTimeout = roomConfig ? getAnswerTimeoutAction(roomConfig) === 'reveal' : false;
+
+  // 타이머 (서버 시간 기준 종료 시각까지)
   useEffect(() => {
     if (gameState?.isStarted && roomConfig) {
       const interval = setInterval(() => {
-        const elapsed = Math.floor((Date.now() - (Number(gameState.startTime) || Date.now())) / 1000);
-        const total = Number(roomConfig.durationMinutes) * 60;
-        setTimeLeft(Math.max(0, total - elapsed));
+        setTimeLeft(Math.ceil(getRemainingMs(gameState, roomConfig, Date.now() + serverTimeOffset) / 1000));
       }, 1000);
       return () => clearInterval(interval);
     }
-  }, [gameState?.isStarted, gameState?.startTime, roomConfig]);
+  }, [gameState, roomConfig, serverTimeOffset]);
+
+  const isTimerPaused = gameState?.pausedAt != null;
 
   // 주인공 답변이 바뀌면 초기화
   useEffect(() => {
@@ -116,22 +170,21 @@ const TraineeView: React.FC<Props> = ({
     }
   }, [heroAnswer]);
 
-  // 결과 공개 후 10초 카운트다운
+  // 결과 공개 후 10초 카운트다운 (서버 시간 기준)
   const isResultRevealed = resultRevealed[user.team] || false;
   const revealedAt = resultRevealedAt[user.team];
 
   useEffect(() => {
     if (isResultRevealed && revealedAt) {
       const interval = setInterval(() => {
-        const elapsed = Math.floor((Date.now() - revealedAt) / 1000);
-        const remaining = Math.max(0, 10 - elapsed);
-        setCountdownLeft(remaining);
+        const remainingMs = revealedAt + REVEAL_COUNTDOWN_MS - (Date.now() + serverTimeOffset);
+        setCountdownLeft(Math.max(0, Math.ceil(remainingMs / 1000)));
       }, 100);
       return () => clearInterval(interval);
     } else {
       setCountdownLeft(null);
     }
-  }, [isResultRevealed, revealedAt]);
+  }, [isResultRevealed, revealedAt, serverTimeOffset]);
 
   // 주인공으로 선택되었을 때 진동
   useEffect(() => {
@@ -171,6 +224,17 @@ const TraineeView: React.FC<Props> = ({
   // 팀 전체 점수
   const teamTotalScore = teamMembers.reduce((sum, m) => sum + (individualScores[m.id] || 0), 0);
 
+  // 답변 제한 시간 표시 (결과 공개 전 주인공 / 팀원 화면 공통)
+  const answerCountdown = answerSecondsLeft !== null && !isResultRevealed && (
+    <div className={`p-3 border-4 border-black text-center font-black ${
+      isAnswerClosed ? 'bg-slate-300' : answerSecondsLeft <= 5 ? 'bg-rose-400 animate-pulse' : 'bg-sky-200'
+    }`}>
+      {isAnswerClosed
+        ? (revealsOnTimeout ? '⏱ 답변 시간 종료 - 곧 결과가 공개됩니다' : '⏱ 답변 마감')
+        : `⏱ 남은 답변 시간 ${answerSecondsLeft}초`}
+    </div>
+  );
+
   // 답변 제출 (수정 가능)
   const handleAnswer = (answer: 'O' | 'X') => {
     setHasAnswered(true);
@@ -196,6 +260,8 @@ const TraineeView: React.FC<Props> = ({
     const sortedScores = getTeamScores();
     const myRank = sortedScores.findIndex(s => s.id === user.id) + 1;
     const isFirstPlace = myRank === 1;
+    const answerStats = buildAnswerStats(gameState, teamMembers);
+    const fastest = findFastestCorrect(answerStats);
 
     return (
       <div className={`brutal-card p-8 w-full max-w-md text-center relative overflow-hidden ${isFirstPlace ? 'bg-gradient-to-b from-yellow-300 via-yellow-400 to-orange-400' : 'bg-yellow-300'}`}>
@@ -266,6 +332,33 @@ const TraineeView: React.FC<Props> = ({
           </div>
         </div>
 
+        {/* 답변 기록 - 가장 빨리 맞힌 사람 / 평균 응답 시간 */}
+        <div className="brutal-inset p-4 bg-white border-4 mb-6">
+          <p className="text-sm font-black mb-3">⚡ 답변 기록</p>
+          {fastest && (
+            <p className="text-sm font-bold mb-3">
+              최고 순발력: {fastest.user.name} ({formatResponseMs(fastest.fastestCorrectMs)})
+            </p>
+          )}
+          <div className="space-y-1 text-sm">
+            {answerStats.filter(entry => entry.answered > 0).map(entry => (
+              <div
+                key={entry.user.id}
+                className={`flex justify-between gap-2 ${entry.user.id === user.id ? 'font-black text-indigo-600' : ''}`}
+              >
+                <span>{entry.user.name}</span>
+                <span>
+                  {entry.correct}/{entry.answered} 정답 · 평균 {formatResponseMs(entry.averageResponseMs)}
+                  {entry.changes > 0 ? ` · 변경 ${entry.changes}회` : ''}
+                </span>
+              </div>
+            ))}
+            {answerStats.every(entry => entry.answered === 0) && (
+              <p className="text-gray-500">답변 기록이 없습니다</p>
+            )}
+          </div>
+        </div>
+
         <div className="brutal-inset p-4 bg-indigo-500 text-white border-4 border-black">
           <p className="text-sm font-bold">팀 총점</p>
           <p className="text-3xl font-black">{teamTotalScore}점</p>
@@ -295,12 +388,12 @@ const TraineeView: React.FC<Props> = ({
         {showAdminModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="brutal-card p-6 bg-white max-w-sm w-full mx-4">
-              <h3 className="text-xl font-black mb-4">관리자 비밀번호</h3>
+              <h3 className="text-xl font-black mb-4">방 관리자 비밀번호</h3>
               <input
                 type="password"
                 value={adminPassword}
                 onChange={(e) => setAdminPassword(e.target.value)}
-                placeholder="비밀번호 입력"
+                placeholder="방 관리자 비밀번호"
                 className="w-full p-3 border-4 border-black mb-2 font-bold"
               />
               {passwordError && (
@@ -318,16 +411,7 @@ const TraineeView: React.FC<Props> = ({
                   취소
                 </button>
                 <button
-                  onClick={() => {
-                    if (adminPassword === '6749467') {
-                      setShowAdminModal(false);
-                      setAdminPassword('');
-                      setPasswordError('');
-                      onSwitchToAdmin();
-                    } else {
-                      setPasswordError('비밀번호가 틀렸습니다');
-                    }
-                  }}
+                  onClick={handleAdminSwitch}
                   className="flex-1 py-2 brutal-button brutal-button-primary font-bold"
                 >
                   확인
@@ -340,8 +424,9 @@ const TraineeView: React.FC<Props> = ({
     );
   }
 
-  // 대기 화면
-  if (!gameState?.isStarted) {
+  // 대기 화면 (소속 팀이 삭제된 경우 관리자가 새 팀을 배정할 때까지 대기)
+  const isUnassigned = !findTeam(roomConfig, user.team);
+  if (!gameState?.isStarted || isUnassigned) {
     return (
       <div className="brutal-card p-12 w-full max-w-md text-center bg-indigo-500 relative">
         <button
@@ -358,16 +443,20 @@ const TraineeView: React.FC<Props> = ({
           <span className="text-4xl animate-pulse">📡</span>
         </div>
         <h2 className="text-3xl font-black text-white mb-4">대기 중</h2>
-        <p className="text-white/90 font-bold mb-8">관리자가 게임을 시작하면 시작됩니다</p>
+        <p className="text-white/90 font-bold mb-8">
+          {isUnassigned ? '관리자가 팀을 배정하면 참여할 수 있습니다' : '관리자가 게임을 시작하면 시작됩니다'}
+        </p>
         <div className="bg-black text-white p-4 border-2 border-white">
           <p className="text-xs font-bold opacity-70 mb-1">내 정보</p>
-          <p className="text-xl font-black">{user.team} / {user.name}</p>
-        </div>
-        <div className="mt-4 bg-white/20 p-3">
-          <p className="text-white/80 text-sm">
-            팀원 {teamMembers.length}명 대기 중
-          </p>
+          <p className="text-xl font-black">{isUnassigned ? '팀 미배정' : getTeamName(roomConfig, user.team)} / {user.name}</p>
         </div>
+        {!isUnassigned && (
+          <div className="mt-4 bg-white/20 p-3">
+            <p className="text-white/80 text-sm">
+              팀원 {teamMembers.length}명 대기 중
+            </p>
+          </div>
+        )}
       </div>
     );
   }
@@ -380,8 +469,8 @@ const TraineeView: React.FC<Props> = ({
       {/* 상단 정보 */}
       <div className="flex justify-between items-center gap-4">
         <div className="brutal-card px-4 py-2 bg-white">
-          <p className="text-xs font-bold text-gray-500">남은 시간</p>
-          <p className={`text-2xl font-black ${timeLeft < 30 ? 'text-rose-500 animate-pulse' : ''}`}>
+          <p className="text-xs font-bold text-gray-500">{isTimerPaused ? '일시정지' : '남은 시간'}</p>
+          <p className={`text-2xl font-black ${isTimerPaused ? 'text-gray-400' : timeLeft < 30 ? 'text-rose-500 animate-pulse' : ''}`}>
             {minutes}:{seconds.toString().padStart(2, '0')}
           </p>
         </div>
@@ -451,23 +540,33 @@ const TraineeView: React.FC<Props> = ({
               </h2>
             </div>
 
-            {/* 질문 선택 (4개 중 선택) */}
+            {/* 질문 선택 (선택지 중 고르기 / 새 선택지 받기) */}
             {!heroAnswer && (
               <div className="mb-4">
-                <p className="text-xs font-bold text-gray-500 mb-2">다른 질문 선택 ({questionIdx + 1}/4)</p>
+                <p className="text-xs font-bold text-gray-500 mb-2">
+                  다른 질문 선택 ({questionIdx - choiceStart + 1}/{questionChoices.length})
+                </p>
                 <div className="flex gap-2">
-                  {teamQuestionHistory.map((qIdx, i) => (
+                  {questionChoices.map((qIdx, i) => (
                     <button
                       key={i}
-                      onClick={() => onChangeQuestion(user.team, i)}
+                      onClick={() => onChangeQuestion(user.team, choiceStart + i)}
                       className={`flex-1 py-2 brutal-button text-sm font-bold ${
-                        i === questionIdx ? 'bg-indigo-500 text-white' : 'bg-white'
+                        choiceStart + i === questionIdx ? 'bg-indigo-500 text-white' : 'bg-white'
                       }`}
                     >
                       {i + 1}번
                     </button>
                   ))}
                 </div>
+                {rerollsLeft > 0 && (
+                  <button
+                    onClick={() => onRerollQuestions(user.team)}
+                    className="w-full mt-2 py-2 brutal-button text-sm font-bold bg-sky-300 hover:bg-sky-400"
+                  >
+                    🔄 새 질문 받기 (남은 횟수 {rerollsLeft}회)
+                  </button>
+                )}
               </div>
             )}
 
@@ -490,12 +589,16 @@ const TraineeView: React.FC<Props> = ({
             ) : !isResultRevealed ? (
               /* 결과 공개 전 - 결과공개 버튼 */
               <div className="space-y-4">
-                {/* 나의 선택 - 터치하면 다시 선택 가능 */}
+                {answerCountdown}
+
+                {/* 나의 선택 - 터치하면 다시 선택 가능 (답변 시간이 끝나면 변경 불가) */}
                 <div
-                  className="bg-slate-800 border-4 border-black p-4 cursor-pointer active:scale-95 transition-transform"
-                  onClick={() => onHeroAction(heroAnswer === 'O' ? 'X' : 'O')}
+                  className={`bg-slate-800 border-4 border-black p-4 ${isAnswerClosed ? '' : 'cursor-pointer active:scale-95 transition-transform'}`}
+                  onClick={() => !isAnswerClosed && onHeroAction(heroAnswer === 'O' ? 'X' : 'O')}
                 >
-                  <p className="font-black text-lg mb-3 text-center text-white">⭐ 나의 선택 <span className="text-sm font-normal opacity-70">(터치하면 변경)</span></p>
+                  <p className="font-black text-lg mb-3 text-center text-white">
+                    ⭐ 나의 선택 {!isAnswerClosed && <span className="text-sm font-normal opacity-70">(터치하면 변경)</span>}
+                  </p>
                   <div className="flex justify-between items-center p-2 bg-slate-700 border-2 border-slate-600">
                     <span className="font-bold text-white">주인공 (나)</span>
                     <span className={`font-black text-xl px-3 py-1 border-2 border-black ${
@@ -508,12 +611,18 @@ const TraineeView: React.FC<Props> = ({
 
                 {/* 팀원 선택 현황 */}
                 <div className="bg-gray-100 border-4 border-black p-4">
-                  <p className="font-black text-lg mb-3 text-center">📋 팀원 선택 현황</p>
+                  <p className="font-black text-lg mb-1 text-center">📋 팀원 선택 현황</p>
+                  {answerStatus.expected > 0 && (
+                    <p className={`text-sm font-bold mb-3 text-center ${answerStatus.allAnswered ? 'text-emerald-600' : 'text-gray-500'}`}>
+                      {answerStatus.allAnswered ? '✅ 모두 선택 완료!' : `${answerStatus.answered}/${answerStatus.expected}명 선택`}
+                    </p>
+                  )}
                   <div className="space-y-2">
                     {teamMembers
                       .filter(member => member.id !== user.id)
                       .map(member => {
                         const memberAnswer = memberAnswers[user.team]?.[member.id];
+                        const isOffline = getPresenceState(presence[member.id], serverNow) === 'offline';
                         return (
                           <div
                             key={member.id}
@@ -528,6 +637,10 @@ const TraineeView: React.FC<Props> = ({
                               }`}>
                                 {memberAnswer}
                               </span>
+                            ) : isAnswerClosed ? (
+                              <span className="text-gray-500 text-sm font-bold">무응답</span>
+                            ) : isOffline ? (
+                              <span className="text-gray-400 text-sm">오프라인</span>
                             ) : (
                               <span className="text-gray-400 text-sm">대기중...</span>
                             )}
@@ -555,6 +668,25 @@ const TraineeView: React.FC<Props> = ({
                 }`}>
                   <p className="text-3xl font-black">정답: {heroAnswer}</p>
                 </div>
+
+                {/* 점수 내역 */}
+                <div className="brutal-inset p-4 bg-white">
+                  <p className="font-black mb-2">
+                    {myAward ? `📡 시그널 성공! +${myAward.total}점` : '이번 라운드 점수'}
+                  </p>
+                  <div className="space-y-1 text-sm">
+                    {teamMembers.filter(m => teamAwards[m.id]).map(m => (
+                      <div key={m.id} className="flex justify-between gap-2">
+                        <span className="font-bold">{m.name}</span>
+                        <span className="text-gray-600">{describeAward(teamAwards[m.id])}</span>
+                      </div>
+                    ))}
+                    {Object.keys(teamAwards).length === 0 && (
+                      <p className="text-gray-500">점수를 받은 사람이 없습니다</p>
+                    )}
+                  </div>
+                </div>
+
                 {countdownLeft !== null && countdownLeft > 0 ? (
                   <div className="text-center py-4">
                     <p className="text-lg font-bold text-gray-500">
@@ -602,12 +734,22 @@ const TraineeView: React.FC<Props> = ({
                   </h2>
                 </div>
 
+                {answerCountdown && <div className="mb-4">{answerCountdown}</div>}
+
                 {/* 추측하기 */}
-                {!hasAnswered ? (
+                {isAnswerClosed && !myAnswer ? (
+                  <div className="bg-slate-300 p-6 border-4 border-black text-center">
+                    <p className="text-xl font-black">답변 시간이 끝났어요</p>
+                    <p className="text-sm mt-1">이번 라운드는 무응답으로 처리됩니다</p>
+                  </div>
+                ) : !hasAnswered && !isAnswerLocked && !isAnswerClosed ? (
                   <div className="space-y-3">
                     <p className="text-center font-bold text-indigo-600">
                       주인공이 뭘 골랐을까요?
                     </p>
+                    {roomConfig?.lockFirstAnswer && (
+                      <p className="text-center text-sm text-gray-500">한 번 고르면 바꿀 수 없어요</p>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                       <button
                         onClick={() => handleAnswer('O')}
@@ -626,11 +768,15 @@ const TraineeView: React.FC<Props> = ({
                 ) : (
                   <div className="space-y-3">
                     <div
-                      className="bg-black text-white p-6 border-4 border-black text-center cursor-pointer active:scale-95 transition-transform"
-                      onClick={() => setHasAnswered(false)}
+                      className={`bg-black text-white p-6 border-4 border-black text-center ${
+                        isAnswerLocked || isAnswerClosed ? '' : 'cursor-pointer active:scale-95 transition-transform'
+                      }`}
+                      onClick={() => !isAnswerLocked && !isAnswerClosed && setHasAnswered(false)}
                     >
                       <p className="text-xl font-black">내 선택: {myAnswer}</p>
-                      <p className="text-sm opacity-70 mt-1">터치하면 다시 선택할 수 있어요</p>
+                      <p className="text-sm opacity-70 mt-1">
+                        {isAnswerClosed ? '답변이 마감되었어요' : isAnswerLocked ? '첫 답변으로 확정되었어요' : '터치하면 다시 선택할 수 있어요'}
+                      </p>
                     </div>
                   </div>
                 )}
@@ -658,8 +804,11 @@ const TraineeView: React.FC<Props> = ({
                       myAnswer === heroAnswer ? 'bg-emerald-200' : 'bg-rose-200'
                     }`}>
                       <p className="text-xl font-black">
-                        {myAnswer === heroAnswer ? '✓ 정답! +100점' : '✗ 오답'}
+                        {myAnswer === heroAnswer ? `✓ 정답! +${myAward?.total || 0}점` : '✗ 오답'}
                       </p>
+                      {myAward && (
+                        <p className="text-sm font-bold mt-1">{describeAward(myAward)}</p>
+                      )}
                       <p className="text-sm mt-1">
                         내 선택: {myAnswer}
                       </p>
@@ -745,21 +894,14 @@ const TraineeView: React.FC<Props> = ({
             <form
               onSubmit={(e) => {
                 e.preventDefault();
-                if (adminPassword === '6749467') {
-                  setShowAdminModal(false);
-                  setAdminPassword('');
-                  setPasswordError('');
-                  onSwitchToAdmin();
-                } else {
-                  setPasswordError('비밀번호가 올바르지 않습니다.');
-                }
+                handleAdminSwitch();
               }}
             >
               <input
                 type="password"
                 value={adminPassword}
                 onChange={(e) => setAdminPassword(e.target.value)}
-                placeholder="관리자 비밀번호"
+                placeholder="방 관리자 비밀번호"
                 className="w-full brutal-input mb-3 text-center font-black"
                 autoFocus
               />
@@ -1,62 +1,188 @@
 
 import React, { useState } from 'react';
-import { RoomConfig } from '../types';
-import { INITIAL_QUESTIONS } from '../constants';
+import { AnswerTimeoutAction, QuestionItem, QuestionSet, RoomConfig, ScoringPolicy, TeamAssignmentMode } from '../types';
+import { INITIAL_QUESTION_ITEMS } from '../constants';
 import { RoomInfo } from '../hooks/useFirebaseRoom';
+import { MIN_ADMIN_SECRET_LENGTH } from '../backend/adminSecret';
+import {
+  DEFAULT_HERO_OFFLINE_GRACE_SECONDS,
+  DEFAULT_SCORING_POLICY,
+  MAX_ANSWER_WINDOW_SECONDS,
+  MAX_HERO_REROLLS,
+  MAX_QUESTION_CHOICES,
+  MAX_TEAM_COUNT,
+  MIN_ANSWER_WINDOW_SECONDS,
+  MIN_QUESTION_CHOICES,
+  MIN_TEAM_COUNT,
+  QUESTION_CHOICE_COUNT,
+  createDefaultTeams,
+  toRoomQuestions
+} from '../engine';
+import QuestionEditor from './QuestionEditor';
+import ScoringEditor from './ScoringEditor';
 
 interface Props {
   roomList: RoomInfo[];
-  onAdminLogin: (config: RoomConfig) => void;
-  onAdminJoinRoom: (roomId: string) => void;
+  onAdminLogin: (config: RoomConfig, adminSecret: string) => void;
+  onAdminJoinRoom: (roomId: string, adminSecret: string) => Promise<boolean>;
+  onClaimLegacyRoom: (roomId: string, setupSecret: string, adminSecret: string) => Promise<boolean>;
   onParticipantLogin: (roomId: string, name: string, team: string) => void;
-  onDeleteRoom: (roomId: string) => void;
+  onDeleteRoom: (roomId: string, adminSecret: string) => Promise<boolean>;
   onRefreshRooms: () => void;
+  questionSets: QuestionSet[];
+  libraryClientId: string | null;
+  onSaveQuestionSet: (name: string, questions: QuestionItem[]) => Promise<boolean>;
+  onDeleteQuestionSet: (setId: string) => Promise<boolean>;
 }
 
 type ViewMode = 'select' | 'admin' | 'admin-create' | 'participant-join';
 
+// 방 관리자 비밀번호를 확인 중인 방과 동작
+interface PendingRoomAction {
+  roomId: string;
+  action: 'join' | 'delete' | 'claim';
+}
+
 const WelcomeView: React.FC<Props> = ({
   roomList,
   onAdminLogin,
   onAdminJoinRoom,
+  onClaimLegacyRoom,
   onParticipantLogin,
   onDeleteRoom,
-  onRefreshRooms
+  onRefreshRooms,
+  questionSets,
+  libraryClientId,
+  onSaveQuestionSet,
+  onDeleteQuestionSet
 }) => {
   const [viewMode, setViewMode] = useState<ViewMode>('select');
-  const [isPasswordVerified, setIsPasswordVerified] = useState(false);
   const [selectedRoom, setSelectedRoom] = useState<RoomInfo | null>(null);
 
   // 참가자 상태
   const [name, setName] = useState('');
-  const [selectedTeam, setSelectedTeam] = useState('팀 1');
+  const [selectedTeam, setSelectedTeam] = useState('');
 
   // 관리자 상태
-  const [password, setPassword] = useState('');
+  const [adminSecret, setAdminSecret] = useState('');
+  const [adminSecretConfirm, setAdminSecretConfirm] = useState('');
+  const [pendingAction, setPendingAction] = useState<PendingRoomAction | null>(null);
+  const [roomPassword, setRoomPassword] = useState('');
+  const [roomPasswordConfirm, setRoomPasswordConfirm] = useState('');
+  const [setupSecret, setSetupSecret] = useState('');
   const [roomName, setRoomName] = useState('');
   const [adminTeamCount, setAdminTeamCount] = useState(4);
   const [duration, setDuration] = useState(10);
-  const [questions, setQuestions] = useState(INITIAL_QUESTIONS.join('\n\n'));
+  const [heroOfflineGrace, setHeroOfflineGrace] = useState(DEFAULT_HERO_OFFLINE_GRACE_SECONDS);
+  const [teamAssignment, setTeamAssignment] = useState<TeamAssignmentMode>('self');
+  const [questionChoiceCount, setQuestionChoiceCount] = useState(QUESTION_CHOICE_COUNT);
+  const [heroRerolls, setHeroRerolls] = useState(0);
+  const [balanceCategories, setBalanceCategories] = useState(true);
+  const [randomSeed, setRandomSeed] = useState('');
+  const [scoring, setScoring] = useState<ScoringPolicy>(DEFAULT_SCORING_POLICY);
+  const [lockFirstAnswer, setLockFirstAnswer] = useState(false);
+  const [answerWindowSeconds, setAnswerWindowSeconds] = useState(0);
+  const [answerTimeoutAction, setAnswerTimeoutAction] = useState<AnswerTimeoutAction>('reveal');
+  const [questions, setQuestions] = useState<QuestionItem[]>(INITIAL_QUESTION_ITEMS);
 
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  const ADMIN_PASSWORD = '6749467';
+  const openAdminView = () => {
+    setViewMode('admin');
+    setError('');
+    onRefreshRooms();
+  };
 
-  const handlePasswordCheck = (e: React.FormEvent) => {
+  // 방별 관리자 비밀번호 입력창 열기/닫기
+  const openRoomAction = (roomId: string, action: PendingRoomAction['action']) => {
+    setPendingAction({ roomId, action });
+    setRoomPassword('');
+    setRoomPasswordConfirm('');
+    setSetupSecret('');
+    setError('');
+  };
+
+  const closeRoomAction = () => {
+    setPendingAction(null);
+    setRoomPassword('');
+    setRoomPasswordConfirm('');
+    setSetupSecret('');
+  };
+
+  // 소유자 없는 예전 방 등록 - 설정 비밀번호와 새 관리자 비밀번호를 받고 한 번 더 확인
+  const handleLegacyClaimSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === ADMIN_PASSWORD) {
-      setIsPasswordVerified(true);
-      setError('');
-      onRefreshRooms();
-    } else {
-      setError('비밀번호가 올바르지 않습니다.');
+    if (!pendingAction) return;
+    setError('');
+
+    if (!setupSecret) {
+      setError('설정 비밀번호를 입력해주세요.');
+      return;
+    }
+    if (roomPassword.length < MIN_ADMIN_SECRET_LENGTH) {
+      setError(`새 방 관리자 비밀번호는 ${MIN_ADMIN_SECRET_LENGTH}자 이상이어야 합니다.`);
+      return;
+    }
+    if (roomPassword !== roomPasswordConfirm) {
+      setError('새 방 관리자 비밀번호가 일치하지 않습니다.');
+      return;
+    }
+    if (!window.confirm('이 기기를 이 방의 소유자로 등록합니다. 계속하시겠습니까?')) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (!(await onClaimLegacyRoom(pendingAction.roomId, setupSecret, roomPassword))) {
+        setError('설정 비밀번호가 올바르지 않거나 이미 소유자가 등록된 방입니다.');
+        return;
+      }
+      closeRoomAction();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRoomActionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingAction) return;
+    setError('');
+
+    if (!roomPassword) {
+      setError('방 관리자 비밀번호를 입력해주세요.');
+      return;
+    }
+
+    if (pendingAction.action === 'delete' && !window.confirm('정말로 이 방을 삭제하시겠습니까?')) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const ok = pendingAction.action === 'join'
+        ? await onAdminJoinRoom(pendingAction.roomId, roomPassword)
+        : await onDeleteRoom(pendingAction.roomId, roomPassword);
+      if (!ok) {
+        setError('방 관리자 비밀번호가 올바르지 않습니다.');
+        return;
+      }
+      closeRoomAction();
+      if (pendingAction.action === 'delete') {
+        onRefreshRooms();
+      }
+    } finally {
+      setIsLoading(false);
     }
   };
 
+  const isRoomTeamFull = (room: RoomInfo, team: RoomInfo['teams'][number]) =>
+    !!team.maxSize && (room.teamSizes[team.id] || 0) >= team.maxSize;
+
   const handleRoomSelect = (room: RoomInfo) => {
     setSelectedRoom(room);
-    setSelectedTeam('팀 1');
+    // 정원이 남은 첫 번째 팀을 기본 선택
+    setSelectedTeam(room.teams.find(t => !isRoomTeamFull(room, t))?.id || '');
     setViewMode('participant-join');
   };
 
@@ -74,6 +200,20 @@ const WelcomeView: React.FC<Props> = ({
       return;
     }
 
+    // 자동 배정 방은 팀을 고르지 않음 (입장할 때 배정)
+    if (selectedRoom.teamAssignment === 'self') {
+      const team = selectedRoom.teams.find(t => t.id === selectedTeam);
+      if (!team) {
+        setError('팀을 선택해주세요.');
+        return;
+      }
+
+      if (isRoomTeamFull(selectedRoom, team)) {
+        setError(`${team.name} 정원이 가득 찼습니다.`);
+        return;
+      }
+    }
+
     setIsLoading(true);
     try {
       await onParticipantLogin(selectedRoom.id, name, selectedTeam);
@@ -93,14 +233,45 @@ const WelcomeView: React.FC<Props> = ({
       return;
     }
 
+    if (adminSecret.length < MIN_ADMIN_SECRET_LENGTH) {
+      setError(`방 관리자 비밀번호는 ${MIN_ADMIN_SECRET_LENGTH}자 이상이어야 합니다.`);
+      return;
+    }
+
+    if (adminSecret !== adminSecretConfirm) {
+      setError('방 관리자 비밀번호가 일치하지 않습니다.');
+      return;
+    }
+
+    const roomQuestions = questions.filter(q => q.text.trim() !== '').map(q => ({ ...q, text: q.text.trim() }));
+    if (roomQuestions.length === 0) {
+      setError('최소 1개 이상의 질문이 필요합니다.');
+      return;
+    }
+
+    const teamCount = Math.min(MAX_TEAM_COUNT, Math.max(MIN_TEAM_COUNT, adminTeamCount));
+
     setIsLoading(true);
     try {
       await onAdminLogin({
         roomName,
-        teamCount: adminTeamCount,
+        teamCount,
+        teams: createDefaultTeams(teamCount),
         durationMinutes: duration,
-        questions: questions.split(/\n\n+/).map(q => q.trim()).filter(q => q !== '')
-      });
+        heroOfflineGraceSeconds: heroOfflineGrace,
+        teamAssignment,
+        questionChoiceCount: Math.min(MAX_QUESTION_CHOICES, Math.max(MIN_QUESTION_CHOICES, questionChoiceCount)),
+        heroRerolls: Math.min(MAX_HERO_REROLLS, Math.max(0, heroRerolls)),
+        balanceCategories,
+        scoring,
+        lockFirstAnswer,
+        ...(answerWindowSeconds > 0 ? {
+          answerWindowSeconds: Math.min(MAX_ANSWER_WINDOW_SECONDS, Math.max(MIN_ANSWER_WINDOW_SECONDS, answerWindowSeconds)),
+          answerTimeoutAction
+        } : {}),
+        ...(randomSeed.trim() ? { randomSeed: randomSeed.trim() } : {}),
+        ...toRoomQuestions(roomQuestions)
+      }, adminSecret);
     } catch (err) {
       console.error('Room creation error:', err);
       setError('방 생성에 실패했습니다. 다시 시도해주세요.');
@@ -108,14 +279,6 @@ const WelcomeView: React.FC<Props> = ({
     }
   };
 
-  const handleDeleteRoom = async (roomId: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (window.confirm('정말로 이 방을 삭제하시겠습니까?')) {
-      await onDeleteRoom(roomId);
-      onRefreshRooms();
-    }
-  };
-
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
     return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`;
@@ -180,7 +343,7 @@ const WelcomeView: React.FC<Props> = ({
 
         {/* 관리자 버튼 */}
         <button
-          onClick={() => setViewMode('admin')}
+          onClick={openAdminView}
           className="w-full py-3 brutal-button brutal-button-secondary text-sm uppercase"
         >
           관리자
@@ -206,23 +369,38 @@ const WelcomeView: React.FC<Props> = ({
         </div>
 
         <form onSubmit={handleParticipantSubmit} className="space-y-6">
-          <div>
-            <label className="block text-sm font-black text-black mb-2 uppercase">팀 선택</label>
-            <div className="grid grid-cols-2 gap-2">
-              {Array.from({ length: selectedRoom.teamCount }, (_, i) => (
-                <button
-                  key={i + 1}
-                  type="button"
-                  onClick={() => setSelectedTeam(`팀 ${i + 1}`)}
-                  className={`py-4 brutal-button font-black text-lg ${
-                    selectedTeam === `팀 ${i + 1}` ? 'brutal-button-primary' : ''
-                  }`}
-                >
-                  팀 {i + 1}
-                </button>
-              ))}
+          {selectedRoom.teamAssignment !== 'self' ? (
+            <div className="brutal-inset p-4 bg-indigo-50 text-center">
+              <p className="font-black">팀은 입장할 때 자동으로 배정됩니다</p>
             </div>
-          </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">팀 선택</label>
+              <div className="grid grid-cols-2 gap-2">
+                {selectedRoom.teams.map(team => {
+                  const size = selectedRoom.teamSizes[team.id] || 0;
+                  const isFull = isRoomTeamFull(selectedRoom, team);
+                  return (
+                    <button
+                      key={team.id}
+                      type="button"
+                      onClick={() => setSelectedTeam(team.id)}
+                      disabled={isFull}
+                      className={`py-4 brutal-button font-black text-lg ${
+                        isFull ? 'bg-slate-200 text-slate-400 cursor-not-allowed' : selectedTeam === team.id ? 'brutal-button-primary' : ''
+                      }`}
+                    >
+                      <span className="inline-block w-3 h-3 mr-2 border-2 border-black" style={{ backgroundColor: team.color }} />
+                      {team.name}
+                      <span className="block text-xs font-bold opacity-70">
+                        {team.maxSize ? `${size}/${team.maxSize}명` : `${size}명`}{isFull && ' · 마감'}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
 
           <div>
             <label className="block text-sm font-black text-black mb-2 uppercase">내 이름</label>
@@ -256,60 +434,15 @@ const WelcomeView: React.FC<Props> = ({
     );
   }
 
-  // 관리자 화면 - 비밀번호 먼저 확인
-  if (viewMode === 'admin' && !isPasswordVerified) {
-    return (
-      <div className="brutal-card w-full max-w-md p-10">
-        <button
-          onClick={() => setViewMode('select')}
-          className="mb-6 brutal-button px-4 py-2 text-sm"
-        >
-          ← 뒤로
-        </button>
-
-        <div className="text-center mb-8">
-          <h1 className="text-3xl font-black text-black uppercase tracking-tighter">관리자</h1>
-        </div>
-
-        <form onSubmit={handlePasswordCheck} className="space-y-6">
-          <div>
-            <label className="block text-sm font-black text-black mb-2 uppercase">관리자 비밀번호</label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="비밀번호 입력"
-              className="w-full brutal-input font-black text-xl text-center"
-              autoFocus
-            />
-          </div>
-
-          {error && (
-            <div className="bg-rose-500 text-white p-3 border-2 border-black font-bold text-sm">
-              {error}
-            </div>
-          )}
-
-          <button
-            type="submit"
-            className="w-full py-5 brutal-button brutal-button-primary text-xl uppercase"
-          >
-            확인
-          </button>
-        </form>
-      </div>
-    );
-  }
-
-  // 관리자 화면 - 비밀번호 확인 후 방 목록 및 관리
-  if (viewMode === 'admin' && isPasswordVerified) {
+  // 관리자 화면 - 방 목록 및 관리 (방마다 관리자 비밀번호 확인)
+  if (viewMode === 'admin') {
     return (
       <div className="brutal-card w-full max-w-lg p-10 max-h-[90vh] overflow-y-auto">
         <button
           onClick={() => {
             setViewMode('select');
-            setIsPasswordVerified(false);
-            setPassword('');
+            closeRoomAction();
+            setError('');
           }}
           className="mb-6 brutal-button px-4 py-2 text-sm"
         >
@@ -322,7 +455,10 @@ const WelcomeView: React.FC<Props> = ({
 
         {/* 새 방 만들기 버튼 */}
         <button
-          onClick={() => setViewMode('admin-create')}
+          onClick={() => {
+            setViewMode('admin-create');
+            setError('');
+          }}
           className="w-full py-5 brutal-button brutal-button-success text-xl uppercase mb-6"
         >
           + 새 방 만들기
@@ -367,20 +503,115 @@ const WelcomeView: React.FC<Props> = ({
                     </div>
                   </div>
 
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => onAdminJoinRoom(room.id)}
-                      className="flex-1 py-3 brutal-button brutal-button-primary font-bold"
-                    >
-                      입장
-                    </button>
+                  {room.isLegacy && (
+                    <p className="mb-3 p-2 bg-amber-100 border-2 border-black text-xs font-bold">
+                      소유자가 없는 예전 방입니다. 운영자에게 받은 설정 비밀번호로 관리자 등록 후 관리할 수 있습니다.
+                    </p>
+                  )}
+
+                  {pendingAction?.roomId === room.id && pendingAction.action === 'claim' ? (
+                    <form onSubmit={handleLegacyClaimSubmit} className="space-y-2">
+                      <input
+                        type="password"
+                        value={setupSecret}
+                        onChange={(e) => setSetupSecret(e.target.value)}
+                        placeholder="설정 비밀번호"
+                        className="w-full brutal-input font-black text-center"
+                        autoFocus
+                      />
+                      <input
+                        type="password"
+                        value={roomPassword}
+                        onChange={(e) => setRoomPassword(e.target.value)}
+                        placeholder="새 방 관리자 비밀번호"
+                        className="w-full brutal-input font-black text-center"
+                      />
+                      <input
+                        type="password"
+                        value={roomPasswordConfirm}
+                        onChange={(e) => setRoomPasswordConfirm(e.target.value)}
+                        placeholder="새 방 관리자 비밀번호 확인"
+                        className="w-full brutal-input font-black text-center"
+                      />
+                      {error && (
+                        <div className="bg-rose-500 text-white p-2 border-2 border-black font-bold text-xs">
+                          {error}
+                        </div>
+                      )}
+                      <div className="flex gap-2">
+                        <button
+                          type="submit"
+                          disabled={isLoading}
+                          className="flex-1 py-3 brutal-button brutal-button-primary font-bold"
+                        >
+                          등록 후 입장
+                        </button>
+                        <button
+                          type="button"
+                          onClick={closeRoomAction}
+                          className="py-3 px-4 brutal-button font-bold"
+                        >
+                          취소
+                        </button>
+                      </div>
+                    </form>
+                  ) : pendingAction?.roomId === room.id ? (
+                    <form onSubmit={handleRoomActionSubmit} className="space-y-2">
+                      <input
+                        type="password"
+                        value={roomPassword}
+                        onChange={(e) => setRoomPassword(e.target.value)}
+                        placeholder="방 관리자 비밀번호"
+                        className="w-full brutal-input font-black text-center"
+                        autoFocus
+                      />
+                      {error && (
+                        <div className="bg-rose-500 text-white p-2 border-2 border-black font-bold text-xs">
+                          {error}
+                        </div>
+                      )}
+                      <div className="flex gap-2">
+                        <button
+                          type="submit"
+                          disabled={isLoading}
+                          className={`flex-1 py-3 brutal-button font-bold ${
+                            pendingAction.action === 'join' ? 'brutal-button-primary' : 'bg-rose-500 text-white'
+                          }`}
+                        >
+                          {pendingAction.action === 'join' ? '입장' : '삭제'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={closeRoomAction}
+                          className="py-3 px-4 brutal-button font-bold"
+                        >
+                          취소
+                        </button>
+                      </div>
+                    </form>
+                  ) : room.isLegacy ? (
                     <button
-                      onClick={(e) => handleDeleteRoom(room.id, e)}
-                      className="py-3 px-4 brutal-button bg-rose-500 text-white font-bold"
+                      onClick={() => openRoomAction(room.id, 'claim')}
+                      className="w-full py-3 brutal-button brutal-button-primary font-bold"
                     >
-                      삭제
+                      관리자 등록
                     </button>
-                  </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => openRoomAction(room.id, 'join')}
+                        className="flex-1 py-3 brutal-button brutal-button-primary font-bold"
+                      >
+                        입장
+                      </button>
+                      <button
+                        onClick={() => openRoomAction(room.id, 'delete')}
+                        className="py-3 px-4 brutal-button bg-rose-500 text-white font-bold"
+                      >
+                        삭제
+                      </button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -423,10 +654,23 @@ const WelcomeView: React.FC<Props> = ({
                 type="number"
                 value={adminTeamCount}
                 onChange={(e) => setAdminTeamCount(parseInt(e.target.value) || 4)}
-                min={2}
-                max={10}
+                min={MIN_TEAM_COUNT}
+                max={MAX_TEAM_COUNT}
                 className="w-full brutal-input font-black"
               />
+              <p className="text-xs text-gray-500 mt-1">* 팀 이름, 색상, 정원은 방을 만든 뒤 '팀 수정'에서 바꿀 수 있습니다</p>
+            </div>
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">팀 배정</label>
+              <select
+                value={teamAssignment}
+                onChange={(e) => setTeamAssignment(e.target.value as TeamAssignmentMode)}
+                className="w-full brutal-input font-black"
+              >
+                <option value="self">참가자가 직접 선택</option>
+                <option value="round-robin">입장 순서대로 배정</option>
+                <option value="smallest">인원 적은 팀에 배정</option>
+              </select>
             </div>
             <div>
               <label className="block text-sm font-black text-black mb-2 uppercase">게임 시간 (분)</label>
@@ -439,22 +683,131 @@ const WelcomeView: React.FC<Props> = ({
                 className="w-full brutal-input font-black"
               />
             </div>
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">주인공 자동 교체 (초)</label>
+              <input
+                type="number"
+                value={heroOfflineGrace}
+                onChange={(e) => setHeroOfflineGrace(parseInt(e.target.value) || DEFAULT_HERO_OFFLINE_GRACE_SECONDS)}
+                min={10}
+                max={300}
+                className="w-full brutal-input font-black"
+              />
+              <p className="text-xs text-gray-500 mt-1">* 주인공 연결이 끊긴 뒤 이 시간이 지나면 다음 사람으로 넘어갑니다</p>
+            </div>
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">질문 선택지 수</label>
+              <input
+                type="number"
+                value={questionChoiceCount}
+                onChange={(e) => setQuestionChoiceCount(parseInt(e.target.value) || QUESTION_CHOICE_COUNT)}
+                min={MIN_QUESTION_CHOICES}
+                max={MAX_QUESTION_CHOICES}
+                className="w-full brutal-input font-black"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">주인공당 질문 교체</label>
+              <input
+                type="number"
+                value={heroRerolls}
+                onChange={(e) => setHeroRerolls(parseInt(e.target.value) || 0)}
+                min={0}
+                max={MAX_HERO_REROLLS}
+                className="w-full brutal-input font-black"
+              />
+              <p className="text-xs text-gray-500 mt-1">* 주인공이 답을 고르기 전에 선택지를 새로 받을 수 있는 횟수 (0이면 사용 안 함)</p>
+            </div>
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">팀원 답변 제한 시간 (초)</label>
+              <input
+                type="number"
+                value={answerWindowSeconds}
+                onChange={(e) => setAnswerWindowSeconds(parseInt(e.target.value) || 0)}
+                min={0}
+                max={MAX_ANSWER_WINDOW_SECONDS}
+                className="w-full brutal-input font-black"
+              />
+              {answerWindowSeconds > 0 && (
+                <select
+                  value={answerTimeoutAction}
+                  onChange={(e) => setAnswerTimeoutAction(e.target.value as AnswerTimeoutAction)}
+                  className="w-full brutal-input font-black mt-2"
+                >
+                  <option value="reveal">시간이 끝나면 결과 자동 공개</option>
+                  <option value="close">시간이 끝나면 답변만 마감 (안 낸 팀원은 무응답)</option>
+                </select>
+              )}
+              <p className="text-xs text-gray-500 mt-1">* 주인공이 답을 고른 뒤부터 계산합니다 (0이면 제한 없음)</p>
+            </div>
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">랜덤 시드 (선택)</label>
+              <input
+                type="text"
+                value={randomSeed}
+                onChange={(e) => setRandomSeed(e.target.value)}
+                placeholder="비워두면 매번 무작위"
+                className="w-full brutal-input font-black"
+              />
+              <p className="text-xs text-gray-500 mt-1">* 같은 시드로 만든 방은 같은 순서로 주인공과 질문이 정해집니다 (테스트용)</p>
+            </div>
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">방 관리자 비밀번호</label>
+              <input
+                type="password"
+                value={adminSecret}
+                onChange={(e) => setAdminSecret(e.target.value)}
+                placeholder={`${MIN_ADMIN_SECRET_LENGTH}자 이상`}
+                className="w-full brutal-input font-black"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-black text-black mb-2 uppercase">비밀번호 확인</label>
+              <input
+                type="password"
+                value={adminSecretConfirm}
+                onChange={(e) => setAdminSecretConfirm(e.target.value)}
+                placeholder="한 번 더 입력"
+                className="w-full brutal-input font-black"
+              />
+              <p className="text-xs text-gray-500 mt-1">* 다른 기기에서 이 방을 관리하거나 삭제할 때 필요합니다</p>
+            </div>
           </div>
 
           <div>
-            <label className="block text-sm font-black text-black mb-2 uppercase">질문 목록 (빈 줄로 문항 구분)</label>
-            <textarea
-              rows={10}
-              value={questions}
-              onChange={(e) => setQuestions(e.target.value)}
-              placeholder="질문 1 내용 (여러 줄 가능)
-
-질문 2 내용 (여러 줄 가능)
+            <label className="block text-sm font-black text-black mb-2 uppercase">점수 규칙</label>
+            <ScoringEditor scoring={scoring} onChange={setScoring} />
+            <label className="flex items-center gap-2 mt-3 text-sm font-bold">
+              <input
+                type="checkbox"
+                checked={lockFirstAnswer}
+                onChange={(e) => setLockFirstAnswer(e.target.checked)}
+                className="w-5 h-5 accent-black"
+              />
+              팀원이 처음 고른 답을 바꿀 수 없게 하기
+            </label>
+          </div>
 
-질문 3 내용..."
-              className="w-full brutal-input text-sm leading-relaxed"
+          <div>
+            <label className="block text-sm font-black text-black mb-2 uppercase">질문 목록</label>
+            <QuestionEditor
+              questions={questions}
+              onChange={setQuestions}
+              sets={questionSets}
+              clientId={libraryClientId}
+              onSaveSet={onSaveQuestionSet}
+              onDeleteSet={onDeleteQuestionSet}
+              exportName={roomName.trim() || '질문'}
             />
-            <p className="text-xs text-gray-500 mt-1">* 긴 질문은 여러 줄 작성 가능, 문항 사이에 빈 줄(엔터 두 번)로 구분</p>
+            <label className="flex items-center gap-2 mt-3 text-sm font-bold">
+              <input
+                type="checkbox"
+                checked={balanceCategories}
+                onChange={(e) => setBalanceCategories(e.target.checked)}
+                className="w-5 h-5 accent-black"
+              />
+              주인공에게 보여줄 질문을 서로 다른 카테고리에서 고르기
+            </label>
           </div>
 
           {error && (
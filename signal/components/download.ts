@@ -0,0 +1,13 @@
+
+const DOWNLOAD_REVOKE_DELAY_MS = 1000;
+
+// 브라우저에서 만든 내용을 파일로 내려받기
+export const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // 바로 해제하면 일부 브라우저에서 내려받기가 시작되기 전에 취소됨
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_DELAY_MS);
+};
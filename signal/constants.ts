@@ -1,78 +1,82 @@
+import { QuestionItem } from './types';
 
-export const INITIAL_QUESTIONS = [
-  "나는 아침형 인간보다 저녁형 인간에 가깝다.",
-  "나는 잘생긴(예쁜)사람보다 유머감각이 있는 사람이 더 좋다.",
-  "나는 길눈이 어둡다.",
-  "나는 스릴넘치는 놀이기구 타는 것을 좋아한다.",
-  "나는 SNS에 사진 올리는 것을 좋아한다.",
-  "나는 '워라밸'이 '연봉'보다 더 중요하다.",
-  "나는 일할(공부할)때 조용한 것보다 적당한 소음(카페 등)이 있는 곳을 선호한다.",
-  "나는 하루에 커피를 1잔 이상 꼭 마신다.",
-  "나는 얼어 죽어도 아이스 아메리카노를 마신다.",
-  "나는 요리 하는 것을 좋아한다.",
-  "나는 공포영화를 잘 보는 편이다.",
-  "나는 주말에도 평일과 비슷한 시간에 일어난다.",
-  "나는 연예인 팬카페 회원이다.",
-  "나는 연예인과 사진을 찍은 적이 있다.",
-  "나는 오늘 아침에 거울 보면서 ‘괜찮네’라고 생각했다",
-  "나는 민트초코를 좋아한다.",
-  "나는 ‘고수’를 못 먹는다.",
-  "나는 '오이'를 싫어한다.",
-  "나는 약속시간에 늦는 걸 정말 싫어한다.",
-  "나는 탕수육 '찍먹'을 선호한다.",
-  "나는 한 달에 1권 이상 책을 읽는다.",
-  "나는 처음 보는 사람과도 금방 친해질 수 있다.",
-  "나는 단체 모임보다 1:1 만남을 더 편하게 느낀다.",
-  "나는 휴대폰 배터리가 50% 이하로 떨어지면 불안감을 느낀다.",
-  "나는 카톡(연락) 답장이 빠른 편이다.",
-  "나는 새로운 기계를 다루는 것(얼리어답터)을 좋아한다.",
-  "나는 여행을 가면 계획을 꼼꼼하게 짜는 편이다.",
-  "나의 여행스타일은 관광보다 휴양이다.",
-  "나는 혼자 여행을 가본 적이 있다.",
-  "나는 여행을 가면 좋은 숙소보다 맛있는 음식이 더 중요하다.",
-  "나는 매운 음식을 잘 먹고 즐기는 편이다.",
-  "나는 아침 식사를 거의 매일 챙겨 먹는다.",
-  "나는 밥보다 빵을 더 좋아한다.",
-  "나는 국밥보다 라면이 더 좋다.",
-  "나는 노래방에서 노래 부르는 것을 좋아한다.",
-  "나는 영화관에서 혼자 영화를 보는 것이 아무렇지 않다.",
-  "나는 복권(로또 등)을 정기적으로 구매한다.",
-  "나는 로또 1등이 되면 아무에게도 말하지 않을 것이다.",
-  "나는 다시 태어난다면 지금과 다른 성별로 태어나고 싶다.",
-  "나는 넷플릭스(OTT) 시리즈를 한 번에 몰아보는(정주행)것을 좋아한다.",
-  "나는 옷을 살 때 디자인보다 편안함을 더 중요하게 생각한다.",
-  "나는 다시 태어나도 지금의 나로 태어나고 싶다.",
-  "나는 맛집이라면 1시간 웨이팅은 감수할 수 있다.",
-  "나는 김치찌개보다 된장찌개를 더 좋아한다.",
-  "나는 누군가에게(친구 등) 먼저 연락하는 편이다.",
-  "나는 미래로 갈 수 있다면 무조건 갈 것이다.",
-  "내가 언제 죽는지 알 수 있다면 알고 싶다.",
-  "나는 물건을 잘 버리지 못한다.",
-  "영원히 살 수 있는 약이 있다면 먹을 것이다.",
-  "나는 외계인이 있다고 믿는다.",
-  "나는 노후에 도시보다 시골에서 살고 싶다.",
-  "나는 말하는 것보다 듣는 걸 더 잘한다고 생각한다.",
-  "나는 꾸준히 하는 운동이 있다.",
-  "나는 아침에 알람을 한 번에 끄고 일어나는 편이다.",
-  "나는 잠들기 전에 꼭 핸드폰을 본다.",
-  "나는 밥 먹을 때 유튜브 등 스트리밍 없이 밥 먹는 것을 상상할 수 없다.",
-  "나는 칭찬만 하는 동료보다 솔직하게 피드백하는 동료가 더 좋다.",
-  "나는 성격 좋은 동료보다 일 잘하는 동료가 더 좋다.",
-  "나는 도서관처럼 조용한 팀보다 웃고 떠들며 활기 있는 팀을 선호한다.",
-  "나는 의논을 많이 하는 상사보다 결정을 빨리 내려주는 상사가 더 좋다.",
-  "나는 잔소리 많은 상사보다 방임하는 상사가 더 힘들다.",
-  "나는 야근을 하더라도 일을 깔끔하게 끝내는게 좋다.",
-  "나는 지금보다 업무 강도가 2배가 되어도 연봉이 2배면 그걸 선택한다.",
-  "나는 스트레스를 받을 때 음식을 먹는 것보다 잠을 선택한다.",
-  "나는 집이나 내방 꾸미기를 좋아한다.",
-  "나는 충동구매를 자주 하는 편이다.",
-  "나는 중고 거래를 자주 이용한다.",
-  "나는 친한 사람에게는 표현을 잘 하는 편이다.",
-  "나는 부탁을 잘 거절하지 못한다.",
-  "나는 잠이 많은 편이다.",
-  "나는 누군가에게 서운하면 말하는 편이다.",
-  "복권 당첨보다 초능력 하나를 선택할 수 있다면 초능력을 선택한다.",
-  "투명인간이 될 수 있다면 하루쯤 되고 싶다.",
-  "나는 지우고 싶은 과거 흑역사가 있다.",
-  "나는 사랑보다 우정을 선택한다."
+// 기본 질문 (카테고리별로 골라 쓸 수 있도록 분류)
+export const INITIAL_QUESTION_ITEMS: QuestionItem[] = [
+  { text: "나는 아침형 인간보다 저녁형 인간에 가깝다.", category: "일상" },
+  { text: "나는 잘생긴(예쁜)사람보다 유머감각이 있는 사람이 더 좋다.", category: "가치관" },
+  { text: "나는 길눈이 어둡다.", category: "일상" },
+  { text: "나는 스릴넘치는 놀이기구 타는 것을 좋아한다.", category: "일상" },
+  { text: "나는 SNS에 사진 올리는 것을 좋아한다.", category: "일상" },
+  { text: "나는 '워라밸'이 '연봉'보다 더 중요하다.", category: "직장" },
+  { text: "나는 일할(공부할)때 조용한 것보다 적당한 소음(카페 등)이 있는 곳을 선호한다.", category: "직장" },
+  { text: "나는 하루에 커피를 1잔 이상 꼭 마신다.", category: "음식" },
+  { text: "나는 얼어 죽어도 아이스 아메리카노를 마신다.", category: "음식" },
+  { text: "나는 요리 하는 것을 좋아한다.", category: "음식" },
+  { text: "나는 공포영화를 잘 보는 편이다.", category: "일상" },
+  { text: "나는 주말에도 평일과 비슷한 시간에 일어난다.", category: "일상" },
+  { text: "나는 연예인 팬카페 회원이다.", category: "일상" },
+  { text: "나는 연예인과 사진을 찍은 적이 있다.", category: "일상" },
+  { text: "나는 오늘 아침에 거울 보면서 ‘괜찮네’라고 생각했다", category: "일상" },
+  { text: "나는 민트초코를 좋아한다.", category: "음식" },
+  { text: "나는 ‘고수’를 못 먹는다.", category: "음식" },
+  { text: "나는 '오이'를 싫어한다.", category: "음식" },
+  { text: "나는 약속시간에 늦는 걸 정말 싫어한다.", category: "가치관" },
+  { text: "나는 탕수육 '찍먹'을 선호한다.", category: "음식" },
+  { text: "나는 한 달에 1권 이상 책을 읽는다.", category: "일상" },
+  { text: "나는 처음 보는 사람과도 금방 친해질 수 있다.", category: "가치관" },
+  { text: "나는 단체 모임보다 1:1 만남을 더 편하게 느낀다.", category: "가치관" },
+  { text: "나는 휴대폰 배터리가 50% 이하로 떨어지면 불안감을 느낀다.", category: "일상" },
+  { text: "나는 카톡(연락) 답장이 빠른 편이다.", category: "일상" },
+  { text: "나는 새로운 기계를 다루는 것(얼리어답터)을 좋아한다.", category: "일상" },
+  { text: "나는 여행을 가면 계획을 꼼꼼하게 짜는 편이다.", category: "일상" },
+  { text: "나의 여행스타일은 관광보다 휴양이다.", category: "일상" },
+  { text: "나는 혼자 여행을 가본 적이 있다.", category: "일상" },
+  { text: "나는 여행을 가면 좋은 숙소보다 맛있는 음식이 더 중요하다.", category: "음식" },
+  { text: "나는 매운 음식을 잘 먹고 즐기는 편이다.", category: "음식" },
+  { text: "나는 아침 식사를 거의 매일 챙겨 먹는다.", category: "음식" },
+  { text: "나는 밥보다 빵을 더 좋아한다.", category: "음식" },
+  { text: "나는 국밥보다 라면이 더 좋다.", category: "음식" },
+  { text: "나는 노래방에서 노래 부르는 것을 좋아한다.", category: "일상" },
+  { text: "나는 영화관에서 혼자 영화를 보는 것이 아무렇지 않다.", category: "일상" },
+  { text: "나는 복권(로또 등)을 정기적으로 구매한다.", category: "일상" },
+  { text: "나는 로또 1등이 되면 아무에게도 말하지 않을 것이다.", category: "가치관" },
+  { text: "나는 다시 태어난다면 지금과 다른 성별로 태어나고 싶다.", category: "가치관" },
+  { text: "나는 넷플릭스(OTT) 시리즈를 한 번에 몰아보는(정주행)것을 좋아한다.", category: "일상" },
+  { text: "나는 옷을 살 때 디자인보다 편안함을 더 중요하게 생각한다.", category: "가치관" },
+  { text: "나는 다시 태어나도 지금의 나로 태어나고 싶다.", category: "가치관" },
+  { text: "나는 맛집이라면 1시간 웨이팅은 감수할 수 있다.", category: "음식" },
+  { text: "나는 김치찌개보다 된장찌개를 더 좋아한다.", category: "음식" },
+  { text: "나는 누군가에게(친구 등) 먼저 연락하는 편이다.", category: "일상" },
+  { text: "나는 미래로 갈 수 있다면 무조건 갈 것이다.", category: "가치관" },
+  { text: "내가 언제 죽는지 알 수 있다면 알고 싶다.", category: "가치관" },
+  { text: "나는 물건을 잘 버리지 못한다.", category: "일상" },
+  { text: "영원히 살 수 있는 약이 있다면 먹을 것이다.", category: "가치관" },
+  { text: "나는 외계인이 있다고 믿는다.", category: "가치관" },
+  { text: "나는 노후에 도시보다 시골에서 살고 싶다.", category: "가치관" },
+  { text: "나는 말하는 것보다 듣는 걸 더 잘한다고 생각한다.", category: "가치관" },
+  { text: "나는 꾸준히 하는 운동이 있다.", category: "일상" },
+  { text: "나는 아침에 알람을 한 번에 끄고 일어나는 편이다.", category: "일상" },
+  { text: "나는 잠들기 전에 꼭 핸드폰을 본다.", category: "일상" },
+  { text: "나는 밥 먹을 때 유튜브 등 스트리밍 없이 밥 먹는 것을 상상할 수 없다.", category: "일상" },
+  { text: "나는 칭찬만 하는 동료보다 솔직하게 피드백하는 동료가 더 좋다.", category: "직장" },
+  { text: "나는 성격 좋은 동료보다 일 잘하는 동료가 더 좋다.", category: "직장" },
+  { text: "나는 도서관처럼 조용한 팀보다 웃고 떠들며 활기 있는 팀을 선호한다.", category: "직장" },
+  { text: "나는 의논을 많이 하는 상사보다 결정을 빨리 내려주는 상사가 더 좋다.", category: "직장" },
+  { text: "나는 잔소리 많은 상사보다 방임하는 상사가 더 힘들다.", category: "직장" },
+  { text: "나는 야근을 하더라도 일을 깔끔하게 끝내는게 좋다.", category: "직장" },
+  { text: "나는 지금보다 업무 강도가 2배가 되어도 연봉이 2배면 그걸 선택한다.", category: "직장" },
+  { text: "나는 스트레스를 받을 때 음식을 먹는 것보다 잠을 선택한다.", category: "일상" },
+  { text: "나는 집이나 내방 꾸미기를 좋아한다.", category: "일상" },
+  { text: "나는 충동구매를 자주 하는 편이다.", category: "일상" },
+  { text: "나는 중고 거래를 자주 이용한다.", category: "일상" },
+  { text: "나는 친한 사람에게는 표현을 잘 하는 편이다.", category: "가치관" },
+  { text: "나는 부탁을 잘 거절하지 못한다.", category: "가치관" },
+  { text: "나는 잠이 많은 편이다.", category: "일상" },
+  { text: "나는 누군가에게 서운하면 말하는 편이다.", category: "가치관" },
+  { text: "복권 당첨보다 초능력 하나를 선택할 수 있다면 초능력을 선택한다.", category: "가치관" },
+  { text: "투명인간이 될 수 있다면 하루쯤 되고 싶다.", category: "가치관" },
+  { text: "나는 지우고 싶은 과거 흑역사가 있다.", category: "일상" },
+  { text: "나는 사랑보다 우정을 선택한다.", category: "가치관" }
 ];
+
+export const INITIAL_QUESTIONS = INITIAL_QUESTION_ITEMS.map(q => q.text);
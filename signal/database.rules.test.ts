@@ -0,0 +1,273 @@
+
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+
+// 데이터베이스 에뮬레이터 위에서 보안 규칙 확인 - `npm run test:rules`로 실행 (에뮬레이터가 없으면 건너뜀)
+const EMULATOR_HOST = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+
+const ROOM = 'rooms/r1';
+
+// 소유자 owner, 방 관리자 admin, 팀 t1에 주인공 hero와 팀원 alice/bob, 팀 t2에 carol이 있고 1라운드 결과 공개 전
+const seedRoom = () => ({
+  ownerId: 'owner',
+  admins: { admin: true },
+  createdAt: 1,
+  config: { roomName: '테스트 방', teamCount: 1, durationMinutes: 10, questions: ['질문 1', '질문 2'] },
+  participants: {
+    p_hero: { id: 'p_hero', uid: 'hero', name: '주인공', team: 't1', role: 'TRAINEE', score: 0 },
+    p_alice: { id: 'p_alice', uid: 'alice', name: '앨리스', team: 't1', role: 'TRAINEE', score: 0 },
+    p_bob: { id: 'p_bob', uid: 'bob', name: '밥', team: 't1', role: 'TRAINEE', score: 0 },
+    p_carol: { id: 'p_carol', uid: 'carol', name: '캐럴', team: 't2', role: 'TRAINEE', score: 0 }
+  },
+  gameState: {
+    isStarted: true,
+    currentHeroId: { t1: 'p_hero' },
+    heroAnswer: { t1: 'O' },
+    memberAnswers: { t1: { p_alice: 'O', p_bob: 'X' } },
+    individualScores: { p_hero: 0, p_alice: 0, p_bob: 0 },
+    roundCount: { t1: 1 },
+    resultRevealed: { t1: false }
+  }
+});
+
+// alice만 맞힌 1라운드 결과 공개 (코디네이터가 보내는 다중 경로 업데이트와 같은 형태)
+const revealUpdates = () => ({
+  'gameState/resultRevealed/t1': true,
+  'gameState/scoredRound/t1': 1,
+  'gameState/roundAwards/t1': {
+    p_alice: { correct: 100, speed: 0, unanimity: 0, signal: 0, total: 100 }
+  },
+  'gameState/individualScores/p_alice': 100
+});
+
+// t1 팀 2라운드로 넘기며 alice를 주인공으로 (엔진의 ADVANCE_ROUND 업데이트와 같은 형태)
+const advanceUpdates = (advancedBy: string) => ({
+  'gameState/roundCount/t1': 2,
+  'gameState/roundAdvancedBy/t1': advancedBy,
+  'gameState/currentHeroId/t1': 'p_alice',
+  'gameState/heroAnswer/t1': null,
+  'gameState/memberAnswers/t1': null,
+  'gameState/resultRevealed/t1': false,
+  'gameState/heroHistory/t1': ['p_hero', 'p_alice']
+});
+
+describe.skipIf(!EMULATOR_HOST)('database.rules.json', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const db = (uid: string) => testEnv.authenticatedContext(uid).database();
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-yja-signal',
+      database: { rules: readFileSync('database.rules.json', 'utf8') }
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearDatabase();
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.database().ref(ROOM).set(seedRoom());
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  describe('memberAnswers', () => {
+    it('본인 답만 바꿀 수 있음', async () => {
+      await assertSucceeds(db('alice').ref(`${ROOM}/gameState/memberAnswers/t1/p_alice`).set('X'));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/memberAnswers/t1/p_bob`).set('O'));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/memberAnswers/t1/p_bob`).remove());
+    });
+
+    it('결과 공개 뒤에는 본인 답도 바꿀 수 없음', async () => {
+      await assertSucceeds(db('alice').ref(ROOM).update(revealUpdates()));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/memberAnswers/t1/p_alice`).set('X'));
+    });
+
+    it('답변 제한 시간은 일시정지된 시간만큼 늦춰짐', async () => {
+      // 10초 제한, 주인공은 1분 전에 답을 골랐고 그 5초 뒤부터 50초 동안 멈춤
+      const now = Date.now();
+      const setTiming = (timing: object) => testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(ROOM).set(seedRoom());
+        await context.database().ref(`${ROOM}/config/answerWindowSeconds`).set(10);
+        await context.database().ref(`${ROOM}/gameState`).update({ 'heroAnsweredAt/t1': now - 60_000, ...timing });
+      });
+
+      await setTiming({});
+      await assertFails(db('alice').ref(`${ROOM}/gameState/memberAnswers/t1/p_alice`).set('X'));
+
+      await setTiming({ pausedAt: now - 55_000 });
+      await assertSucceeds(db('alice').ref(`${ROOM}/gameState/memberAnswers/t1/p_alice`).set('X'));
+
+      await setTiming({ 'answerPausedMs/t1': 55_000 });
+      await assertSucceeds(db('alice').ref(`${ROOM}/gameState/memberAnswers/t1/p_alice`).set('X'));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/answersClosed/t1`).set(true));
+    });
+  });
+
+  describe('heroAnswer', () => {
+    it('지금 주인공만 답할 수 있음', async () => {
+      await assertSucceeds(db('hero').ref(`${ROOM}/gameState/heroAnswer/t1`).set('X'));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/heroAnswer/t1`).set('X'));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/heroAnswer/t1`).remove());
+    });
+
+    it('결과 공개 뒤에는 주인공도 답을 바꿀 수 없음', async () => {
+      await assertSucceeds(db('alice').ref(ROOM).update(revealUpdates()));
+      await assertFails(db('hero').ref(`${ROOM}/gameState/heroAnswer/t1`).set('X'));
+    });
+  });
+
+  describe('라운드 넘기기', () => {
+    it('방 참가자가 아니면 라운드를 올릴 수 없음', async () => {
+      await assertSucceeds(db('alice').ref(ROOM).update(revealUpdates()));
+      await assertFails(db('mallory').ref(ROOM).update(advanceUpdates('p_alice')));
+      await assertFails(db('mallory').ref(ROOM).update(advanceUpdates('p_mallory')));
+      await assertFails(db('mallory').ref(`${ROOM}/gameState/roundCount/t1`).set(2));
+    });
+
+    it('결과 공개 전에는 팀원도 라운드를 올릴 수 없음', async () => {
+      await assertFails(db('alice').ref(ROOM).update(advanceUpdates('p_alice')));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/roundCount/t1`).set(2));
+    });
+
+    it('다른 팀 참가자는 라운드를 올릴 수 없음', async () => {
+      await assertSucceeds(db('alice').ref(ROOM).update(revealUpdates()));
+      await assertFails(db('carol').ref(ROOM).update(advanceUpdates('p_carol')));
+    });
+
+    it('결과 공개 뒤나 주인공이 떠난 뒤에는 팀원이, 언제든 관리자가 넘길 수 있음', async () => {
+      await assertSucceeds(db('alice').ref(ROOM).update(revealUpdates()));
+      await assertSucceeds(db('bob').ref(ROOM).update(advanceUpdates('p_bob')));
+
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(ROOM).set(seedRoom());
+        await context.database().ref(`${ROOM}/participants/p_hero`).remove();
+      });
+      await assertSucceeds(db('bob').ref(ROOM).update(advanceUpdates('p_bob')));
+
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(ROOM).set(seedRoom());
+      });
+      await assertSucceeds(db('admin').ref(ROOM).update(advanceUpdates('admin_1')));
+    });
+  });
+
+  describe('수정 번호', () => {
+    it('읽은 번호보다 1 큰 값만 쓸 수 있어 먼저 바뀐 상태로 계산한 쓰기는 거부', async () => {
+      await assertSucceeds(db('alice').ref(ROOM).update({ ...revealUpdates(), 'gameState/revision': 1 }));
+      await assertFails(db('bob').ref(ROOM).update({ ...advanceUpdates('p_bob'), 'gameState/revision': 1 }));
+      await assertSucceeds(db('bob').ref(ROOM).update({ ...advanceUpdates('p_bob'), 'gameState/revision': 2 }));
+    });
+  });
+
+  describe('코디네이터 임대', () => {
+    const lease = (holderId: string, uid: string, expiresAt: number, isAdmin = false) => ({ holderId, uid, isAdmin, expiresAt });
+
+    it('방 참가자가 아니면 임대를 가져가거나 지울 수 없음', async () => {
+      await assertFails(db('mallory').ref(`${ROOM}/coordinator`).set(lease('p_alice', 'mallory', Date.now() + 10000)));
+      await assertFails(db('mallory').ref(`${ROOM}/coordinator`).set(lease('p_mallory', 'mallory', Date.now() + 10000)));
+
+      await assertSucceeds(db('alice').ref(`${ROOM}/coordinator`).set(lease('p_alice', 'alice', Date.now() + 10000)));
+      await assertFails(db('mallory').ref(`${ROOM}/coordinator`).remove());
+    });
+
+    it('다른 참가자의 임대는 만료된 뒤에만 넘겨받음', async () => {
+      await assertSucceeds(db('alice').ref(`${ROOM}/coordinator`).set(lease('p_alice', 'alice', Date.now() + 10000)));
+      await assertFails(db('bob').ref(`${ROOM}/coordinator`).set(lease('p_bob', 'bob', Date.now() + 10000)));
+      await assertSucceeds(db('alice').ref(`${ROOM}/coordinator`).set(lease('p_alice', 'alice', Date.now() + 20000)));
+
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(`${ROOM}/coordinator/expiresAt`).set(Date.now() - 1000);
+      });
+      await assertSucceeds(db('bob').ref(`${ROOM}/coordinator`).set(lease('p_bob', 'bob', Date.now() + 10000)));
+    });
+
+    it('임대 기간을 길게 잡을 수 없음', async () => {
+      await assertFails(db('alice').ref(`${ROOM}/coordinator`).set(lease('p_alice', 'alice', Date.now() + 3_600_000)));
+    });
+
+    it('관리자는 참가자의 임대를 넘겨받음', async () => {
+      await assertSucceeds(db('alice').ref(`${ROOM}/coordinator`).set(lease('p_alice', 'alice', Date.now() + 10000)));
+      await assertSucceeds(db('admin').ref(`${ROOM}/coordinator`).set(lease('admin_1', 'admin', Date.now() + 10000, true)));
+      await assertFails(db('alice').ref(`${ROOM}/coordinator`).set(lease('p_alice', 'alice', Date.now() + 10000)));
+    });
+  });
+
+  describe('점수', () => {
+    it('결과 공개 없이는 점수를 바꾸거나 지울 수 없음', async () => {
+      await assertFails(db('alice').ref(`${ROOM}/gameState/individualScores/p_alice`).set(100));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/individualScores/p_bob`).remove());
+      await assertFails(db('alice').ref(`${ROOM}/gameState/individualScores`).remove());
+    });
+
+    it('결과 공개와 함께 상과 같은 만큼만 오름', async () => {
+      const updates = revealUpdates();
+      await assertFails(db('alice').ref(ROOM).update({ ...updates, 'gameState/individualScores/p_alice': 500 }));
+      await assertFails(db('alice').ref(ROOM).update({
+        ...updates,
+        'gameState/roundAwards/t1': { p_bob: { correct: 100, speed: 0, unanimity: 0, signal: 0, total: 100 } },
+        'gameState/individualScores/p_bob': 100
+      }));
+      await assertSucceeds(db('alice').ref(ROOM).update(updates));
+    });
+
+    it('이미 공개한 라운드로 다시 점수를 올리거나 공개를 되돌릴 수 없음', async () => {
+      await assertSucceeds(db('alice').ref(ROOM).update(revealUpdates()));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/individualScores/p_alice`).set(200));
+      await assertFails(db('alice').ref(`${ROOM}/gameState/resultRevealed/t1`).set(false));
+    });
+
+    it('주인공이 답하기 전에는 결과를 공개할 수 없음', async () => {
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(`${ROOM}/gameState/heroAnswer/t1`).remove();
+      });
+      await assertFails(db('alice').ref(`${ROOM}/gameState/resultRevealed/t1`).set(true));
+      await assertFails(db('alice').ref(ROOM).update(revealUpdates()));
+    });
+
+    it('답을 내지 않은 팀원은 정답 점수를 받을 수 없음', async () => {
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(`${ROOM}/gameState/memberAnswers/t1/p_alice`).remove();
+      });
+      await assertFails(db('alice').ref(ROOM).update(revealUpdates()));
+      await assertSucceeds(db('alice').ref(ROOM).update({
+        'gameState/resultRevealed/t1': true,
+        'gameState/scoredRound/t1': 1
+      }));
+    });
+
+    it('점수 삭제는 관리자만', async () => {
+      await assertSucceeds(db('admin').ref(`${ROOM}/gameState/individualScores`).remove());
+    });
+  });
+
+  describe('설정과 방 삭제', () => {
+    it('관리자와 소유자만 설정을 바꿀 수 있음', async () => {
+      await assertFails(db('alice').ref(`${ROOM}/config/roomName`).set('바뀐 방'));
+      await assertSucceeds(db('admin').ref(`${ROOM}/config/roomName`).set('바뀐 방'));
+      await assertSucceeds(db('owner').ref(`${ROOM}/config/durationMinutes`).set(20));
+    });
+
+    it('관리자와 소유자만 방을 지울 수 있음', async () => {
+      await assertFails(db('alice').ref(ROOM).remove());
+      await assertSucceeds(db('owner').ref(ROOM).remove());
+    });
+
+    it('소유자가 없는 예전 방은 설정 비밀번호 없이 소유할 수 없음', async () => {
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(`${ROOM}/ownerId`).remove();
+        await context.database().ref('setupSecret/hash').set('setup-hash');
+      });
+
+      await assertFails(db('alice').ref(`${ROOM}/ownerId`).set('alice'));
+      await assertSucceeds(db('alice').ref('legacyClaims/r1/alice').set('wrong-hash'));
+      await assertFails(db('alice').ref(`${ROOM}/ownerId`).set('alice'));
+      await assertSucceeds(db('alice').ref('legacyClaims/r1/alice').set('setup-hash'));
+      await assertSucceeds(db('alice').ref(`${ROOM}/ownerId`).set('alice'));
+    });
+  });
+});
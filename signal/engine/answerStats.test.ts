@@ -0,0 +1,76 @@
+
+import { describe, expect, it } from 'vitest';
+import { GameState, User, UserRole } from '../types';
+import { accumulateAnswerStats, buildAnswerStats, findFastestCorrect, formatResponseMs, getResponseMs } from './answerStats';
+import { createInitialGameState } from './state';
+
+const HERO_AT = 1_000_000;
+
+// 주인공 h가 O를 고른 뒤 a는 2초 만에 O, b는 5초 만에 X (한 번 바꿈), c는 답하지 않음
+const answeredState = (overrides: Partial<GameState> = {}): GameState => ({
+  ...createInitialGameState(),
+  currentHeroId: { team_1: 'h' },
+  heroAnswer: { team_1: 'O' },
+  heroAnsweredAt: { team_1: HERO_AT },
+  memberAnswers: { team_1: { a: 'O', b: 'X', c: null } },
+  memberAnsweredAt: { team_1: { a: HERO_AT + 2000, b: HERO_AT + 5000 } },
+  memberAnswerChanges: { team_1: { b: 1 } },
+  ...overrides
+});
+
+const user = (id: string): User => ({ id, name: `이름 ${id}`, team: 'team_1', role: UserRole.TRAINEE, score: 0 });
+
+describe('getResponseMs', () => {
+  it('주인공이 고른 시각부터 팀원의 마지막 답까지', () => {
+    expect(getResponseMs(answeredState(), 'team_1', 'a')).toBe(2000);
+    expect(getResponseMs(answeredState(), 'team_1', 'c')).toBeNull();
+  });
+});
+
+describe('accumulateAnswerStats', () => {
+  it('답을 낸 팀원만 첫 기록을 만듦 (주인공 제외)', () => {
+    expect(accumulateAnswerStats(answeredState(), 'team_1', 'h')).toEqual({
+      a: { answered: 1, correct: 1, totalResponseMs: 2000, fastestCorrectMs: 2000, changes: 0 },
+      b: { answered: 1, correct: 0, totalResponseMs: 5000, fastestCorrectMs: null, changes: 1 }
+    });
+  });
+
+  it('이전 기록에 더하고 가장 빨리 맞힌 기록은 더 빠를 때만 바꿈', () => {
+    const state = answeredState({
+      answerStats: {
+        a: { answered: 3, correct: 2, totalResponseMs: 9000, fastestCorrectMs: 1500, changes: 2 },
+        b: { answered: 1, correct: 1, totalResponseMs: 8000, fastestCorrectMs: 8000, changes: 0 }
+      },
+      memberAnswers: { team_1: { a: 'O', b: 'O' } }
+    });
+    const stats = accumulateAnswerStats(state, 'team_1', 'h');
+
+    expect(stats.a).toEqual({ answered: 4, correct: 3, totalResponseMs: 11_000, fastestCorrectMs: 1500, changes: 2 });
+    expect(stats.b).toEqual({ answered: 2, correct: 2, totalResponseMs: 13_000, fastestCorrectMs: 5000, changes: 1 });
+  });
+});
+
+describe('buildAnswerStats', () => {
+  it('가장 빨리 맞힌 순서로, 맞힌 적 없으면 뒤로', () => {
+    const state = answeredState({
+      answerStats: {
+        a: { answered: 2, correct: 1, totalResponseMs: 5000, fastestCorrectMs: 3000, changes: 0 },
+        b: { answered: 2, correct: 2, totalResponseMs: 3000, fastestCorrectMs: 1000, changes: 1 }
+      }
+    });
+    const entries = buildAnswerStats(state, [user('c'), user('a'), user('b')]);
+
+    expect(entries.map(e => e.user.id)).toEqual(['b', 'a', 'c']);
+    expect(entries[1]).toMatchObject({ answered: 2, correct: 1, averageResponseMs: 2500, changes: 0 });
+    expect(entries[2]).toMatchObject({ answered: 0, averageResponseMs: null, fastestCorrectMs: null });
+    expect(findFastestCorrect(entries)?.user.id).toBe('b');
+    expect(findFastestCorrect(entries.slice(2))).toBeNull();
+  });
+});
+
+describe('formatResponseMs', () => {
+  it('초 단위 한 자리로 표시', () => {
+    expect(formatResponseMs(2430)).toBe('2.4초');
+    expect(formatResponseMs(null)).toBe('-');
+  });
+});
@@ -0,0 +1,71 @@
+
+import { AnswerStats, GameState, User } from '../types';
+
+// 게임 종료 화면용 개인 답변 통계 한 줄
+export interface AnswerStatsEntry {
+  user: User;
+  answered: number;
+  correct: number;
+  averageResponseMs: number | null;
+  fastestCorrectMs: number | null;
+  changes: number;
+}
+
+const emptyStats = (): AnswerStats => ({ answered: 0, correct: 0, totalResponseMs: 0, fastestCorrectMs: null, changes: 0 });
+
+// 주인공이 답을 고른 뒤 팀원이 (마지막으로) 답을 낼 때까지 걸린 시간
+export const getResponseMs = (state: GameState, team: string, userId: string): number | null => {
+  const heroAnsweredAt = state.heroAnsweredAt[team];
+  const answeredAt = state.memberAnsweredAt[team]?.[userId];
+  if (!heroAnsweredAt || !answeredAt) return null;
+  return Math.max(0, answeredAt - heroAnsweredAt);
+};
+
+// 결과 공개 시 이번 라운드에 답을 낸 팀원의 누적 기록 갱신 (userId -> 새 기록)
+export const accumulateAnswerStats = (state: GameState, team: string, heroId: string | undefined): Record<string, AnswerStats> => {
+  const heroAnswer = state.heroAnswer[team];
+  const updated: Record<string, AnswerStats> = {};
+
+  Object.entries(state.memberAnswers[team] || {}).forEach(([userId, answer]) => {
+    if (!answer || userId === heroId) return;
+
+    const stats = { ...emptyStats(), ...state.answerStats[userId] };
+    const responseMs = getResponseMs(state, team, userId) ?? 0;
+    const isCorrect = answer === heroAnswer;
+
+    stats.answered += 1;
+    stats.totalResponseMs += responseMs;
+    stats.changes += state.memberAnswerChanges[team]?.[userId] || 0;
+    if (isCorrect) {
+      stats.correct += 1;
+      stats.fastestCorrectMs = stats.fastestCorrectMs === null ? responseMs : Math.min(stats.fastestCorrectMs, responseMs);
+    }
+    updated[userId] = stats;
+  });
+
+  return updated;
+};
+
+// 참가자별 통계 - 가장 빨리 맞힌 기록 순 (맞힌 적 없으면 뒤로)
+export const buildAnswerStats = (state: GameState, participants: User[]): AnswerStatsEntry[] =>
+  participants
+    .map(user => {
+      const stats = { ...emptyStats(), ...state.answerStats[user.id] };
+      return {
+        user,
+        answered: stats.answered,
+        correct: stats.correct,
+        averageResponseMs: stats.answered > 0 ? Math.round(stats.totalResponseMs / stats.answered) : null,
+        fastestCorrectMs: stats.fastestCorrectMs,
+        changes: stats.changes
+      };
+    })
+    .sort((a, b) => (a.fastestCorrectMs ?? Infinity) - (b.fastestCorrectMs ?? Infinity));
+
+// 가장 빨리 맞힌 사람 (아무도 못 맞혔으면 null)
+export const findFastestCorrect = (entries: AnswerStatsEntry[]): AnswerStatsEntry | null =>
+  entries.find(entry => entry.fastestCorrectMs !== null) || null;
+
+// 응답 시간 표시 (예: 2.4초)
+export const formatResponseMs = (ms: number | null): string =>
+  ms === null ? '-' : `${(ms / 1000).toFixed(1)}초`;
@@ -0,0 +1,51 @@
+
+import { describe, expect, it } from 'vitest';
+import { COORDINATOR_LEASE_MS, claimCoordinatorLease, holdsCoordinatorLease } from './coordinator';
+
+const NOW = 1_000_000;
+
+describe('claimCoordinatorLease', () => {
+  it('비어 있으면 임대 기간만큼 가져감', () => {
+    expect(claimCoordinatorLease(null, 'p_a', 'uid_a', false, NOW)).toEqual({
+      holderId: 'p_a', uid: 'uid_a', isAdmin: false, expiresAt: NOW + COORDINATOR_LEASE_MS
+    });
+  });
+
+  it('내가 가진 임대는 갱신', () => {
+    const lease = claimCoordinatorLease(null, 'p_a', 'uid_a', false, NOW)!;
+    expect(claimCoordinatorLease(lease, 'p_a', 'uid_a', false, NOW + 3000)?.expiresAt).toBe(NOW + 3000 + COORDINATOR_LEASE_MS);
+  });
+
+  it('다른 기기의 임대는 만료된 뒤에만 넘겨받음', () => {
+    const lease = claimCoordinatorLease(null, 'p_a', 'uid_a', false, NOW)!;
+    const expiresAt = NOW + COORDINATOR_LEASE_MS;
+
+    expect(claimCoordinatorLease(lease, 'p_b', 'uid_b', false, expiresAt - 1)).toBeUndefined();
+    expect(claimCoordinatorLease(lease, 'p_b', 'uid_b', false, expiresAt)?.holderId).toBe('p_b');
+  });
+
+  it('같은 참가자 ID라도 다른 기기면 내 임대가 아님', () => {
+    const lease = claimCoordinatorLease(null, 'p_a', 'uid_a', false, NOW)!;
+    expect(claimCoordinatorLease(lease, 'p_a', 'uid_other', false, NOW + 1000)).toBeUndefined();
+  });
+
+  it('관리자는 참가자의 임대를 바로 넘겨받지만 다른 관리자의 임대는 기다림', () => {
+    const trainee = claimCoordinatorLease(null, 'p_a', 'uid_a', false, NOW)!;
+    const admin = claimCoordinatorLease(trainee, 'admin_1', 'uid_admin', true, NOW + 1000)!;
+    expect(admin).toMatchObject({ holderId: 'admin_1', isAdmin: true });
+
+    expect(claimCoordinatorLease(admin, 'admin_2', 'uid_admin_2', true, NOW + 2000)).toBeUndefined();
+    expect(claimCoordinatorLease(admin, 'p_a', 'uid_a', false, NOW + 2000)).toBeUndefined();
+  });
+});
+
+describe('holdsCoordinatorLease', () => {
+  it('내 임대이고 만료 전일 때만', () => {
+    const lease = claimCoordinatorLease(null, 'p_a', 'uid_a', false, NOW)!;
+
+    expect(holdsCoordinatorLease(lease, 'p_a', NOW + COORDINATOR_LEASE_MS - 1)).toBe(true);
+    expect(holdsCoordinatorLease(lease, 'p_a', NOW + COORDINATOR_LEASE_MS)).toBe(false);
+    expect(holdsCoordinatorLease(lease, 'p_b', NOW)).toBe(false);
+    expect(holdsCoordinatorLease(null, 'p_a', NOW)).toBe(false);
+  });
+});
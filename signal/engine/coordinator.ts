@@ -0,0 +1,28 @@
+
+import { CoordinatorLease } from '../types';
+
+// 코디네이터 임대 기간 - 이 시간 안에 갱신하지 않으면 다른 기기가 넘겨받음
+export const COORDINATOR_LEASE_MS = 10000;
+
+// 임대 갱신 간격 (임대 기간보다 충분히 짧게)
+export const COORDINATOR_RENEW_MS = 3000;
+
+// 임대 요청 - 비어 있거나 만료됐거나 내가 가진 임대면 갱신, 관리자는 참가자의 임대를 넘겨받음
+// 넘겨받을 수 없으면 undefined (트랜잭션 중단)
+export const claimCoordinatorLease = (
+  current: CoordinatorLease | null,
+  holderId: string,
+  uid: string,
+  isAdmin: boolean,
+  now: number
+): CoordinatorLease | undefined => {
+  const canClaim = !current
+    || current.expiresAt <= now
+    || (current.holderId === holderId && current.uid === uid)
+    || (isAdmin && !current.isAdmin);
+  if (!canClaim) return undefined;
+  return { holderId, uid, isAdmin, expiresAt: now + COORDINATOR_LEASE_MS };
+};
+
+export const holdsCoordinatorLease = (lease: CoordinatorLease | null, holderId: string, now: number): boolean =>
+  !!lease && lease.holderId === holderId && lease.expiresAt > now;
@@ -0,0 +1,32 @@
+
+import { User } from '../types';
+import { Rng, defaultRng, pickRandom } from './random';
+
+// 한 사람이 주인공을 맡는 기본 횟수 (모두 채우면 다시 가장 적게 한 사람부터)
+export const MAX_HERO_TURNS = 3;
+
+// 팀원별 주인공 횟수
+export const countHeroTurns = (members: User[], heroHistory: string[]): Record<string, number> => {
+  const heroCountMap: Record<string, number> = {};
+  members.forEach(m => {
+    heroCountMap[m.id] = heroHistory.filter(id => id === m.id).length;
+  });
+  return heroCountMap;
+};
+
+// 다음 주인공 선택 - 3회 미만인 사람 중 가장 적게 한 사람, 모두 3회면 전체에서 가장 적게 한 사람
+export const pickNextHero = (
+  members: User[],
+  heroHistory: string[],
+  rng: Rng = defaultRng
+): User | undefined => {
+  if (members.length === 0) return undefined;
+
+  const heroCountMap = countHeroTurns(members, heroHistory);
+  const eligibleMembers = members.filter(m => heroCountMap[m.id] < MAX_HERO_TURNS);
+  const pool = eligibleMembers.length > 0 ? eligibleMembers : members;
+
+  const minCount = Math.min(...pool.map(m => heroCountMap[m.id]));
+  const candidates = pool.filter(m => heroCountMap[m.id] === minCount);
+  return pickRandom(candidates, rng);
+};
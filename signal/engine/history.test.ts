@@ -0,0 +1,53 @@
+
+import { describe, expect, it } from 'vitest';
+import { GameState, RoomConfig, User, UserRole } from '../types';
+import { findUnloggedRounds } from './history';
+import { createInitialGameState } from './state';
+
+const config: RoomConfig = { roomName: '테스트 방', teamCount: 2, durationMinutes: 10, questions: ['질문 1', '질문 2'] };
+
+const participants: User[] = [
+  { id: 'h', name: '주인공', team: 't1', role: UserRole.TRAINEE, score: 0 },
+  { id: 'a', name: '팀원', team: 't1', role: UserRole.TRAINEE, score: 0 }
+];
+
+// t1 팀이 2라운드(번호 1) 결과를 공개한 상태
+const revealedState = (): GameState => ({
+  ...createInitialGameState(),
+  currentHeroId: { t1: 'h' },
+  heroAnswer: { t1: 'O' },
+  questionHistory: { t1: [1, 0] },
+  currentQuestionIndex: { t1: 0 },
+  memberAnswers: { t1: { a: 'O' } },
+  roundAwards: { t1: { a: { correct: 100, speed: 0, unanimity: 0, signal: 0, total: 100 } } },
+  roundCount: { t1: 1 },
+  resultRevealed: { t1: true, t2: false },
+  resultRevealedAt: { t1: 5000 },
+  scoredRound: { t1: 1 }
+});
+
+describe('findUnloggedRounds', () => {
+  it('공개했지만 rounds에 없는 라운드를 공개 때와 같은 기록으로', () => {
+    expect(findUnloggedRounds(revealedState(), config, participants, {})).toEqual([{
+      round: 1,
+      team: 't1',
+      heroId: 'h',
+      question: '질문 2',
+      questionIndex: 1,
+      offeredQuestions: ['질문 2', '질문 1'],
+      heroAnswer: 'O',
+      memberAnswers: { a: 'O' },
+      awards: { a: { correct: 100, speed: 0, unanimity: 0, signal: 0, total: 100 } },
+      names: { h: '주인공', a: '팀원' },
+      revealedAt: 5000
+    }]);
+  });
+
+  it('이미 기록됐거나 다음 라운드로 넘어간 팀은 제외', () => {
+    const [record] = findUnloggedRounds(revealedState(), config, participants, {});
+    expect(findUnloggedRounds(revealedState(), config, participants, { t1: { 1: record } })).toEqual([]);
+
+    const advanced = { ...revealedState(), roundCount: { t1: 2 } };
+    expect(findUnloggedRounds(advanced, config, participants, {})).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+
+import { GameState, PointAward, RoomConfig, RoundLog, RoundRecord, SessionArchive, User } from '../types';
+import { asRecord, asTime, isRecord } from './state';
+
+const questionText = (config: RoomConfig, index: number): string => config.questions[index] ?? '';
+
+// 결과 공개 시점의 팀 라운드 기록 (주인공이나 답이 없으면 null)
+export const createRoundRecord = (
+  state: GameState,
+  config: RoomConfig,
+  participants: User[],
+  team: string,
+  round: number,
+  awards: Record<string, PointAward>,
+  now: number
+): RoundRecord | null => {
+  const heroId = state.currentHeroId[team];
+  const heroAnswer = state.heroAnswer[team];
+  if (!heroId || !heroAnswer) return null;
+
+  const offered = state.questionHistory[team] || [];
+  const chosen = offered[state.currentQuestionIndex[team] || 0];
+  const memberAnswers: Record<string, 'O' | 'X'> = {};
+  Object.entries(state.memberAnswers[team] || {}).forEach(([userId, answer]) => {
+    if (answer && userId !== heroId) memberAnswers[userId] = answer;
+  });
+
+  const names: Record<string, string> = {};
+  [heroId, ...Object.keys(memberAnswers), ...Object.keys(awards)].forEach(userId => {
+    const user = participants.find(p => p.id === userId);
+    if (user) names[userId] = user.name;
+  });
+
+  return {
+    round,
+    team,
+    heroId,
+    question: typeof chosen === 'number' ? questionText(config, chosen) : '',
+    questionIndex: typeof chosen === 'number' ? chosen : null,
+    offeredQuestions: offered.map(index => questionText(config, index)),
+    heroAnswer,
+    memberAnswers,
+    awards,
+    names,
+    revealedAt: now
+  };
+};
+
+// 결과를 공개했지만 rounds에 아직 없는 팀 라운드 기록 (공개와 따로 쓰다 실패한 기록을 다시 쓰기용)
+// 공개된 라운드의 점수 내역과 공개 시각이 gameState에 남아 있는 동안은 공개 때와 같은 기록을 만듦
+export const findUnloggedRounds = (
+  state: GameState,
+  config: RoomConfig,
+  participants: User[],
+  rounds: RoundLog
+): RoundRecord[] =>
+  Object.keys(state.resultRevealed)
+    .filter(team => state.resultRevealed[team] && state.scoredRound[team] === (state.roundCount[team] || 0))
+    .filter(team => !rounds[team]?.[state.scoredRound[team]])
+    .map(team => createRoundRecord(
+      state,
+      config,
+      participants,
+      team,
+      state.scoredRound[team],
+      state.roundAwards[team] || {},
+      state.resultRevealedAt[team] ?? 0
+    ))
+    .filter((record): record is RoundRecord => record !== null);
+
+// 라운드 번호(0, 1, 2...)를 키로 쓰는 맵 - Firebase가 배열로 돌려주는 경우도 맵으로
+const asIndexedRecord = (value: unknown): Record<string, unknown> => {
+  if (!Array.isArray(value)) return asRecord(value);
+  const record: Record<string, unknown> = {};
+  value.forEach((item, index) => {
+    if (item !== null && item !== undefined) record[index] = item;
+  });
+  return record;
+};
+
+const asAnswer = (value: unknown): 'O' | 'X' | null => (value === 'O' || value === 'X' ? value : null);
+
+const asStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// 라운드 기록 한 개 - 주인공이나 답이 없으면 버림 (빈 맵은 Firebase가 저장하지 않으므로 기본값)
+const parseRoundRecord = (raw: unknown, team: string): RoundRecord | null => {
+  if (!isRecord(raw) || typeof raw.heroId !== 'string') return null;
+  const heroAnswer = asAnswer(raw.heroAnswer);
+  if (!heroAnswer) return null;
+  return {
+    round: Number(raw.round) || 0,
+    team,
+    heroId: raw.heroId,
+    question: typeof raw.question === 'string' ? raw.question : '',
+    questionIndex: typeof raw.questionIndex === 'number' ? raw.questionIndex : null,
+    offeredQuestions: asStrings(raw.offeredQuestions),
+    heroAnswer,
+    memberAnswers: asRecord(raw.memberAnswers),
+    awards: asRecord(raw.awards),
+    names: asRecord(raw.names),
+    revealedAt: asTime(raw.revealedAt) ?? 0
+  };
+};
+
+// 저장된 rounds 노드 읽기 - 형식이 맞지 않는 기록은 버림
+export const parseRoundLog = (raw: unknown): RoundLog => {
+  const log: RoundLog = {};
+  Object.entries(asRecord(raw)).forEach(([team, rounds]) => {
+    const records: Record<string, RoundRecord> = {};
+    Object.entries(asIndexedRecord(rounds)).forEach(([round, value]) => {
+      const record = parseRoundRecord(value, team);
+      if (record) records[round] = record;
+    });
+    if (Object.keys(records).length > 0) log[team] = records;
+  });
+  return log;
+};
+
+// 예전(스키마 1) gameState/roundHistory 기록을 rounds 형태로 - 질문 인덱스를 지금 설정의 문구로 바꿈
+export const convertRoundHistory = (raw: unknown, config: RoomConfig, participants: Record<string, User>): RoundLog => {
+  const log: RoundLog = {};
+  Object.entries(asRecord(raw)).forEach(([team, rounds]) => {
+    const records: Record<string, RoundRecord> = {};
+    Object.entries(asIndexedRecord(rounds)).forEach(([round, value]) => {
+      if (!isRecord(value)) return;
+      const offered = Array.isArray(value.offeredQuestions)
+        ? value.offeredQuestions.filter((index: unknown): index is number => typeof index === 'number')
+        : [];
+      const record = parseRoundRecord({
+        ...value,
+        question: typeof value.questionIndex === 'number' ? questionText(config, value.questionIndex) : '',
+        offeredQuestions: offered.map(index => questionText(config, index))
+      }, team);
+      if (!record) return;
+
+      const userIds = [record.heroId, ...Object.keys(record.memberAnswers), ...Object.keys(record.awards)];
+      userIds.forEach(userId => {
+        const user = Object.values(participants).find(p => p.id === userId);
+        if (user) record.names[userId] = user.name;
+      });
+      records[round] = record;
+    });
+    if (Object.keys(records).length > 0) log[team] = records;
+  });
+  return log;
+};
+
+// 세션 ID - 게임 시작 시각으로 만들어 같은 게임은 여러 번 보관해도 한 곳에 저장됨
+export const getSessionId = (state: GameState): string | null =>
+  state.startTime ? `session_${state.startTime}` : null;
+
+// 다시 보기의 한 단계 - scores는 이 라운드까지 이번 게임에서 얻은 누적 점수
+export interface ReplayRound {
+  record: RoundRecord;
+  scores: Record<string, number>;
+}
+
+// 모든 팀의 라운드를 결과 공개 순서로
+export const listRounds = (rounds: RoundLog): RoundRecord[] =>
+  Object.values(rounds)
+    .flatMap(records => Object.values(records))
+    .sort((a, b) => a.revealedAt - b.revealedAt || a.round - b.round);
+
+export const buildReplay = (rounds: RoundLog): ReplayRound[] => {
+  const scores: Record<string, number> = {};
+  return listRounds(rounds).map(record => {
+    Object.entries(record.awards).forEach(([userId, award]) => {
+      scores[userId] = (scores[userId] || 0) + award.total;
+    });
+    return { record, scores: { ...scores } };
+  });
+};
+
+// 보관된 세션 목록 - 최근 것부터
+export const sortSessions = (sessions: SessionArchive[]): SessionArchive[] =>
+  [...sessions].sort((a, b) => b.archivedAt - a.archivedAt);
+
+// 기록된 라운드 수 (모든 팀 합계)
+export const countRecordedRounds = (rounds: RoundLog): number =>
+  Object.values(rounds).reduce((sum, records) => sum + Object.keys(records).length, 0);
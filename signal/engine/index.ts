@@ -0,0 +1,134 @@
+
+// 게임 규칙 엔진 - React / 저장소와 무관한 순수 함수 모음
+export { reduceGame, getActionRng, findTeamsWithMissingHero, findHeroReplacerId } from './reducer';
+export {
+  getScoringPolicy,
+  scoreRound,
+  describeAward,
+  DEFAULT_SCORING_POLICY,
+  POINTS_PER_CORRECT,
+  MAX_AWARD_POINTS,
+  MAX_ROUND_POINTS
+} from './scoring';
+export type { GameAction, EngineResult, RoundAdvanceReason } from './reducer';
+export { getResponseMs, accumulateAnswerStats, buildAnswerStats, findFastestCorrect, formatResponseMs } from './answerStats';
+export type { AnswerStatsEntry } from './answerStats';
+export { createInitialGameState, toGameState, applyGameUpdates, getTeamMembers } from './state';
+export {
+  parseRoom,
+  parseRoomConfig,
+  parseParticipants,
+  migrateRoom,
+  needsMigration,
+  getSchemaVersion,
+  getMigrationUpdates,
+  serializeGameState,
+  serializeRoom,
+  createRoomRecord,
+  getResetRoomUpdates,
+  ROOM_SCHEMA_VERSION
+} from './schema';
+export { summarizeReset, getReplayUpdates, getResetUpdates, createSessionArchive, parseSessionArchive } from './session';
+export type { ResetSummary } from './session';
+export {
+  createRoundRecord,
+  findUnloggedRounds,
+  parseRoundLog,
+  convertRoundHistory,
+  getSessionId,
+  listRounds,
+  buildReplay,
+  sortSessions,
+  countRecordedRounds
+} from './history';
+export type { ReplayRound } from './history';
+export { pickNextHero, countHeroTurns, MAX_HERO_TURNS } from './heroes';
+export {
+  drawQuestions,
+  drawTeamQuestions,
+  getQuestionChoiceCount,
+  getHeroRerollLimit,
+  getQuestionChoices,
+  QUESTION_CHOICE_COUNT,
+  MIN_QUESTION_CHOICES,
+  MAX_QUESTION_CHOICES,
+  MAX_HERO_REROLLS
+} from './questions';
+export type { QuestionDraw } from './questions';
+export {
+  getQuestionItems,
+  toRoomQuestions,
+  parseQuestionText,
+  parseTags,
+  filterQuestionItems,
+  mergeQuestionItems,
+  collectCategories,
+  collectTags,
+  countByCategory,
+  QUESTION_CATEGORIES,
+  DEFAULT_QUESTION_CATEGORY
+} from './questionBank';
+export { detectQuestionFormat, parseQuestions, exportQuestions, planQuestionImport, QUESTION_FORMAT_EXTENSIONS } from './questionFormats';
+export {
+  rankParticipants,
+  rankTeams,
+  buildParticipantSheet,
+  buildTeamSheet,
+  buildRoundSheet,
+  buildReportSheets,
+  sheetToCsv,
+  buildSummaryHtml
+} from './reports';
+export type { ReportSource, ParticipantRank, TeamRank } from './reports';
+export { createXlsx } from './xlsx';
+export type { Sheet } from './xlsx';
+export type { QuestionFormat, QuestionParseResult, QuestionImportPlan } from './questionFormats';
+export {
+  getDeadline,
+  getRemainingMs,
+  isPastDeadline,
+  shouldAutoFinish,
+  getAnswerWindowMs,
+  getAnswerTimeoutAction,
+  getAnswerDeadline,
+  getAnswerRemainingMs,
+  isAnswerWindowOver,
+  findTeamsWithExpiredAnswers,
+  REVEAL_COUNTDOWN_MS,
+  FINISH_GRACE_MS,
+  MIN_ANSWER_WINDOW_SECONDS,
+  MAX_ANSWER_WINDOW_SECONDS
+} from './timer';
+export {
+  getPresenceState,
+  getHeroOfflineGraceMs,
+  findUnavailableIds,
+  countMemberAnswers,
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_STALE_MS,
+  DEFAULT_HERO_OFFLINE_GRACE_SECONDS
+} from './presence';
+export {
+  getTeams,
+  getTeamIds,
+  findTeam,
+  getTeamName,
+  countTeamMembers,
+  isTeamFull,
+  createTeam,
+  createDefaultTeams,
+  validateTeams,
+  getTeamAssignmentMode,
+  pickTeamForJoin,
+  shuffleTeamAssignments,
+  rebalanceTeamAssignments,
+  findUnassignedParticipants,
+  assignOrphans,
+  UNASSIGNED_TEAM_ID,
+  TEAM_COLORS,
+  MIN_TEAM_COUNT,
+  MAX_TEAM_COUNT
+} from './teams';
+export { claimCoordinatorLease, holdsCoordinatorLease, COORDINATOR_LEASE_MS, COORDINATOR_RENEW_MS } from './coordinator';
+export { defaultRng, createSeededRng, pickRandom, shuffle } from './random';
+export type { Rng } from './random';
@@ -0,0 +1,53 @@
+
+import { GameState, Presence, PresenceState, RoomConfig, User } from '../types';
+
+// 접속 중인 기기가 lastSeen을 갱신하는 간격
+export const PRESENCE_HEARTBEAT_MS = 15000;
+
+// 하트비트가 이만큼 끊기면 onDisconnect가 오지 않았어도 오프라인으로 간주
+export const PRESENCE_STALE_MS = PRESENCE_HEARTBEAT_MS * 3;
+
+// 주인공 오프라인 유예 시간 기본값 (초)
+export const DEFAULT_HERO_OFFLINE_GRACE_SECONDS = 30;
+
+// 접속 상태 판정 - 아직 기록이 없으면(입장 직후) 접속 중으로 간주
+export const getPresenceState = (presence: Presence | undefined, now: number): PresenceState => {
+  if (!presence) return 'online';
+  if (presence.state === 'offline' || now - presence.lastSeen > PRESENCE_STALE_MS) return 'offline';
+  return presence.state;
+};
+
+export const getHeroOfflineGraceMs = (config: RoomConfig): number =>
+  (config.heroOfflineGraceSeconds ?? DEFAULT_HERO_OFFLINE_GRACE_SECONDS) * 1000;
+
+// 오프라인이 된 뒤 유예 시간이 지난 참가자 - 주인공을 맡을 수 없음
+export const findUnavailableIds = (
+  participants: User[],
+  presence: Record<string, Presence>,
+  config: RoomConfig,
+  now: number
+): string[] => {
+  const graceMs = getHeroOfflineGraceMs(config);
+  return participants
+    .filter(p => {
+      const record = presence[p.id];
+      return record && getPresenceState(record, now) === 'offline' && now - record.lastSeen >= graceMs;
+    })
+    .map(p => p.id);
+};
+
+// 팀원 답변 현황 - 오프라인 팀원은 기다리지 않음 (주인공 제외)
+export const countMemberAnswers = (
+  state: GameState,
+  team: string,
+  members: User[],
+  presence: Record<string, Presence>,
+  now: number
+): { answered: number; expected: number; allAnswered: boolean } => {
+  const answers = state.memberAnswers[team] || {};
+  const heroId = state.currentHeroId[team];
+  const others = members.filter(m => m.id !== heroId);
+  const answered = others.filter(m => answers[m.id]).length;
+  const expected = others.filter(m => answers[m.id] || getPresenceState(presence[m.id], now) !== 'offline').length;
+  return { answered, expected, allAnswered: expected > 0 && answered >= expected };
+};
@@ -0,0 +1,66 @@
+
+import { QuestionItem, RoomConfig } from '../types';
+
+// 기본 카테고리 (라이브러리에는 직접 만든 카테고리도 저장 가능)
+export const QUESTION_CATEGORIES = ['일상', '음식', '직장', '가치관'];
+
+export const DEFAULT_QUESTION_CATEGORY = QUESTION_CATEGORIES[0];
+
+// 방 설정의 질문을 카테고리/태그와 함께 (questionMeta가 없는 예전 방은 기본 카테고리)
+export const getQuestionItems = (config: RoomConfig): QuestionItem[] =>
+  (config.questions || []).map((text, i) => ({
+    text,
+    category: config.questionMeta?.[i]?.category || DEFAULT_QUESTION_CATEGORY,
+    tags: config.questionMeta?.[i]?.tags || []
+  }));
+
+// 방 설정에 저장할 형태 (questions와 questionMeta는 같은 순서)
+export const toRoomQuestions = (items: QuestionItem[]): Pick<RoomConfig, 'questions' | 'questionMeta'> => ({
+  questions: items.map(q => q.text),
+  questionMeta: items.map(q => ({ category: q.category, tags: q.tags || [] }))
+});
+
+// 빈 줄로 구분된 텍스트를 질문 목록으로
+export const parseQuestionText = (text: string, category: string = DEFAULT_QUESTION_CATEGORY): QuestionItem[] =>
+  text
+    .split(/\n\n+/)
+    .map(q => q.trim())
+    .filter(q => q !== '')
+    .map(q => ({ text: q, category, tags: [] }));
+
+// 쉼표로 구분된 태그 입력 정리
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(t => t.trim().replace(/^#/, '')).filter(t => t !== '')));
+
+// 카테고리 / 태그로 거르기 - 조건이 비어 있으면 거르지 않음, 태그는 하나라도 맞으면 포함
+export const filterQuestionItems = (items: QuestionItem[], categories: string[], tags: string[]): QuestionItem[] =>
+  items.filter(q =>
+    (categories.length === 0 || categories.includes(q.category)) &&
+    (tags.length === 0 || (q.tags || []).some(t => tags.includes(t)))
+  );
+
+// 질문 목록 합치기 - 같은 문장은 먼저 나온 것만 남김
+export const mergeQuestionItems = (...lists: QuestionItem[][]): QuestionItem[] => {
+  const seen = new Set<string>();
+  return lists.flat().filter(q => {
+    if (seen.has(q.text)) return false;
+    seen.add(q.text);
+    return true;
+  });
+};
+
+// 사용 중인 카테고리 (기본 카테고리 먼저)
+export const collectCategories = (items: QuestionItem[]): string[] =>
+  Array.from(new Set([...QUESTION_CATEGORIES, ...items.map(q => q.category)]));
+
+export const collectTags = (items: QuestionItem[]): string[] =>
+  Array.from(new Set(items.flatMap(q => q.tags || []))).sort();
+
+// 카테고리별 질문 수
+export const countByCategory = (items: QuestionItem[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  items.forEach(q => {
+    counts[q.category] = (counts[q.category] || 0) + 1;
+  });
+  return counts;
+};
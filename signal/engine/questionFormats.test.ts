@@ -0,0 +1,121 @@
+
+import { describe, expect, it } from 'vitest';
+import { QuestionItem } from '../types';
+import { DEFAULT_QUESTION_CATEGORY } from './questionBank';
+import {
+  MAX_QUESTION_LENGTH,
+  detectQuestionFormat,
+  escapeCsvCell,
+  exportQuestions,
+  parseQuestions,
+  planQuestionImport
+} from './questionFormats';
+
+const item = (text: string, category = DEFAULT_QUESTION_CATEGORY, tags: string[] = []): QuestionItem => ({ text, category, tags });
+
+describe('detectQuestionFormat', () => {
+  it('확장자로, 모르면 내용으로 판단', () => {
+    expect(detectQuestionFormat('질문.CSV', '')).toBe('csv');
+    expect(detectQuestionFormat('질문.json', '')).toBe('json');
+    expect(detectQuestionFormat('질문.txt', '[1]')).toBe('text');
+    expect(detectQuestionFormat('질문', '  [{"text": "a"}]')).toBe('json');
+    expect(detectQuestionFormat('질문', '첫 질문')).toBe('text');
+  });
+});
+
+describe('parseQuestions', () => {
+  describe('CSV', () => {
+    it('헤더 이름으로 열을 찾고 카테고리 / 태그는 생략 가능', () => {
+      const content = '\uFEFFtags,질문,분류\r\n#팀워크; 소통,함께 일하기 좋은 사람은?,관계\r\n,혼자 쉬는 방법은?,\r\n';
+      expect(parseQuestions(content, 'csv')).toEqual({
+        questions: [
+          item('함께 일하기 좋은 사람은?', '관계', ['팀워크', '소통']),
+          item('혼자 쉬는 방법은?')
+        ],
+        errors: []
+      });
+    });
+
+    it('헤더가 없으면 질문, 카테고리, 태그 순서이고 따옴표 안의 쉼표와 줄바꿈을 유지', () => {
+      const { questions } = parseQuestions('"첫째, 둘째\n셋째",분류,"a;b"\n"""인용"" 질문"', 'csv', '기본');
+      expect(questions).toEqual([item('첫째, 둘째\n셋째', '분류', ['a', 'b']), item('"인용" 질문', '기본')]);
+    });
+
+    it('빈 줄은 건너뛰고 질문이 없거나 너무 긴 줄은 오류로 남김', () => {
+      const content = ['question,category', '질문 1,', ',분류만', '', 'x'.repeat(MAX_QUESTION_LENGTH + 1), '질문 2'].join('\n');
+      const { questions, errors } = parseQuestions(content, 'csv');
+
+      expect(questions.map(q => q.text)).toEqual(['질문 1', '질문 2']);
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toContain('3번째 줄');
+      expect(errors[1]).toContain('5번째 줄');
+    });
+
+    it('내보낸 CSV를 다시 가져오면 같은 질문 (수식 방지 표시 제거)', () => {
+      const original = [item('=SUM(A1)', '관계', ['태그']), item('쉼표, "따옴표"')];
+      expect(parseQuestions(exportQuestions(original, 'csv'), 'csv').questions).toEqual(original);
+    });
+  });
+
+  describe('JSON', () => {
+    it('객체 배열, 문자열 배열, questions 배열을 모두 읽음', () => {
+      const objects = JSON.stringify([{ text: ' 질문 1 ', category: '관계', tags: ['a', 1] }, { question: '질문 2', tags: 'b; #c' }]);
+      expect(parseQuestions(objects, 'json').questions).toEqual([item('질문 1', '관계', ['a']), item('질문 2', DEFAULT_QUESTION_CATEGORY, ['b', 'c'])]);
+      expect(parseQuestions('["질문 1"]', 'json').questions).toEqual([item('질문 1')]);
+      expect(parseQuestions('{"questions": ["질문 1"]}', 'json').questions).toEqual([item('질문 1')]);
+    });
+
+    it('형식이 잘못되면 오류, 빈 항목과 너무 긴 항목은 건너뜀', () => {
+      expect(parseQuestions('[', 'json')).toEqual({ questions: [], errors: ['JSON 형식이 올바르지 않습니다.'] });
+      expect(parseQuestions('{"items": []}', 'json').errors).toHaveLength(1);
+
+      const { questions, errors } = parseQuestions(JSON.stringify(['질문 1', ' ', { category: '관계' }, 'x'.repeat(MAX_QUESTION_LENGTH + 1)]), 'json');
+      expect(questions).toEqual([item('질문 1')]);
+      expect(errors.map(e => e.split(':')[0])).toEqual(['2번째 항목', '3번째 항목', '4번째 항목']);
+    });
+  });
+
+  describe('텍스트', () => {
+    it('빈 줄로 문항을 나누고 너무 긴 문항은 건너뜀', () => {
+      const content = `질문 1\n이어지는 줄\n\n\n\n질문 2\n\n${'x'.repeat(MAX_QUESTION_LENGTH + 1)}\n\n`;
+      const { questions, errors } = parseQuestions(content, 'text', '관계');
+
+      expect(questions).toEqual([item('질문 1\n이어지는 줄', '관계'), item('질문 2', '관계')]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('3번째 문항');
+    });
+  });
+});
+
+describe('escapeCsvCell', () => {
+  it('수식으로 읽히는 값은 글자로, 구분자가 있으면 따옴표로 감쌈', () => {
+    expect(escapeCsvCell('@cmd')).toBe("'@cmd");
+    expect(escapeCsvCell('a,"b"')).toBe('"a,""b"""');
+    expect(escapeCsvCell('평범한 질문')).toBe('평범한 질문');
+  });
+});
+
+describe('planQuestionImport', () => {
+  const existing = [item('기존 질문'), item('공백이  다른   질문')];
+
+  it('추가하기 - 기존 질문과 공백만 다른 질문은 중복으로 뺌', () => {
+    const imported = [item('새 질문'), item(' 기존 질문 '), item('공백이 다른 질문')];
+    expect(planQuestionImport(existing, imported)).toEqual({
+      added: [item('새 질문')],
+      duplicates: [item(' 기존 질문 '), item('공백이 다른 질문')]
+    });
+  });
+
+  it('파일 안에서 겹치는 질문은 처음 것만 추가', () => {
+    const imported = [item('새 질문', '관계'), item('새  질문', '자기'), item('다른 질문')];
+    expect(planQuestionImport(existing, imported)).toEqual({
+      added: [item('새 질문', '관계'), item('다른 질문')],
+      duplicates: [item('새  질문', '자기')]
+    });
+  });
+
+  it('바꾸기 - 기존 목록 없이 계획하면 파일 안의 중복만 뺌', () => {
+    const imported = [item('기존 질문'), item('기존 질문')];
+    expect(planQuestionImport([], imported)).toEqual({ added: [item('기존 질문')], duplicates: [item('기존 질문')] });
+  });
+});
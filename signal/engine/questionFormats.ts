@@ -0,0 +1,231 @@
+
+import { QuestionItem } from '../types';
+import { DEFAULT_QUESTION_CATEGORY, parseQuestionText } from './questionBank';
+
+// 질문 가져오기 / 내보내기 형식
+// - csv: question, category, tags 열 (category / tags는 생략 가능, 태그는 ;로 구분)
+// - json: [{ text, category, tags }] 또는 문자열 배열, { questions: [...] } 형태도 허용
+// - text: 빈 줄로 문항 구분 (기존 입력 방식)
+export type QuestionFormat = 'csv' | 'json' | 'text';
+
+export interface QuestionParseResult {
+  questions: QuestionItem[];
+  errors: string[]; // 건너뛴 항목 설명 (몇 번째 줄/항목인지 포함)
+}
+
+export interface QuestionImportPlan {
+  added: QuestionItem[]; // 새로 추가될 질문
+  duplicates: QuestionItem[]; // 기존 질문 또는 가져온 파일 안에서 중복되어 빠지는 질문
+}
+
+// 가져올 수 있는 질문 한 개의 최대 글자 수 (잘못 고른 파일이 통째로 질문 하나가 되지 않도록)
+export const MAX_QUESTION_LENGTH = 500;
+
+const CSV_HEADERS = ['question', 'category', 'tags'];
+const QUESTION_HEADER_NAMES = ['question', 'text', '질문'];
+const CATEGORY_HEADER_NAMES = ['category', '카테고리', '분류'];
+const TAG_HEADER_NAMES = ['tags', 'tag', '태그'];
+
+export const QUESTION_FORMAT_EXTENSIONS: Record<QuestionFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  text: 'txt'
+};
+
+// 공백 차이만 있는 질문은 같은 질문으로 취급
+const normalizeText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const splitTags = (value: string): string[] =>
+  Array.from(new Set(value.split(/[;,]/).map(t => t.trim().replace(/^#/, '')).filter(t => t !== '')));
+
+// 파일 이름(확장자)으로 형식 추측 - 모르면 내용으로 판단
+export const detectQuestionFormat = (fileName: string, content: string): QuestionFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'json') return 'json';
+  if (extension === 'txt') return 'text';
+  return /^\s*[[{]/.test(content) ? 'json' : 'text';
+};
+
+// RFC 4180 CSV 파싱 (따옴표 안의 쉼표/줄바꿈/"" 이스케이프 지원)
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// 스프레드시트가 수식으로 실행하는 첫 글자 (=, +, -, @, 탭, CR)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// CSV 한 칸 - 수식으로 시작하면 앞에 '를 붙여 글자로 읽히게 하고, 구분자가 있으면 따옴표로 감쌈
+export const escapeCsvCell = (value: string): string => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// escapeCsvCell이 수식 방지로 붙인 ' 제거 (내보낸 질문을 다시 가져올 때)
+const unescapeCsvCell = (value: string): string => value.replace(/^'(?=[=+\-@\t\r])/, '');
+
+// 질문 내용 검사 - 문제가 있으면 설명, 없으면 null
+const checkQuestionText = (text: string): string | null => {
+  if (!text) return '질문 내용이 없습니다.';
+  if (text.length > MAX_QUESTION_LENGTH) return `질문이 ${MAX_QUESTION_LENGTH}자를 넘습니다.`;
+  return null;
+};
+
+const parseCsv = (content: string, defaultCategory: string): QuestionParseResult => {
+  const rows = parseCsvRows(content);
+  const errors: string[] = [];
+  const questions: QuestionItem[] = [];
+
+  // 첫 줄이 헤더면 열 위치를 헤더 이름으로 찾음 (없으면 질문, 카테고리, 태그 순서)
+  const header = (rows[0] || []).map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.some(cell => QUESTION_HEADER_NAMES.includes(cell));
+  const findColumn = (names: string[], fallback: number) => {
+    if (!hasHeader) return fallback;
+    return header.findIndex(cell => names.includes(cell));
+  };
+  const questionColumn = findColumn(QUESTION_HEADER_NAMES, 0);
+  const categoryColumn = findColumn(CATEGORY_HEADER_NAMES, 1);
+  const tagColumn = findColumn(TAG_HEADER_NAMES, 2);
+
+  rows.forEach((row, index) => {
+    if (hasHeader && index === 0) return;
+    if (row.every(cell => cell.trim() === '')) return;
+
+    const cell = (column: number) => unescapeCsvCell(row[column] || '');
+    const text = cell(questionColumn).trim();
+    const problem = checkQuestionText(text);
+    if (problem) {
+      errors.push(`${index + 1}번째 줄: ${problem}`);
+      return;
+    }
+    questions.push({
+      text,
+      category: (categoryColumn >= 0 && cell(categoryColumn).trim()) || defaultCategory,
+      tags: tagColumn >= 0 ? splitTags(cell(tagColumn)) : []
+    });
+  });
+
+  return { questions, errors };
+};
+
+const parseJson = (content: string, defaultCategory: string): QuestionParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    return { questions: [], errors: ['JSON 형식이 올바르지 않습니다.'] };
+  }
+
+  const list = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(list)) {
+    return { questions: [], errors: ['질문 배열(또는 questions 배열)을 찾을 수 없습니다.'] };
+  }
+
+  const errors: string[] = [];
+  const questions: QuestionItem[] = [];
+  list.forEach((entry, index) => {
+    const item = typeof entry === 'string' ? { text: entry } : entry;
+    const text = typeof item?.text === 'string' ? item.text : item?.question;
+    const problem = checkQuestionText(typeof text === 'string' ? text.trim() : '');
+    if (problem) {
+      errors.push(`${index + 1}번째 항목: ${problem}`);
+      return;
+    }
+    const tags = Array.isArray(item.tags)
+      ? item.tags.filter((t: unknown): t is string => typeof t === 'string')
+      : typeof item.tags === 'string' ? splitTags(item.tags) : [];
+    questions.push({
+      text: text.trim(),
+      category: typeof item.category === 'string' && item.category.trim() ? item.category.trim() : defaultCategory,
+      tags
+    });
+  });
+
+  return { questions, errors };
+};
+
+// 가져온 내용을 질문 목록으로 (잘못된 항목은 건너뛰고 errors에 기록)
+export const parseQuestions = (
+  content: string,
+  format: QuestionFormat,
+  defaultCategory: string = DEFAULT_QUESTION_CATEGORY
+): QuestionParseResult => {
+  // 엑셀이 붙이는 BOM 제거
+  const text = content.replace(/^\uFEFF/, '');
+  if (format === 'csv') return parseCsv(text, defaultCategory);
+  if (format === 'json') return parseJson(text, defaultCategory);
+
+  const errors: string[] = [];
+  const questions = parseQuestionText(text, defaultCategory).filter((q, index) => {
+    const problem = checkQuestionText(q.text);
+    if (problem) errors.push(`${index + 1}번째 문항: ${problem}`);
+    return !problem;
+  });
+  return { questions, errors };
+};
+
+// 질문 목록을 파일 내용으로
+export const exportQuestions = (questions: QuestionItem[], format: QuestionFormat): string => {
+  if (format === 'csv') {
+    const rows = questions.map(q => [q.text, q.category, (q.tags || []).join(';')].map(escapeCsvCell).join(','));
+    return [CSV_HEADERS.join(','), ...rows].join('\r\n');
+  }
+  if (format === 'json') {
+    return JSON.stringify(questions.map(q => ({ text: q.text, category: q.category, tags: q.tags || [] })), null, 2);
+  }
+  return questions.map(q => q.text).join('\n\n');
+};
+
+// 기존 질문과 비교해 새로 추가될 질문과 중복 질문 나누기
+export const planQuestionImport = (existing: QuestionItem[], imported: QuestionItem[]): QuestionImportPlan => {
+  const seen = new Set(existing.map(q => normalizeText(q.text)));
+  const added: QuestionItem[] = [];
+  const duplicates: QuestionItem[] = [];
+
+  imported.forEach(q => {
+    const key = normalizeText(q.text);
+    if (seen.has(key)) {
+      duplicates.push(q);
+      return;
+    }
+    seen.add(key);
+    added.push(q);
+  });
+
+  return { added, duplicates };
+};
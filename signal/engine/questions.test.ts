@@ -0,0 +1,39 @@
+
+import { describe, expect, it } from 'vitest';
+import { RoomConfig } from '../types';
+import { drawTeamQuestions } from './questions';
+import { createSeededRng } from './random';
+
+const config = (count: number): RoomConfig => ({
+  roomName: '테스트 방',
+  teamCount: 1,
+  durationMinutes: 10,
+  questions: Array.from({ length: count }, (_, i) => `질문 ${i + 1}`),
+  questionChoiceCount: 4
+});
+
+describe('drawTeamQuestions', () => {
+  it('아직 보여주지 않은 질문에서 뽑음', () => {
+    const draw = drawTeamQuestions(config(10), [0, 1, 2, 3, 4, 5], [], createSeededRng('fresh'));
+    expect([...draw.questions].sort()).toEqual([6, 7, 8, 9]);
+    expect(draw.used).toHaveLength(10);
+  });
+
+  it('새 주기로 채울 때 질문이 충분하면 바로 전 라운드 질문은 빼고 채움', () => {
+    const used = [0, 1, 2, 3, 4, 5, 6, 7];
+    const recent = [4, 5, 6, 7];
+    for (let seed = 0; seed < 20; seed++) {
+      const draw = drawTeamQuestions(config(10), used, recent, createSeededRng(`refill-${seed}`));
+      expect(draw.questions).toHaveLength(4);
+      expect(new Set(draw.questions).size).toBe(4);
+      expect(draw.questions.slice(0, 2).sort()).toEqual([8, 9]);
+      expect(draw.questions.some(idx => recent.includes(idx))).toBe(false);
+    }
+  });
+
+  it('질문이 모자라면 전 라운드 질문도 다시 사용', () => {
+    const draw = drawTeamQuestions(config(6), [0, 1, 2, 3, 4], [1, 2, 3, 4], createSeededRng('small'));
+    expect(draw.questions).toHaveLength(4);
+    expect(draw.questions[0]).toBe(5);
+  });
+});
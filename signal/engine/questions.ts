@@ -0,0 +1,101 @@
+import { GameState, RoomConfig } from '../types';
+import { Rng, defaultRng, shuffle } from './random';
+import { getQuestionItems } from './questionBank';
+
+// 주인공에게 보여줄 질문 수 (기본값과 설정 가능한 범위)
+export const QUESTION_CHOICE_COUNT = 4;
+export const MIN_QUESTION_CHOICES = 1;
+export const MAX_QUESTION_CHOICES = 8;
+
+// 주인공 한 명당 질문 교체 횟수 상한
+export const MAX_HERO_REROLLS = 5;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+export const getQuestionChoiceCount = (config: RoomConfig): number =>
+  clamp(Math.floor(Number(config.questionChoiceCount) || QUESTION_CHOICE_COUNT), MIN_QUESTION_CHOICES, MAX_QUESTION_CHOICES);
+
+export const getHeroRerollLimit = (config: RoomConfig): number =>
+  clamp(Math.floor(Number(config.heroRerolls) || 0), 0, MAX_HERO_REROLLS);
+
+// 팀의 현재 선택지 (start는 questionHistory에서의 시작 위치)
+export const getQuestionChoices = (state: GameState, team: string): { start: number; choices: number[] } => {
+  const history = state.questionHistory[team] || [];
+  const start = Math.min(state.questionChoiceStart[team] || 0, history.length);
+  return { start, choices: history.slice(start) };
+};
+
+// 팀에 새로 보여줄 질문과 갱신된 사용 목록
+export interface QuestionDraw {
+  questions: number[];
+  used: number[];
+}
+
+// 후보 중 count개 선택 - categories가 있으면 카테고리를 돌아가며 하나씩 (avoid에 있는 카테고리는 뒤로)
+const pickIndices = (
+  candidates: number[],
+  count: number,
+  rng: Rng,
+  categories?: string[],
+  avoid: string[] = []
+): number[] => {
+  const shuffled = shuffle(candidates, rng);
+  if (!categories) return shuffled.slice(0, count);
+
+  const byCategory = new Map<string, number[]>();
+  shuffled.forEach(idx => {
+    const category = categories[idx];
+    byCategory.set(category, [...(byCategory.get(category) || []), idx]);
+  });
+  const order = shuffle([...byCategory.keys()], rng).sort(
+    (a, b) => Number(avoid.includes(a)) - Number(avoid.includes(b))
+  );
+
+  const picked: number[] = [];
+  while (picked.length < count && picked.length < candidates.length) {
+    order.forEach(category => {
+      const next = byCategory.get(category)!.shift();
+      if (next !== undefined && picked.length < count) picked.push(next);
+    });
+  }
+  return picked;
+};
+
+// 전체 질문 중 서로 다른 인덱스를 무작위로 count개 선택
+export const drawQuestions = (
+  totalQuestions: number,
+  count: number = QUESTION_CHOICE_COUNT,
+  rng: Rng = defaultRng
+): number[] => pickIndices(Array.from({ length: totalQuestions }, (_, i) => i), count, rng);
+
+// 팀 질문 뽑기 - 이미 보여준 질문은 모두 쓸 때까지 다시 나오지 않음
+// 남은 질문이 모자라면 남은 것을 먼저 쓰고 새 주기를 시작해 나머지를 채움 (이번에 보여준 질문은 새 주기에서도 사용한 것으로)
+// 새 주기에서는 질문이 충분하면 바로 전 라운드에 보여준 질문(recent)을 빼고 채움
+export const drawTeamQuestions = (
+  config: RoomConfig,
+  used: number[] = [],
+  recent: number[] = [],
+  rng: Rng = defaultRng,
+  count: number = getQuestionChoiceCount(config)
+): QuestionDraw => {
+  const total = config.questions.length;
+  const all = Array.from({ length: total }, (_, i) => i);
+  const categories = config.balanceCategories ? getQuestionItems(config).map(q => q.category) : undefined;
+  const usedSet = new Set(used.filter(idx => idx < total));
+
+  const fresh = pickIndices(all.filter(idx => !usedSet.has(idx)), count, rng, categories);
+  if (fresh.length === count || fresh.length === total) {
+    return { questions: fresh, used: [...usedSet, ...fresh] };
+  }
+
+  const rest = all.filter(idx => !fresh.includes(idx));
+  const notRecent = rest.filter(idx => !recent.includes(idx));
+  const refill = pickIndices(
+    notRecent.length >= count - fresh.length ? notRecent : rest,
+    count - fresh.length,
+    rng,
+    categories,
+    categories ? fresh.map(idx => categories[idx]) : []
+  );
+  return { questions: [...fresh, ...refill], used: [...fresh, ...refill] };
+};
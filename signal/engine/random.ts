@@ -0,0 +1,33 @@
+
+// 0 이상 1 미만의 난수를 돌려주는 함수 (테스트 시 고정값 주입용)
+export type Rng = () => number;
+
+export const defaultRng: Rng = Math.random;
+
+// 배열에서 하나를 무작위로 선택
+export const pickRandom = <T,>(items: T[], rng: Rng): T | undefined =>
+  items.length > 0 ? items[Math.floor(rng() * items.length)] : undefined;
+
+// 섞은 복사본 (Fisher-Yates)
+export const shuffle = <T,>(items: T[], rng: Rng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// 문자열 시드로 항상 같은 순서의 난수를 내는 함수 (mulberry32)
+export const createSeededRng = (seed: string): Rng => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 2654435761);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
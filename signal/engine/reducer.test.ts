@@ -0,0 +1,360 @@
+
+import { describe, expect, it } from 'vitest';
+import { GameState, RoomConfig, User, UserRole } from '../types';
+import { findHeroReplacerId, reduceGame } from './reducer';
+import { createSeededRng } from './random';
+import { createInitialGameState } from './state';
+import { FINISH_GRACE_MS, REVEAL_COUNTDOWN_MS } from './timer';
+
+const config: RoomConfig = {
+  roomName: '테스트 방',
+  teamCount: 1,
+  teams: [{ id: 'team_1', name: '1팀', color: '#ff0000' }],
+  durationMinutes: 10,
+  questions: ['질문 1', '질문 2', '질문 3', '질문 4', '질문 5', '질문 6', '질문 7', '질문 8']
+};
+
+const member = (id: string): User => ({ id, name: `이름 ${id}`, team: 'team_1', role: UserRole.TRAINEE, score: 0 });
+const participants = [member('a'), member('b'), member('c')];
+
+const START = 1_000_000;
+
+// 게임을 시작하고 주인공이 O를 고른 상태
+const startedState = (roomConfig: RoomConfig = config): GameState => {
+  const started = reduceGame(createInitialGameState(), roomConfig, participants, { type: 'START_GAME', now: START }, createSeededRng('test')).state;
+  return reduceGame(started, roomConfig, participants, { type: 'SET_HERO_ANSWER', team: 'team_1', answer: 'O', now: START + 1000 }).state;
+};
+
+// 주인공이 아닌 팀원 ID
+const membersOf = (state: GameState) => participants.map(p => p.id).filter(id => id !== state.currentHeroId.team_1);
+
+// 팀원 답변 후 결과 공개
+const revealedState = () => {
+  const answered = membersOf(startedState()).reduce((state, userId, index) =>
+    reduceGame(state, config, participants, {
+      type: 'SUBMIT_MEMBER_ANSWER', team: 'team_1', userId, answer: index === 0 ? 'O' : 'X', now: START + 2000
+    }).state, startedState());
+  return reduceGame(answered, config, participants, { type: 'REVEAL_RESULT', team: 'team_1', round: 0, now: START + 5000 });
+};
+
+describe('REVEAL_RESULT', () => {
+  it('맞힌 팀원에게 점수를 주고 공개 상태와 라운드 기록을 함께 기록', () => {
+    const { state, updates } = revealedState();
+    const [right, wrong] = membersOf(state);
+
+    expect(state.individualScores[right]).toBe(100);
+    expect(state.individualScores[wrong]).toBeUndefined();
+    expect(state.resultRevealed.team_1).toBe(true);
+    expect(state.resultRevealedAt.team_1).toBe(START + 5000);
+    expect(state.scoredRound.team_1).toBe(0);
+    expect(state.roundAwards.team_1[right].total).toBe(100);
+
+    const record = updates['rounds/team_1/0'];
+    expect(record).toMatchObject({ round: 0, team: 'team_1', heroAnswer: 'O', revealedAt: START + 5000 });
+    expect(record.memberAnswers).toEqual({ [right]: 'O', [wrong]: 'X' });
+  });
+
+  it('이미 공개한 라운드는 다시 채점하지 않음', () => {
+    const { state } = revealedState();
+    const again = reduceGame(state, config, participants, { type: 'REVEAL_RESULT', team: 'team_1', round: 0, now: START + 6000 });
+    expect(again.updates).toEqual({});
+    expect(again.state).toBe(state);
+  });
+
+  it('다른 라운드 번호나 주인공 답이 없으면 거부', () => {
+    const state = startedState();
+    expect(reduceGame(state, config, participants, { type: 'REVEAL_RESULT', team: 'team_1', round: 1, now: START }).updates).toEqual({});
+
+    const noAnswer = { ...state, heroAnswer: {} };
+    expect(reduceGame(noAnswer, config, participants, { type: 'REVEAL_RESULT', team: 'team_1', round: 0, now: START }).updates).toEqual({});
+  });
+});
+
+describe('ADVANCE_ROUND', () => {
+  const advance = (state: GameState, now: number, expectedRound = 0) =>
+    reduceGame(state, config, participants, {
+      type: 'ADVANCE_ROUND', team: 'team_1', expectedRound, reason: 'next', actorId: 'a', now
+    }, createSeededRng('advance'));
+
+  it('결과 공개 전에는 넘어가지 않음', () => {
+    expect(advance(startedState(), START + 60_000).updates).toEqual({});
+  });
+
+  it('결과 공개 후 카운트다운 중에는 넘어가지 않음', () => {
+    expect(advance(revealedState().state, START + 5000 + REVEAL_COUNTDOWN_MS - 1).updates).toEqual({});
+  });
+
+  it('카운트다운 후 라운드를 올리고 새 주인공으로 초기화', () => {
+    const revealed = revealedState().state;
+    const { state } = advance(revealed, START + 5000 + REVEAL_COUNTDOWN_MS);
+
+    expect(state.roundCount.team_1).toBe(1);
+    expect(state.currentHeroId.team_1).not.toBe(revealed.currentHeroId.team_1);
+    expect(state.heroHistory.team_1).toHaveLength(2);
+    expect(state.roundAdvancedBy.team_1).toBe('a');
+    expect(state.heroAnswer.team_1).toBeUndefined();
+    expect(state.resultRevealed.team_1).toBe(false);
+    expect(state.roundAwards.team_1).toBeUndefined();
+    expect(Object.values(state.memberAnswers.team_1 || {}).every(answer => !answer)).toBe(true);
+    // 점수는 그대로
+    expect(state.individualScores).toEqual(revealed.individualScores);
+  });
+
+  it('이미 다른 기기가 넘긴 라운드(expectedRound 불일치)는 거부', () => {
+    const { state } = advance(revealedState().state, START + 5000 + REVEAL_COUNTDOWN_MS);
+    expect(advance(state, START + 60_000, 0).updates).toEqual({});
+  });
+
+  it('게임 시간이 끝난 뒤에는 넘어가지 않음', () => {
+    expect(advance(revealedState().state, START + 10 * 60 * 1000 + 1).updates).toEqual({});
+  });
+
+  it('순서넘기기는 결과 공개 전에도 현재 주인공을 빼고 넘김', () => {
+    const state = startedState();
+    const skipped = reduceGame(state, config, participants, {
+      type: 'ADVANCE_ROUND', team: 'team_1', expectedRound: 0, reason: 'skip', actorId: 'admin', now: START + 2000
+    }, createSeededRng('skip')).state;
+
+    expect(skipped.roundCount.team_1).toBe(1);
+    expect(skipped.currentHeroId.team_1).not.toBe(state.currentHeroId.team_1);
+  });
+
+  it('자동 교체는 주인공이 빠졌을 때만', () => {
+    const state = startedState();
+    const replace = (members: User[]) => reduceGame(state, config, members, {
+      type: 'ADVANCE_ROUND', team: 'team_1', expectedRound: 0, reason: 'replace', actorId: 'b', now: START + 2000
+    }, createSeededRng('replace'));
+
+    expect(replace(participants).updates).toEqual({});
+    const remaining = participants.filter(p => p.id !== state.currentHeroId.team_1);
+    expect(remaining.map(p => p.id)).toContain(replace(remaining).state.currentHeroId.team_1);
+  });
+});
+
+describe('findHeroReplacerId', () => {
+  it('주인공과 오프라인 팀원을 뺀 팀원 중 ID가 가장 앞선 사람', () => {
+    const state = { ...createInitialGameState(), currentHeroId: { team_1: 'a' } };
+    expect(findHeroReplacerId(state, participants, 'team_1')).toBe('b');
+    expect(findHeroReplacerId(state, participants, 'team_1', ['b'])).toBe('c');
+    expect(findHeroReplacerId(state, participants, 'team_1', ['b', 'c'])).toBeNull();
+  });
+});
+
+describe('결과 공개 후 답변', () => {
+  it('주인공 답을 바꿀 수 없음', () => {
+    const { state } = revealedState();
+    expect(reduceGame(state, config, participants, { type: 'SET_HERO_ANSWER', team: 'team_1', answer: 'X', now: START + 6000 }).updates).toEqual({});
+  });
+
+  it('팀원 답을 내거나 바꿀 수 없음', () => {
+    const { state } = revealedState();
+    const [right] = membersOf(state);
+    expect(reduceGame(state, config, participants, {
+      type: 'SUBMIT_MEMBER_ANSWER', team: 'team_1', userId: right, answer: 'X', now: START + 6000
+    }).updates).toEqual({});
+  });
+});
+
+describe('게임 시작과 종료', () => {
+  it('START_GAME은 새 상태로 시작하고 누적 점수만 이어감', () => {
+    const previous = { ...createInitialGameState(), individualScores: { a: 300 }, roundCount: { team_1: 3 }, isFinished: true };
+    const { state, updates } = reduceGame(previous, config, participants, { type: 'START_GAME', now: START }, createSeededRng('start'));
+
+    expect(state.isStarted).toBe(true);
+    expect(state.isFinished).toBe(false);
+    expect(state.startTime).toBe(START);
+    expect(state.deadline).toBe(START + 10 * 60 * 1000);
+    expect(participants.map(p => p.id)).toContain(state.currentHeroId.team_1);
+    expect(state.heroHistory.team_1).toEqual([state.currentHeroId.team_1]);
+    expect(state.questionHistory.team_1).toHaveLength(4);
+    expect(state.currentQuestionIndex.team_1).toBe(0);
+    expect(state.roundCount).toEqual({});
+    expect(state.individualScores).toEqual({ a: 300 });
+    expect(updates.rounds).toBeNull();
+  });
+
+  it('STOP_GAME은 바로 종료', () => {
+    const { state } = reduceGame(startedState(), config, participants, { type: 'STOP_GAME' });
+    expect(state.isStarted).toBe(false);
+    expect(state.isFinished).toBe(true);
+  });
+
+  it('FINISH_GAME은 시간이 끝난 뒤에만, 카운트다운 중인 팀이 있으면 유예 시간까지 기다림', () => {
+    const deadline = START + 10 * 60 * 1000;
+    const finish = (state: GameState, now: number) => reduceGame(state, config, participants, { type: 'FINISH_GAME', now });
+
+    expect(finish(startedState(), deadline - 1).updates).toEqual({});
+    expect(finish(startedState(), deadline).state.isFinished).toBe(true);
+
+    const counting = { ...revealedState().state, resultRevealedAt: { team_1: deadline - 1000 } };
+    expect(finish(counting, deadline).updates).toEqual({});
+    expect(finish(counting, deadline + FINISH_GRACE_MS).state.isFinished).toBe(true);
+  });
+});
+
+describe('타이머', () => {
+  const deadline = START + 10 * 60 * 1000;
+
+  it('PAUSE_TIMER / RESUME_TIMER는 멈춘 시간만큼 종료 시각을 늦춤', () => {
+    const paused = reduceGame(startedState(), config, participants, { type: 'PAUSE_TIMER', now: START + 60_000 }).state;
+    expect(paused.pausedAt).toBe(START + 60_000);
+    expect(paused.deadline).toBe(deadline);
+    expect(reduceGame(paused, config, participants, { type: 'PAUSE_TIMER', now: START + 70_000 }).updates).toEqual({});
+
+    const resumed = reduceGame(paused, config, participants, { type: 'RESUME_TIMER', now: START + 90_000 }).state;
+    expect(resumed.pausedAt).toBeNull();
+    expect(resumed.deadline).toBe(deadline + 30_000);
+    expect(reduceGame(resumed, config, participants, { type: 'RESUME_TIMER', now: START + 95_000 }).updates).toEqual({});
+  });
+
+  it('EXTEND_TIMER는 진행 중인 게임의 종료 시각만 늦춤', () => {
+    expect(reduceGame(startedState(), config, participants, { type: 'EXTEND_TIMER', minutes: 2 }).state.deadline).toBe(deadline + 2 * 60 * 1000);
+    expect(reduceGame(createInitialGameState(), config, participants, { type: 'EXTEND_TIMER', minutes: 2 }).updates).toEqual({});
+  });
+});
+
+describe('질문 선택', () => {
+  const change = (state: GameState, direction: 'next' | 'prev' | number) =>
+    reduceGame(state, config, participants, { type: 'CHANGE_QUESTION', team: 'team_1', direction });
+
+  it('CHANGE_QUESTION은 현재 선택지 안에서 돌아가며 이동', () => {
+    const state = startedState();
+    expect(change(state, 'next').state.currentQuestionIndex.team_1).toBe(1);
+    expect(change(state, 'prev').state.currentQuestionIndex.team_1).toBe(3);
+    expect(change(state, 2).state.currentQuestionIndex.team_1).toBe(2);
+    expect(change(state, 4).updates).toEqual({});
+  });
+
+  describe('REROLL_QUESTIONS', () => {
+    const rerollConfig: RoomConfig = { ...config, heroRerolls: 1 };
+    const beforeAnswer = (roomConfig: RoomConfig) =>
+      reduceGame(createInitialGameState(), roomConfig, participants, { type: 'START_GAME', now: START }, createSeededRng('test')).state;
+    const reroll = (state: GameState, roomConfig: RoomConfig, expectedRound = 0) =>
+      reduceGame(state, roomConfig, participants, { type: 'REROLL_QUESTIONS', team: 'team_1', expectedRound }, createSeededRng('reroll'));
+
+    it('새 선택지를 뒤에 붙이고 지나간 질문은 다시 나오지 않음', () => {
+      const state = beforeAnswer(rerollConfig);
+      const { state: rerolled } = reroll(state, rerollConfig);
+
+      expect(rerolled.questionHistory.team_1).toHaveLength(8);
+      expect(rerolled.questionChoiceStart.team_1).toBe(4);
+      expect(rerolled.currentQuestionIndex.team_1).toBe(4);
+      expect(rerolled.questionRerolls.team_1).toBe(1);
+      const [offered, fresh] = [rerolled.questionHistory.team_1.slice(0, 4), rerolled.questionHistory.team_1.slice(4)];
+      expect(fresh.some(idx => offered.includes(idx))).toBe(false);
+      // 지나간 선택지로는 돌아갈 수 없음
+      expect(change(rerolled, 'prev').state.currentQuestionIndex.team_1).toBe(7);
+      expect(change(rerolled, 0).updates).toEqual({});
+    });
+
+    it('방 설정 횟수를 넘기거나 답을 고른 뒤에는 거부', () => {
+      expect(reroll(beforeAnswer(config), config).updates).toEqual({});
+      expect(reroll(reroll(beforeAnswer(rerollConfig), rerollConfig).state, rerollConfig).updates).toEqual({});
+      expect(reroll(startedState(rerollConfig), rerollConfig).updates).toEqual({});
+    });
+
+    it('다른 라운드에서 보낸 요청은 거부', () => {
+      expect(reroll(beforeAnswer(rerollConfig), rerollConfig, 1).updates).toEqual({});
+    });
+  });
+});
+
+describe('CLOSE_ANSWERS', () => {
+  const windowConfig: RoomConfig = { ...config, answerWindowSeconds: 30 };
+  const close = (state: GameState, roomConfig: RoomConfig, now: number, round = 0) =>
+    reduceGame(state, roomConfig, participants, { type: 'CLOSE_ANSWERS', team: 'team_1', round, now });
+
+  it('답변 제한 시간이 지난 뒤에만 마감', () => {
+    const state = startedState(windowConfig);
+    expect(close(state, windowConfig, START + 1000 + 29_999).updates).toEqual({});
+    expect(close(state, windowConfig, START + 1000 + 30_000).state.answersClosed.team_1).toBe(true);
+  });
+
+  it('제한 시간이 없는 방, 다른 라운드, 공개된 라운드는 마감하지 않음', () => {
+    expect(close(startedState(), config, START + 60 * 60 * 1000).updates).toEqual({});
+    expect(close(startedState(windowConfig), windowConfig, START + 60_000, 1).updates).toEqual({});
+    expect(close(revealedState().state, windowConfig, START + 60_000).updates).toEqual({});
+  });
+});
+
+describe('팀 배정', () => {
+  const teamsConfig: RoomConfig = {
+    ...config,
+    teamCount: 2,
+    teams: [
+      { id: 'team_1', name: '1팀', color: '#ff0000' },
+      { id: 'team_2', name: '2팀', color: '#00ff00', maxSize: 1 }
+    ]
+  };
+  const withD = [...participants, { ...member('d'), team: 'team_2' }];
+  const running = (members: User[]) =>
+    reduceGame(createInitialGameState(), teamsConfig, members, { type: 'START_GAME', now: START }, createSeededRng('test')).state;
+
+  describe('MOVE_PARTICIPANT', () => {
+    const move = (state: GameState, members: User[], userId: string, team: string) =>
+      reduceGame(state, teamsConfig, members, { type: 'MOVE_PARTICIPANT', userId, team }, createSeededRng('move'));
+
+    it('팀을 옮기고 이전 팀 답변 슬롯을 지움', () => {
+      const { updates } = move(createInitialGameState(), withD, 'd', 'team_1');
+      expect(updates).toEqual({
+        'participants/d/team': 'team_1',
+        'gameState/memberAnswers/team_1/d': null,
+        'gameState/memberAnswers/team_2/d': null
+      });
+    });
+
+    it('정원이 찬 팀, 없는 팀, 같은 팀으로는 옮기지 않음', () => {
+      expect(move(createInitialGameState(), withD, 'a', 'team_2').updates).toEqual({});
+      expect(move(createInitialGameState(), withD, 'a', 'team_9').updates).toEqual({});
+      expect(move(createInitialGameState(), withD, 'a', 'team_1').updates).toEqual({});
+    });
+
+    it('게임 중 주인공이 없는 팀에 들어가면 그 팀 라운드 시작', () => {
+      const state = running(participants);
+      expect(state.currentHeroId.team_2).toBeUndefined();
+
+      const moved = move(state, participants, 'a', 'team_2').state;
+      expect(moved.currentHeroId.team_2).toBe('a');
+      expect(moved.heroHistory.team_2).toEqual(['a']);
+      expect(moved.questionHistory.team_2).toHaveLength(4);
+    });
+  });
+
+  it('ASSIGN_TEAMS는 게임 시작 전에 바뀌는 참가자만 배정', () => {
+    const assign = (state: GameState) => reduceGame(state, teamsConfig, participants, {
+      type: 'ASSIGN_TEAMS', assignments: { a: 'team_2', b: 'team_1', c: 'team_9' }
+    }).updates;
+
+    expect(assign(createInitialGameState())).toEqual({ 'participants/a/team': 'team_2' });
+    expect(assign(running(participants))).toEqual({});
+  });
+
+  describe('UPDATE_TEAMS', () => {
+    const removeTeam2 = (orphanPolicy: 'reassign' | 'unassigned') =>
+      reduceGame(running(withD), teamsConfig, withD, { type: 'UPDATE_TEAMS', teams: [teamsConfig.teams![0]], orphanPolicy }, createSeededRng('teams'));
+
+    it('삭제된 팀의 게임 상태를 정리하고 팀원은 남은 팀으로 재배정', () => {
+      const { state, updates } = removeTeam2('reassign');
+      expect(updates['config/teams']).toEqual([teamsConfig.teams![0]]);
+      expect(updates['config/teamCount']).toBe(1);
+      expect(updates['participants/d/team']).toBe('team_1');
+      expect(state.currentHeroId.team_2).toBeUndefined();
+      expect(state.heroHistory.team_2).toBeUndefined();
+      expect(state.currentHeroId.team_1).toBeDefined();
+    });
+
+    it('미배정으로 두기를 고르면 팀원의 팀을 비움', () => {
+      expect(removeTeam2('unassigned').updates['participants/d/team']).toBe('');
+    });
+
+    it('게임 중 새로 만든 팀은 팀원이 있으면 라운드 시작', () => {
+      const team3 = { id: 'team_3', name: '3팀', color: '#0000ff' };
+      const moved = [...participants, { ...member('e'), team: 'team_3' }];
+      const { state } = reduceGame(running(participants), teamsConfig, moved, {
+        type: 'UPDATE_TEAMS', teams: [...teamsConfig.teams!, team3], orphanPolicy: 'reassign'
+      }, createSeededRng('teams'));
+
+      expect(state.currentHeroId.team_3).toBe('e');
+    });
+  });
+});
@@ -0,0 +1,496 @@
+
+import { GameState, OrphanPolicy, RoomConfig, TeamConfig, User } from '../types';
+import { RoomUpdates } from '../backend/types';
+import { Rng, createSeededRng, defaultRng, pickRandom } from './random';
+import { QuestionDraw, drawTeamQuestions, getHeroRerollLimit, getQuestionChoices } from './questions';
+import { pickNextHero } from './heroes';
+import { applyGameUpdates, createInitialGameState, getTeamMembers } from './state';
+import { serializeGameState } from './schema';
+import { UNASSIGNED_TEAM_ID, assignOrphans, findTeam, getTeamIds, isTeamFull } from './teams';
+import { getDeadline, isAnswerWindowOver, isPastDeadline, shouldAutoFinish, REVEAL_COUNTDOWN_MS } from './timer';
+import { getScoringPolicy, scoreRound } from './scoring';
+import { accumulateAnswerStats } from './answerStats';
+import { createRoundRecord } from './history';
+
+export type GameAction =
+  | { type: 'START_GAME'; now: number }
+  | { type: 'STOP_GAME' }
+  | { type: 'FINISH_GAME'; now: number }
+  | { type: 'PAUSE_TIMER'; now: number }
+  | { type: 'RESUME_TIMER'; now: number }
+  | { type: 'EXTEND_TIMER'; minutes: number }
+  | { type: 'SET_HERO_ANSWER'; team: string; answer: 'O' | 'X'; now: number }
+  | { type: 'SUBMIT_MEMBER_ANSWER'; team: string; userId: string; answer: 'O' | 'X'; now: number }
+  | { type: 'CHANGE_QUESTION'; team: string; direction: 'next' | 'prev' | number }
+  | { type: 'REROLL_QUESTIONS'; team: string; expectedRound: number }
+  | { type: 'CLOSE_ANSWERS'; team: string; round: number; now: number }
+  | { type: 'REVEAL_RESULT'; team: string; round: number; now: number; unavailableIds?: string[] }
+  | { type: 'ADVANCE_ROUND'; team: string; expectedRound: number; reason: RoundAdvanceReason; actorId: string; now: number; unavailableIds?: string[] }
+  | { type: 'MOVE_PARTICIPANT'; userId: string; team: string }
+  | { type: 'ASSIGN_TEAMS'; assignments: Record<string, string> }
+  | { type: 'UPDATE_TEAMS'; teams: TeamConfig[]; orphanPolicy: OrphanPolicy };
+
+// 라운드 전환 사유
+// - next: 결과 공개 후 다음 주인공으로
+// - skip: 관리자가 현재 주인공을 건너뜀
+// - replace: 주인공이 팀을 떠났거나 오프라인 유예 시간이 지나 자동 교체
+export type RoundAdvanceReason = 'next' | 'skip' | 'replace';
+
+// 다음 상태와, 그 상태를 만들기 위해 방 경로 기준으로 써야 할 업데이트
+export interface EngineResult {
+  state: GameState;
+  updates: RoomUpdates;
+}
+
+const emptyAnswers = (members: User[]): Record<string, null> => {
+  const resetAnswers: Record<string, null> = {};
+  members.forEach(m => {
+    resetAnswers[m.id] = null;
+  });
+  return resetAnswers;
+};
+
+// 새 주인공으로 팀 라운드 초기화
+const heroRoundUpdates = (team: string, heroId: string, members: User[], draw: QuestionDraw): RoomUpdates => ({
+  [`gameState/currentHeroId/${team}`]: heroId,
+  [`gameState/heroAnswer/${team}`]: null,
+  [`gameState/heroAnsweredAt/${team}`]: null,
+  [`gameState/memberAnsweredAt/${team}`]: null,
+  [`gameState/answerPausedMs/${team}`]: null,
+  [`gameState/memberAnswerChanges/${team}`]: null,
+  [`gameState/answersClosed/${team}`]: null,
+  [`gameState/roundAwards/${team}`]: null,
+  [`gameState/questionHistory/${team}`]: draw.questions,
+  [`gameState/usedQuestions/${team}`]: draw.used,
+  [`gameState/questionChoiceStart/${team}`]: null,
+  [`gameState/questionRerolls/${team}`]: null,
+  [`gameState/currentQuestionIndex/${team}`]: 0,
+  [`gameState/memberAnswers/${team}`]: emptyAnswers(members),
+  [`gameState/resultRevealed/${team}`]: false,
+  [`gameState/resultRevealedAt/${team}`]: null
+});
+
+// 진행 중인 게임에서 주인공이 없는 팀의 첫 라운드 시작 (새로 만든 팀, 빈 팀에 들어온 팀원)
+const teamStartUpdates = (state: GameState, config: RoomConfig, team: string, members: User[], rng: Rng): RoomUpdates => {
+  const heroHistory = state.heroHistory[team] || [];
+  const hero = pickNextHero(members, heroHistory, rng);
+  if (!hero) return {};
+
+  return {
+    ...heroRoundUpdates(team, hero.id, members, drawTeamQuestions(config, state.usedQuestions[team], state.questionHistory[team], rng)),
+    [`gameState/heroHistory/${team}`]: [...heroHistory, hero.id]
+  };
+};
+
+// 팀 ID를 키로 쓰는 gameState 필드 - 팀이 삭제되면 함께 정리
+const TEAM_KEYED_FIELDS = [
+  'currentHeroId',
+  'heroAnswer',
+  'heroAnsweredAt',
+  'memberAnsweredAt',
+  'answerPausedMs',
+  'memberAnswerChanges',
+  'answersClosed',
+  'roundAwards',
+  'currentQuestionIndex',
+  'questionHistory',
+  'questionChoiceStart',
+  'questionRerolls',
+  'heroHistory',
+  'usedQuestions',
+  'memberAnswers',
+  'roundCount',
+  'roundAdvancedBy',
+  'resultRevealed',
+  'resultRevealedAt',
+  'scoredRound'
+] as const;
+
+const isRunning = (state: GameState): boolean => state.isStarted && !state.isFinished;
+
+const buildUpdates = (
+  state: GameState,
+  config: RoomConfig,
+  participants: User[],
+  action: GameAction,
+  rng: Rng
+): RoomUpdates => {
+  switch (action.type) {
+    // 게임 시작 - 각 팀별로 랜덤 주인공 선정
+    case 'START_GAME': {
+      const newHeroIds: Record<string, string> = {};
+      const newHeroHistory: Record<string, string[]> = {};
+      const newQuestionHistory: Record<string, number[]> = {};
+      const newUsedQuestions: Record<string, number[]> = {};
+      const newCurrentQuestionIndex: Record<string, number> = {};
+      const newMemberAnswers: Record<string, Record<string, null>> = {};
+
+      getTeamIds(config).forEach(teamName => {
+        const teamMembers = getTeamMembers(participants, teamName);
+        const firstHero = pickRandom(teamMembers, rng);
+        if (!firstHero) return;
+
+        newHeroIds[teamName] = firstHero.id;
+        newHeroHistory[teamName] = [firstHero.id];
+        const draw = drawTeamQuestions(config, [], [], rng);
+        newQuestionHistory[teamName] = draw.questions;
+        newUsedQuestions[teamName] = draw.used;
+        newCurrentQuestionIndex[teamName] = 0;
+        newMemberAnswers[teamName] = emptyAnswers(teamMembers);
+      });
+
+      // 스키마의 초기 상태에서 새로 만들어 통째로 기록 (이전 게임의 팀별 기록과 라운드 기록이 남지 않도록) - 누적 점수 / 답변 기록만 이어감
+      return {
+        gameState: serializeGameState({
+          ...createInitialGameState(),
+          isStarted: true,
+          startTime: action.now,
+          deadline: action.now + Number(config.durationMinutes) * 60 * 1000,
+          currentHeroId: newHeroIds,
+          currentQuestionIndex: newCurrentQuestionIndex,
+          questionHistory: newQuestionHistory,
+          usedQuestions: newUsedQuestions,
+          heroHistory: newHeroHistory,
+          memberAnswers: newMemberAnswers,
+          individualScores: state.individualScores,
+          answerStats: state.answerStats
+        }),
+        rounds: null
+      };
+    }
+
+    case 'STOP_GAME':
+      return {
+        'gameState/isStarted': false,
+        'gameState/isFinished': true
+      };
+
+    // 시간 종료에 의한 자동 종료 (아직 시간이 남았으면 거부)
+    case 'FINISH_GAME':
+      if (!shouldAutoFinish(state, config, action.now)) return {};
+      return {
+        'gameState/isStarted': false,
+        'gameState/isFinished': true,
+        'gameState/pausedAt': null
+      };
+
+    // 타이머 일시정지 / 재개 / 연장 - 종료 시각(deadline)을 옮겨 모든 기기가 같은 시각에 끝나도록
+    case 'PAUSE_TIMER':
+      if (!state.isStarted || state.isFinished || state.pausedAt !== null) return {};
+      return {
+        'gameState/deadline': getDeadline(state, config),
+        'gameState/pausedAt': action.now
+      };
+
+    // 멈춘 시간만큼 게임 종료 시각과, 답을 받고 있는 팀의 답변 마감을 늦춤
+    case 'RESUME_TIMER': {
+      const deadline = getDeadline(state, config);
+      const pausedAt = state.pausedAt;
+      if (pausedAt === null || deadline === null) return {};
+
+      const answerShifts: RoomUpdates = {};
+      Object.entries(state.heroAnsweredAt).forEach(([team, answeredAt]) => {
+        if (!answeredAt || !state.heroAnswer[team] || state.resultRevealed[team]) return;
+        // 일시정지 중에 고른 답은 재개 시각부터 제한 시간이 흐름
+        const pausedMs = Math.max(0, action.now - Math.max(pausedAt, answeredAt));
+        answerShifts[`gameState/answerPausedMs/${team}`] = (state.answerPausedMs[team] || 0) + pausedMs;
+      });
+
+      return {
+        'gameState/deadline': deadline + Math.max(0, action.now - pausedAt),
+        'gameState/pausedAt': null,
+        ...answerShifts
+      };
+    }
+
+    case 'EXTEND_TIMER': {
+      const deadline = getDeadline(state, config);
+      if (!state.isStarted || state.isFinished || deadline === null) return {};
+      return {
+        'gameState/deadline': deadline + action.minutes * 60 * 1000
+      };
+    }
+
+    // 주인공 답변 설정 - 바꾸면 팀원 답변과 답변 시각도 처음부터
+    // 결과 공개 후나 답변 제한 시간이 지난 뒤에는 바꿀 수 없음
+    case 'SET_HERO_ANSWER':
+      if (state.resultRevealed[action.team]) return {};
+      if (state.heroAnswer[action.team] && isAnswerWindowOver(state, config, action.team, action.now)) return {};
+      return {
+        [`gameState/heroAnswer/${action.team}`]: action.answer,
+        [`gameState/heroAnsweredAt/${action.team}`]: action.now,
+        [`gameState/memberAnswers/${action.team}`]: emptyAnswers(getTeamMembers(participants, action.team)),
+        [`gameState/memberAnsweredAt/${action.team}`]: null,
+        [`gameState/answerPausedMs/${action.team}`]: null,
+        [`gameState/memberAnswerChanges/${action.team}`]: null,
+        [`gameState/answersClosed/${action.team}`]: null
+      };
+
+    // 팀원 답변 (점수는 결과공개 시 계산) - 답을 바꾸면 답변 시각을 새로 기록하고 변경 횟수 증가
+    // lockFirstAnswer면 처음 고른 답을 바꿀 수 없음, 공개 후나 답변 제한 시간이 지나면 답변 불가
+    case 'SUBMIT_MEMBER_ANSWER': {
+      if (state.resultRevealed[action.team]) return {};
+      if (isAnswerWindowOver(state, config, action.team, action.now)) return {};
+      const previous = state.memberAnswers[action.team]?.[action.userId];
+      if (previous === action.answer) return {};
+      if (previous && config.lockFirstAnswer) return {};
+
+      const updates: RoomUpdates = {
+        [`gameState/memberAnswers/${action.team}/${action.userId}`]: action.answer,
+        [`gameState/memberAnsweredAt/${action.team}/${action.userId}`]: action.now
+      };
+      if (previous) {
+        updates[`gameState/memberAnswerChanges/${action.team}/${action.userId}`] =
+          (state.memberAnswerChanges[action.team]?.[action.userId] || 0) + 1;
+      }
+      return updates;
+    }
+
+    // 질문 변경 (다른 질문보기) - 교체되어 지나간 질문은 다시 고를 수 없음 (현재 선택지 안에서만 이동)
+    case 'CHANGE_QUESTION': {
+      const { start, choices } = getQuestionChoices(state, action.team);
+      if (choices.length === 0) return {};
+      const currentIdx = state.currentQuestionIndex[action.team] || 0;
+      const offset = Math.min(Math.max(currentIdx - start, 0), choices.length - 1);
+
+      let newIdx: number;
+      if (typeof action.direction === 'number') {
+        if (action.direction < start || action.direction >= start + choices.length) return {};
+        newIdx = action.direction;
+      } else if (action.direction === 'next') {
+        newIdx = start + (offset + 1) % choices.length;
+      } else {
+        newIdx = start + (offset - 1 + choices.length) % choices.length;
+      }
+
+      return {
+        [`gameState/currentQuestionIndex/${action.team}`]: newIdx
+      };
+    }
+
+    // 질문 교체 - 주인공이 답을 고르기 전에만, 방 설정의 횟수만큼 새 선택지를 받음
+    // 이전 선택지는 questionHistory에 남겨 무엇을 보여줬는지 확인 가능
+    case 'REROLL_QUESTIONS': {
+      if (!isRunning(state)) return {};
+      if ((state.roundCount[action.team] || 0) !== action.expectedRound) return {};
+      if (!state.currentHeroId[action.team] || state.heroAnswer[action.team] || state.resultRevealed[action.team]) return {};
+
+      const rerolls = state.questionRerolls[action.team] || 0;
+      if (rerolls >= getHeroRerollLimit(config)) return {};
+
+      const history = state.questionHistory[action.team] || [];
+      const draw = drawTeamQuestions(config, state.usedQuestions[action.team], history, rng);
+      if (draw.questions.length === 0) return {};
+
+      return {
+        [`gameState/questionHistory/${action.team}`]: [...history, ...draw.questions],
+        [`gameState/questionChoiceStart/${action.team}`]: history.length,
+        [`gameState/currentQuestionIndex/${action.team}`]: history.length,
+        [`gameState/usedQuestions/${action.team}`]: draw.used,
+        [`gameState/questionRerolls/${action.team}`]: rerolls + 1
+      };
+    }
+
+    // 답변 마감 - 제한 시간이 지난 팀의 답변을 닫음 (안 낸 팀원은 무응답, 공개는 주인공이 직접)
+    case 'CLOSE_ANSWERS': {
+      if (!state.heroAnswer[action.team]) return {};
+      if (state.resultRevealed[action.team] || state.answersClosed[action.team]) return {};
+      if ((state.roundCount[action.team] || 0) !== action.round) return {};
+      if (!isAnswerWindowOver(state, config, action.team, action.now)) return {};
+      return { [`gameState/answersClosed/${action.team}`]: true };
+    }
+
+    // 결과 공개 - 방의 점수 규칙으로 계산해 점수와 내역(roundAwards), 개인 답변 기록, 라운드 기록(rounds)을 함께 기록
+    // 이미 공개됐거나 다른 라운드로 넘어갔거나 채점된 라운드면 아무것도 하지 않음 (재시도 안전)
+    case 'REVEAL_RESULT': {
+      const heroAnswer = state.heroAnswer[action.team];
+      if (!heroAnswer) return {};
+      if (state.resultRevealed[action.team]) return {};
+      if ((state.roundCount[action.team] || 0) !== action.round) return {};
+      if (state.scoredRound[action.team] === action.round) return {};
+
+      const heroId = state.currentHeroId[action.team];
+      const unavailableIds = action.unavailableIds || [];
+      const expectedIds = getTeamMembers(participants, action.team)
+        .map(m => m.id)
+        .filter(id => id !== heroId && !unavailableIds.includes(id));
+      const awards = scoreRound(state, action.team, heroId, expectedIds, getScoringPolicy(config));
+
+      const updates: RoomUpdates = {};
+      Object.entries(awards).forEach(([userId, award]) => {
+        updates[`gameState/individualScores/${userId}`] = (state.individualScores[userId] || 0) + award.total;
+      });
+      Object.entries(accumulateAnswerStats(state, action.team, heroId)).forEach(([userId, stats]) => {
+        updates[`gameState/answerStats/${userId}`] = stats;
+      });
+      updates[`gameState/roundAwards/${action.team}`] = awards;
+      const record = createRoundRecord(state, config, participants, action.team, action.round, awards, action.now);
+      if (record) updates[`rounds/${action.team}/${action.round}`] = record;
+      updates[`gameState/resultRevealed/${action.team}`] = true;
+      updates[`gameState/resultRevealedAt/${action.team}`] = action.now;
+      updates[`gameState/scoredRound/${action.team}`] = action.round;
+      return updates;
+    }
+
+    // 라운드 전환 - 새 주인공 선정 후 라운드 증가
+    // 클라이언트가 본 라운드(expectedRound)와 현재 라운드가 다르면 이미 다른 사람이 넘긴 것이므로 거부
+    // 오프라인 참가자(unavailableIds)는 가능하면 주인공 후보에서 제외
+    case 'ADVANCE_ROUND': {
+      if (!state.isStarted || state.isFinished) return {};
+      if ((state.roundCount[action.team] || 0) !== action.expectedRound) return {};
+
+      const teamMembers = getTeamMembers(participants, action.team);
+      if (teamMembers.length === 0) return {};
+
+      const unavailableIds = action.unavailableIds || [];
+      const availableMembers = teamMembers.filter(m => !unavailableIds.includes(m.id));
+      const heroHistory = state.heroHistory[action.team] || [];
+      const currentHeroId = state.currentHeroId[action.team];
+      const heroPresent = availableMembers.some(m => m.id === currentHeroId);
+
+      let candidates = availableMembers.length > 0 ? availableMembers : teamMembers;
+      if (action.reason === 'next') {
+        // 결과 공개 후 카운트다운 전이나 게임 시간이 끝난 뒤에는 넘어갈 수 없음
+        if (!state.resultRevealed[action.team]) return {};
+        const revealedAt = state.resultRevealedAt[action.team];
+        if (revealedAt && action.now < revealedAt + REVEAL_COUNTDOWN_MS) return {};
+        if (isPastDeadline(state, config, action.now)) return {};
+      } else if (action.reason === 'skip') {
+        // 순서넘기기는 현재 주인공 제외 (혼자라면 그대로 유지)
+        candidates = candidates.filter(m => m.id !== currentHeroId);
+      } else if (heroPresent || !currentHeroId || availableMembers.length === 0) {
+        // 자동 교체는 주인공이 실제로 빠졌고 대신할 사람이 있을 때만
+        return {};
+      }
+
+      const nextHero = pickNextHero(candidates, heroHistory, rng);
+      if (!nextHero) return {};
+
+      return {
+        ...heroRoundUpdates(action.team, nextHero.id, teamMembers, drawTeamQuestions(config, state.usedQuestions[action.team], state.questionHistory[action.team], rng)),
+        [`gameState/roundCount/${action.team}`]: action.expectedRound + 1,
+        [`gameState/roundAdvancedBy/${action.team}`]: action.actorId,
+        // 주인공 히스토리 - 항상 누적 (리셋하지 않음)
+        [`gameState/heroHistory/${action.team}`]: [...heroHistory, nextHero.id]
+      };
+    }
+
+    // 참가자 한 명 팀 이동 - 답변 슬롯은 새 팀으로 옮기고 점수(userId 기준)는 그대로 유지
+    case 'MOVE_PARTICIPANT': {
+      const participant = participants.find(p => p.id === action.userId);
+      const team = findTeam(config, action.team);
+      if (!participant || !team || participant.team === team.id) return {};
+      if (isTeamFull(team, participants)) return {};
+
+      const updates: RoomUpdates = {
+        [`participants/${participant.id}/team`]: team.id,
+        [`gameState/memberAnswers/${team.id}/${participant.id}`]: null
+      };
+      // 미배정 참가자는 이전 팀 답변 슬롯이 없음
+      if (participant.team !== UNASSIGNED_TEAM_ID) {
+        updates[`gameState/memberAnswers/${participant.team}/${participant.id}`] = null;
+      }
+      // 게임 중 주인공이 없는 팀에 들어가면 그 팀 라운드 시작
+      if (isRunning(state) && !state.currentHeroId[team.id]) {
+        Object.assign(updates, teamStartUpdates(state, config, team.id, [participant], rng));
+      }
+      return updates;
+    }
+
+    // 여러 참가자 팀 일괄 배정 (섞기 / 균형 맞추기) - 게임 시작 전에만
+    case 'ASSIGN_TEAMS': {
+      if (state.isStarted) return {};
+
+      const teamIds = getTeamIds(config);
+      const updates: RoomUpdates = {};
+      Object.entries(action.assignments).forEach(([userId, teamId]) => {
+        const participant = participants.find(p => p.id === userId);
+        if (!participant || participant.team === teamId || !teamIds.includes(teamId)) return;
+        updates[`participants/${userId}/team`] = teamId;
+      });
+      return updates;
+    }
+
+    // 팀 목록 변경 - 게임 중에도 가능
+    // 삭제된 팀의 팀원은 남은 팀으로 재배정하거나 미배정으로 두고, 그 팀의 게임 상태는 정리
+    case 'UPDATE_TEAMS': {
+      const newTeamIds = action.teams.map(t => t.id);
+      const removedTeamIds = getTeamIds(config).filter(id => !newTeamIds.includes(id));
+      const updates: RoomUpdates = {
+        'config/teams': action.teams,
+        'config/teamCount': action.teams.length
+      };
+
+      const assignments = action.orphanPolicy === 'reassign' ? assignOrphans(action.teams, participants) : {};
+      participants
+        .filter(p => !newTeamIds.includes(p.team))
+        .forEach(p => {
+          const teamId = assignments[p.id] ?? UNASSIGNED_TEAM_ID;
+          if (teamId !== p.team) updates[`participants/${p.id}/team`] = teamId;
+        });
+
+      removedTeamIds.forEach(team => {
+        TEAM_KEYED_FIELDS.forEach(field => {
+          updates[`gameState/${field}/${team}`] = null;
+        });
+      });
+
+      if (isRunning(state)) {
+        const moved = participants.map(p => (assignments[p.id] ? { ...p, team: assignments[p.id] } : p));
+        newTeamIds
+          .filter(team => !state.currentHeroId[team])
+          .forEach(team => {
+            Object.assign(updates, teamStartUpdates(state, config, team, getTeamMembers(moved, team), rng));
+          });
+      }
+
+      return updates;
+    }
+
+    default:
+      return {};
+  }
+};
+
+// 방에 randomSeed가 있으면 같은 상태에서 같은 동작은 항상 같은 난수를 쓰도록 (세션 재현용)
+// 기기마다 다른 now는 제외하고, 팀 동작은 라운드 번호를 함께 섞음
+export const getActionRng = (state: GameState, config: RoomConfig, action: GameAction): Rng => {
+  if (!config.randomSeed) return defaultRng;
+  const { now, ...rest } = action as GameAction & { now?: number };
+  const round = 'team' in action ? state.roundCount[action.team] || 0 : 0;
+  return createSeededRng(`${config.randomSeed}|${JSON.stringify(rest)}|${round}`);
+};
+
+// 게임 상태 전이 - 부수효과 없이 다음 상태와 저장할 업데이트를 계산
+export const reduceGame = (
+  state: GameState,
+  config: RoomConfig,
+  participants: User[],
+  action: GameAction,
+  rng: Rng = getActionRng(state, config, action)
+): EngineResult => {
+  const updates = buildUpdates(state, config, participants, action, rng);
+  if (Object.keys(updates).length === 0) {
+    return { state, updates };
+  }
+  return { state: applyGameUpdates(state, updates), updates };
+};
+
+// 주인공이 팀원 목록에서 사라졌거나 오프라인(unavailableIds)이고, 대신할 팀원이 있는 팀 목록
+export const findTeamsWithMissingHero = (state: GameState, participants: User[], unavailableIds: string[] = []): string[] =>
+  Object.entries(state.currentHeroId)
+    .filter(([team, heroId]) => {
+      const availableMembers = getTeamMembers(participants, team).filter(m => !unavailableIds.includes(m.id));
+      return heroId && availableMembers.length > 0 && !availableMembers.some(m => m.id === heroId);
+    })
+    .map(([team]) => team);
+
+// 주인공 교체를 맡을 팀원 - 관리자가 없어도 팀마다 한 기기만 교체하도록 (주인공을 뺀 접속 중인 팀원 중 ID가 가장 앞선 사람)
+export const findHeroReplacerId = (state: GameState, participants: User[], team: string, unavailableIds: string[] = []): string | null => {
+  const heroId = state.currentHeroId[team];
+  const ids = getTeamMembers(participants, team)
+    .map(m => m.id)
+    .filter(id => id !== heroId && !unavailableIds.includes(id))
+    .sort();
+  return ids[0] ?? null;
+};
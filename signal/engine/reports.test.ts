@@ -0,0 +1,134 @@
+
+import { describe, expect, it } from 'vitest';
+import { GameState, RoomConfig, User, UserRole } from '../types';
+import { ReportSource, buildReportSheets, rankParticipants, rankTeams, sheetToCsv } from './reports';
+import { createXlsx } from './xlsx';
+import { exportQuestions, parseQuestions } from './questionFormats';
+import { createInitialGameState } from './state';
+
+const config: RoomConfig = {
+  roomName: '결과 방',
+  teamCount: 2,
+  teams: [
+    { id: 't1', name: '1팀', color: '#ff0000' },
+    { id: 't2', name: '2팀', color: '#0000ff' }
+  ],
+  durationMinutes: 10,
+  questions: ['=HYPERLINK("http://example.com")', '평범한 질문']
+};
+
+const user = (id: string, name: string, team: string): User => ({ id, name, team, role: UserRole.TRAINEE, score: 0 });
+
+const source = (): ReportSource => {
+  const gameState: GameState = {
+    ...createInitialGameState(),
+    individualScores: { a: 200, b: 100, c: 200 },
+    answerStats: { a: { answered: 2, correct: 2, totalResponseMs: 3000, fastestCorrectMs: 1000, changes: 0 } }
+  };
+  return {
+    config,
+    gameState,
+    participants: [user('a', '+SUM(1,2)', 't1'), user('b', '홍길동', 't1'), user('c', '김철수', 't2')],
+    rounds: {
+      t1: {
+        0: {
+          round: 0,
+          team: 't1',
+          heroId: 'b',
+          question: config.questions[0],
+          questionIndex: 0,
+          offeredQuestions: config.questions,
+          heroAnswer: 'O',
+          memberAnswers: { a: 'O' },
+          awards: { a: { correct: 100, speed: 0, unanimity: 0, signal: 0, total: 100 } },
+          names: { a: '+SUM(1,2)', b: '홍길동' },
+          revealedAt: 5000
+        }
+      }
+    }
+  };
+};
+
+// 압축하지 않은 ZIP에서 파일 이름 -> 내용
+const readStoredZip = (zip: Uint8Array): Record<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    files[name] = decoder.decode(zip.subarray(start, start + size));
+    offset = start + size;
+  }
+  return files;
+};
+
+describe('순위', () => {
+  it('같은 점수는 같은 순위', () => {
+    expect(rankParticipants(source()).map(p => [p.user.id, p.rank])).toEqual([['a', 1], ['c', 1], ['b', 3]]);
+  });
+
+  it('팀 순위는 팀원 점수 합계', () => {
+    expect(rankTeams(source()).map(t => [t.teamId, t.total, t.average, t.rank])).toEqual([['t1', 300, 150, 1], ['t2', 200, 200, 2]]);
+  });
+});
+
+describe('sheetToCsv', () => {
+  it('쉼표 / 따옴표 / 줄바꿈이 있는 칸은 따옴표로 감쌈', () => {
+    const csv = sheetToCsv({ name: '시트', headers: ['이름', '메모'], rows: [['김, 철수', '말하길 "안녕"\n끝']] });
+    expect(csv).toBe('이름,메모\r\n"김, 철수","말하길 ""안녕""\n끝"');
+  });
+
+  it('수식으로 시작하는 글자 칸은 앞에 \'를 붙임 (숫자 칸은 그대로)', () => {
+    const csv = sheetToCsv({
+      name: '시트',
+      headers: ['값'],
+      rows: [['=1+1'], ['+1'], ['-1'], ['@SUM(A1)'], ['\t탭'], ['\r줄'], ['=A1,B1'], [-5], ['보통 값']]
+    });
+    expect(csv.split('\r\n')).toEqual([
+      '값', '\'=1+1', '\'+1', '\'-1', '\'@SUM(A1)', '\'\t탭', '"\'\r줄"', '"\'=A1,B1"', '-5', '보통 값'
+    ]);
+  });
+
+  it('결과 시트의 참가자 이름과 질문도 수식으로 내보내지 않음', () => {
+    const [people, , rounds] = buildReportSheets(source()).map(sheetToCsv);
+    expect(people).toContain('\'+SUM(1,2)');
+    expect(rounds).toContain('"\'=HYPERLINK(""http://example.com"")"');
+    expect(rounds.split('\r\n').slice(1).every(line => !/(^|,)[=+@]/.test(line))).toBe(true);
+  });
+
+  it('내보낸 질문 CSV를 다시 가져오면 원래 문구', () => {
+    const questions = [{ text: '-1은 음수일까?', category: '=기타', tags: ['+태그'] }];
+    const { questions: imported } = parseQuestions(exportQuestions(questions, 'csv'), 'csv');
+    expect(imported).toEqual(questions);
+  });
+});
+
+describe('createXlsx', () => {
+  it('시트마다 worksheet XML이 들어간 ZIP', () => {
+    const zip = createXlsx(buildReportSheets(source()));
+    const files = readStoredZip(zip);
+
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+      'xl/worksheets/sheet3.xml'
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="개인 점수" sheetId="1" r:id="rId1"/>');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="라운드 상세" sheetId="3" r:id="rId3"/>');
+  });
+
+  it('숫자는 숫자 칸, 글자는 inlineStr (XML 이스케이프)', () => {
+    const files = readStoredZip(createXlsx([{ name: '시트', headers: ['이름', '점수'], rows: [['<김&이>', 300]] }]));
+    const sheet = files['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">&lt;김&amp;이&gt;</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>300</v></c>');
+  });
+});
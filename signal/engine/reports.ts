@@ -0,0 +1,172 @@
+
+import { GameState, RoomConfig, RoundLog, User, UserRole } from '../types';
+import { Sheet } from './xlsx';
+import { escapeCsvCell } from './questionFormats';
+import { describeAward } from './scoring';
+import { listRounds } from './history';
+import { getTeamName, getTeams } from './teams';
+
+// 결과 내보내기에 쓰는 방 데이터 (진행 중인 방 / 보관된 세션 공통)
+export interface ReportSource {
+  config: RoomConfig;
+  gameState: GameState;
+  participants: User[];
+  rounds: RoundLog;
+}
+
+export interface ParticipantRank {
+  rank: number;
+  user: User;
+  teamName: string;
+  score: number;
+  answered: number;
+  correct: number;
+}
+
+export interface TeamRank {
+  rank: number;
+  teamId: string;
+  teamName: string;
+  color: string;
+  members: number;
+  total: number;
+  average: number;
+}
+
+// 점수 내림차순 순위 (같은 점수는 같은 순위)
+const withRanks = <T extends { score: number }>(items: T[]): (T & { rank: number })[] => {
+  const sorted = [...items].sort((a, b) => b.score - a.score);
+  return sorted.map((item, index) => ({
+    ...item,
+    rank: sorted.findIndex(other => other.score === item.score) + 1
+  }));
+};
+
+export const rankParticipants = ({ config, gameState, participants }: ReportSource): ParticipantRank[] =>
+  withRanks(
+    participants
+      .filter(p => p.role === UserRole.TRAINEE)
+      .map(user => ({
+        user,
+        teamName: getTeamName(config, user.team),
+        score: gameState.individualScores[user.id] || 0,
+        answered: gameState.answerStats[user.id]?.answered || 0,
+        correct: gameState.answerStats[user.id]?.correct || 0
+      }))
+  );
+
+export const rankTeams = (source: ReportSource): TeamRank[] => {
+  const people = rankParticipants(source);
+  return withRanks(
+    getTeams(source.config).map(team => {
+      const members = people.filter(p => p.user.team === team.id);
+      const total = members.reduce((sum, p) => sum + p.score, 0);
+      return {
+        teamId: team.id,
+        teamName: team.name,
+        color: team.color,
+        members: members.length,
+        total,
+        average: members.length > 0 ? Math.round(total / members.length) : 0,
+        score: total
+      };
+    })
+  ).map(({ score, ...team }) => team);
+};
+
+export const buildParticipantSheet = (source: ReportSource): Sheet => ({
+  name: '개인 점수',
+  headers: ['순위', '이름', '팀', '점수', '답변 수', '정답 수'],
+  rows: rankParticipants(source).map(p => [p.rank, p.user.name, p.teamName, p.score, p.answered, p.correct])
+});
+
+export const buildTeamSheet = (source: ReportSource): Sheet => ({
+  name: '팀 점수',
+  headers: ['순위', '팀', '인원', '총점', '평균'],
+  rows: rankTeams(source).map(t => [t.rank, t.teamName, t.members, t.total, t.average])
+});
+
+// 라운드 상세 - 라운드마다 주인공과 답을 낸 팀원 한 줄씩
+export const buildRoundSheet = ({ config, participants, rounds }: ReportSource): Sheet => {
+  const rows: (string | number)[][] = [];
+  listRounds(rounds).forEach(record => {
+    const nameOf = (userId: string) =>
+      participants.find(p => p.id === userId)?.name || record.names[userId] || '(나간 참가자)';
+    const base = [getTeamName(config, record.team), record.round + 1, record.question, record.heroAnswer];
+    const points = (userId: string) => record.awards[userId]?.total || 0;
+    const detail = (userId: string) => (record.awards[userId] ? describeAward(record.awards[userId]) : '');
+
+    rows.push([...base, nameOf(record.heroId), '주인공', record.heroAnswer, '-', points(record.heroId), detail(record.heroId)]);
+    Object.entries(record.memberAnswers).forEach(([userId, answer]) => {
+      rows.push([...base, nameOf(userId), '팀원', answer, answer === record.heroAnswer ? 'O' : 'X', points(userId), detail(userId)]);
+    });
+  });
+
+  return {
+    name: '라운드 상세',
+    headers: ['팀', '라운드', '질문', '주인공 답', '이름', '역할', '답', '정답', '점수', '점수 내역'],
+    rows
+  };
+};
+
+export const buildReportSheets = (source: ReportSource): Sheet[] => [
+  buildParticipantSheet(source),
+  buildTeamSheet(source),
+  buildRoundSheet(source)
+];
+
+// 시트 한 개를 CSV로 - 숫자는 그대로, 글자는 escapeCsvCell로 (이름 / 질문이 수식으로 실행되지 않도록)
+export const sheetToCsv = (sheet: Sheet): string =>
+  [sheet.headers, ...sheet.rows]
+    .map(row => row.map(value => (typeof value === 'number' ? String(value) : escapeCsvCell(value))).join(','))
+    .join('\r\n');
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// 인쇄용 한 장 요약 - 팀 순위와 개인 순위 (인원이 많으면 두 단으로 나눠 한 장에 맞춤)
+export const buildSummaryHtml = (source: ReportSource, printedAt: number): string => {
+  const teams = rankTeams(source);
+  const people = rankParticipants(source);
+  const date = new Date(printedAt);
+  const dateText = `${date.getFullYear()}.${date.getMonth() + 1}.${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`;
+  const half = Math.ceil(people.length / 2);
+  const columns = people.length > 20 ? [people.slice(0, half), people.slice(half)] : [people];
+
+  const teamRows = teams.map(t =>
+    `<tr><td>${t.rank}</td><td><span class="dot" style="background:${escapeHtml(t.color)}"></span>${escapeHtml(t.teamName)}</td><td>${t.members}</td><td>${t.total}</td><td>${t.average}</td></tr>`
+  ).join('');
+  const peopleTables = columns.map(column =>
+    '<table><thead><tr><th>순위</th><th>이름</th><th>팀</th><th>점수</th></tr></thead><tbody>'
+    + column.map(p => `<tr><td>${p.rank}</td><td>${escapeHtml(p.user.name)}</td><td>${escapeHtml(p.teamName)}</td><td>${p.score}</td></tr>`).join('')
+    + '</tbody></table>'
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(source.config.roomName)} 결과</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: sans-serif; font-size: 10pt; margin: 0; color: #000; }
+  h1 { font-size: 18pt; margin: 0 0 2mm; }
+  h2 { font-size: 12pt; margin: 6mm 0 2mm; border-bottom: 2px solid #000; }
+  .meta { color: #555; margin-bottom: 4mm; }
+  .columns { display: flex; gap: 6mm; align-items: flex-start; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #000; padding: 1mm 2mm; text-align: left; }
+  th { background: #eee; }
+  .dot { display: inline-block; width: 3mm; height: 3mm; margin-right: 2mm; border: 1px solid #000; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(source.config.roomName)}</h1>
+<p class="meta">${dateText} · 참가자 ${people.length}명 · ${teams.length}팀</p>
+<h2>팀 순위</h2>
+<table><thead><tr><th>순위</th><th>팀</th><th>인원</th><th>총점</th><th>평균</th></tr></thead><tbody>${teamRows}</tbody></table>
+<h2>개인 순위</h2>
+<div class="columns">${peopleTables}</div>
+</body>
+</html>`;
+};
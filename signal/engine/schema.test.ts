@@ -0,0 +1,100 @@
+
+import { describe, expect, it } from 'vitest';
+import { UserRole } from '../types';
+import { ROOM_SCHEMA_VERSION, getMigrationUpdates, migrateRoom, needsMigration, parseRoom } from './schema';
+
+// 버전 기록이 없던 예전 방 - 잘못된 초기화 필드, teams / deadline 없음, gameState 안의 roundHistory
+const legacyRoom = () => ({
+  config: { roomName: '예전 방', teamCount: 2, durationMinutes: 10, questions: ['질문 1', '질문 2'] },
+  gameState: {
+    isStarted: true,
+    startTime: 1000,
+    scores: { a: 100 },
+    heroAnswers: {},
+    individualScores: { a: 100 },
+    roundHistory: {
+      '팀 1': [{ round: 0, heroId: 'h', heroAnswer: 'O', questionIndex: 1, offeredQuestions: [0, 1], memberAnswers: { a: 'O' }, revealedAt: 5000 }]
+    }
+  },
+  participants: {
+    h: { id: 'h', name: '주인공', team: '팀 1', role: UserRole.TRAINEE, score: 0 },
+    a: { id: 'a', name: '팀원', team: '팀 1', role: UserRole.TRAINEE, score: 0 }
+  }
+});
+
+describe('migrateRoom', () => {
+  it('0 → 현재 버전: 예전 필드 제거, 팀과 종료 시각 저장, 라운드 기록을 rounds로', () => {
+    const room = migrateRoom(legacyRoom());
+
+    expect(room.schemaVersion).toBe(ROOM_SCHEMA_VERSION);
+    expect(room.gameState.scores).toBeUndefined();
+    expect(room.gameState.heroAnswers).toBeUndefined();
+    expect(room.gameState.roundHistory).toBeUndefined();
+    expect(room.gameState.individualScores).toEqual({ a: 100 });
+    expect(room.gameState.deadline).toBe(1000 + 10 * 60 * 1000);
+    expect(room.config.teams.map((t: { id: string }) => t.id)).toEqual(['팀 1', '팀 2']);
+
+    // 질문 인덱스는 설정의 문구로, 이름은 참가자 목록에서
+    expect(room.rounds['팀 1'][0]).toMatchObject({
+      heroId: 'h',
+      question: '질문 2',
+      offeredQuestions: ['질문 1', '질문 2'],
+      names: { h: '주인공', a: '팀원' }
+    });
+  });
+
+  it('원본은 바꾸지 않음', () => {
+    const raw = legacyRoom();
+    const before = JSON.stringify(raw);
+    migrateRoom(raw);
+    expect(JSON.stringify(raw)).toBe(before);
+  });
+
+  it('1 → 2: 이미 있는 rounds 기록을 덮어쓰지 않음', () => {
+    const raw = {
+      ...legacyRoom(),
+      schemaVersion: 1,
+      rounds: { '팀 1': { 0: { round: 0, team: '팀 1', heroId: 'x', heroAnswer: 'X', revealedAt: 1 } } }
+    };
+    expect(migrateRoom(raw).rounds['팀 1'][0].heroId).toBe('x');
+  });
+
+  it('최신 버전 방은 그대로', () => {
+    const room = migrateRoom(legacyRoom());
+    expect(needsMigration(room)).toBe(false);
+    expect(migrateRoom(room)).toEqual(room);
+  });
+});
+
+describe('getMigrationUpdates', () => {
+  it('바뀐 필드만 업데이트로 (지운 필드는 null)', () => {
+    const updates = getMigrationUpdates(legacyRoom());
+
+    expect(updates.schemaVersion).toBe(ROOM_SCHEMA_VERSION);
+    expect(updates['gameState/scores']).toBeNull();
+    expect(updates['gameState/roundHistory']).toBeNull();
+    expect(updates['gameState/deadline']).toBe(1000 + 10 * 60 * 1000);
+    expect(updates['rounds/팀 1']).toBeDefined();
+    expect('gameState/individualScores' in updates).toBe(false);
+    expect('config/roomName' in updates).toBe(false);
+  });
+});
+
+describe('parseRoom', () => {
+  it('설정이 없으면 null', () => {
+    expect(parseRoom({ gameState: {} })).toBeNull();
+    expect(parseRoom('room')).toBeNull();
+  });
+
+  it('형식이 맞지 않는 참가자와 라운드 기록은 버림', () => {
+    const raw = {
+      ...legacyRoom(),
+      participants: { ...legacyRoom().participants, broken: { name: 'ID 없음' } }
+    };
+    raw.gameState.roundHistory['팀 1'].push({ round: 1 } as never);
+
+    const room = parseRoom(raw);
+    expect(Object.keys(room!.participants)).toEqual(['h', 'a']);
+    expect(Object.keys(room!.rounds['팀 1'])).toEqual(['0']);
+  });
+});
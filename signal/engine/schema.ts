@@ -0,0 +1,163 @@
+
+import { GameState, Presence, RoomConfig, RoomRecord, User, UserRole } from '../types';
+import { RoomUpdates } from '../backend/types';
+import { cloneValue } from '../backend/paths';
+import { asRecord, createInitialGameState, isRecord, toGameState } from './state';
+import { convertRoundHistory, parseRoundLog } from './history';
+import { getTeams } from './teams';
+import { getDeadline } from './timer';
+
+// 저장된 방 데이터 구조 버전 - 구조가 바뀌면 올리고 MIGRATIONS에 변환을 추가
+// 0: 버전 기록이 없던 예전 방
+// 1: 라운드 기록을 gameState/roundHistory에 두던 방
+export const ROOM_SCHEMA_VERSION = 2;
+
+// 예전 resetRoom이 쓰던, GameState에 없는 필드
+const LEGACY_GAME_STATE_KEYS = ['scores', 'heroAnswers', 'roundResults', 'answeredInRound'];
+
+// 마이그레이션이 고칠 수 있는 최상위 필드 (필드 단위로 비교해 바뀐 것만 저장)
+const MIGRATED_SECTIONS = ['config', 'gameState', 'rounds'];
+
+type Migration = (room: Record<string, any>) => Record<string, any>;
+
+// MIGRATIONS[n]: 버전 n → n + 1 (원본은 바꾸지 않고 새 객체를 돌려줌)
+const MIGRATIONS: Migration[] = [
+  // 0 → 1: 잘못된 초기화 필드 제거, 팀 목록과 게임 종료 시각을 계산값 대신 저장값으로
+  (room) => {
+    const gameState: Record<string, any> = isRecord(room.gameState) ? { ...room.gameState } : {};
+    LEGACY_GAME_STATE_KEYS.forEach(key => delete gameState[key]);
+    if (!isRecord(room.config)) return { ...room, gameState };
+
+    const config = { ...room.config } as RoomConfig;
+    config.teams = getTeams(config);
+    config.teamCount = config.teams.length;
+
+    const state = toGameState(gameState);
+    if (state.deadline === null && state.startTime !== null) {
+      gameState.deadline = getDeadline(state, config);
+    }
+    return { ...room, config, gameState };
+  },
+
+  // 1 → 2: 팀별 라운드 기록을 gameState 밖의 방 단위 기록(rounds)으로 - 질문은 인덱스 대신 지금 설정의 문구로
+  (room) => {
+    if (!isRecord(room.gameState) || !('roundHistory' in room.gameState)) return room;
+    const { roundHistory, ...gameState } = room.gameState;
+    const config = parseRoomConfig(room.config);
+    const converted = config ? convertRoundHistory(roundHistory, config, parseParticipants(room.participants)) : {};
+    return { ...room, gameState, rounds: { ...converted, ...asRecord(room.rounds) } };
+  }
+];
+
+export const getSchemaVersion = (raw: unknown): number =>
+  isRecord(raw) && typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+
+export const needsMigration = (raw: unknown): boolean =>
+  isRecord(raw) && getSchemaVersion(raw) < ROOM_SCHEMA_VERSION;
+
+// 예전 버전 방을 현재 구조로 (이미 최신이면 그대로)
+export const migrateRoom = (raw: Record<string, any>): Record<string, any> => {
+  let room = raw;
+  for (let version = getSchemaVersion(raw); version < ROOM_SCHEMA_VERSION; version++) {
+    room = MIGRATIONS[version](room);
+  }
+  return { ...room, schemaVersion: Math.max(ROOM_SCHEMA_VERSION, getSchemaVersion(raw)) };
+};
+
+// 마이그레이션 결과를 저장할 업데이트 - 진행 중인 게임과 겹치지 않도록 바뀐 필드만
+export const getMigrationUpdates = (raw: Record<string, any>): RoomUpdates => {
+  const migrated = migrateRoom(raw);
+  const updates: RoomUpdates = { schemaVersion: migrated.schemaVersion };
+
+  MIGRATED_SECTIONS.forEach(section => {
+    const before = isRecord(raw[section]) ? raw[section] : {};
+    const after = isRecord(migrated[section]) ? migrated[section] : {};
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        updates[`${section}/${key}`] = after[key] ?? null;
+      }
+    });
+  });
+
+  return updates;
+};
+
+// 방 설정 검사 - 필수 값이 없으면 null, 형식이 맞지 않는 값은 기본값
+export const parseRoomConfig = (raw: unknown): RoomConfig | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.questions)) return null;
+  const durationMinutes = Number(raw.durationMinutes);
+  return {
+    ...raw,
+    roomName: typeof raw.roomName === 'string' ? raw.roomName : '',
+    teamCount: Number(raw.teamCount) || 0,
+    durationMinutes: Number.isFinite(durationMinutes) && durationMinutes > 0 ? durationMinutes : 10,
+    questions: raw.questions.filter((q: unknown): q is string => typeof q === 'string')
+  } as RoomConfig;
+};
+
+// 참가자 목록 검사 - id / 이름이 없는 항목은 버림
+export const parseParticipants = (raw: unknown): Record<string, User> => {
+  const participants: Record<string, User> = {};
+  if (!isRecord(raw)) return participants;
+
+  Object.entries(raw).forEach(([key, value]) => {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return;
+    participants[key] = {
+      ...value,
+      id: value.id,
+      name: value.name,
+      team: typeof value.team === 'string' ? value.team : '',
+      role: value.role === UserRole.ADMIN ? UserRole.ADMIN : UserRole.TRAINEE,
+      score: Number(value.score) || 0
+    } as User;
+  });
+  return participants;
+};
+
+// 저장된 방 데이터를 현재 구조로 읽기 (예전 버전은 메모리에서 마이그레이션) - 설정이 없으면 null
+export const parseRoom = (raw: unknown): RoomRecord | null => {
+  if (!isRecord(raw)) return null;
+  const room = migrateRoom(raw);
+  const config = parseRoomConfig(room.config);
+  if (!config) return null;
+
+  return {
+    schemaVersion: room.schemaVersion,
+    config,
+    gameState: toGameState(room.gameState),
+    participants: parseParticipants(room.participants),
+    rounds: parseRoundLog(room.rounds),
+    presence: isRecord(room.presence) ? room.presence as Record<string, Presence> : {},
+    createdAt: Number(room.createdAt) || 0,
+    ...(typeof room.ownerId === 'string' ? { ownerId: room.ownerId } : {}),
+    ...(isRecord(room.admins) ? { admins: room.admins } : {})
+  };
+};
+
+// 저장할 형태로 (undefined 제거)
+export const serializeGameState = (state: GameState): Record<string, any> => cloneValue(state);
+
+export const serializeRoom = (room: RoomRecord): Record<string, any> => cloneValue(room);
+
+// 새 방 - 현재 버전으로 기록, 만든 기기가 소유자 겸 관리자
+export const createRoomRecord = (config: RoomConfig, ownerId: string, createdAt: number): RoomRecord => ({
+  schemaVersion: ROOM_SCHEMA_VERSION,
+  config,
+  gameState: createInitialGameState(),
+  participants: {},
+  rounds: {},
+  presence: {},
+  createdAt,
+  ownerId,
+  admins: { [ownerId]: true }
+});
+
+// 방 초기화 - 설정과 관리자는 그대로, 참가자와 진행 기록은 모두 지움
+export const getResetRoomUpdates = (): RoomUpdates => ({
+  participants: null,
+  presence: null,
+  coordinator: null,
+  rounds: null,
+  gameState: serializeGameState(createInitialGameState()),
+  schemaVersion: ROOM_SCHEMA_VERSION
+});
@@ -0,0 +1,98 @@
+
+import { describe, expect, it } from 'vitest';
+import { GameState, RoomConfig, ScoringPolicy } from '../types';
+import { DEFAULT_SCORING_POLICY, MAX_AWARD_POINTS, describeAward, getScoringPolicy, scoreRound } from './scoring';
+import { createInitialGameState } from './state';
+
+const config = (scoring?: RoomConfig['scoring']): RoomConfig => ({
+  roomName: '테스트 방',
+  teamCount: 1,
+  durationMinutes: 10,
+  questions: [],
+  scoring
+});
+
+const policy = (overrides: Partial<ScoringPolicy> = {}): ScoringPolicy => ({ ...DEFAULT_SCORING_POLICY, ...overrides });
+
+// 주인공 h가 O를 고른 뒤 팀원들이 답한 상태 (answeredAt은 주인공 답변 후 경과 ms)
+const answeredState = (answers: Record<string, 'O' | 'X'>, answeredAt: Record<string, number> = {}): GameState => {
+  const state = createInitialGameState();
+  state.heroAnswer = { t: 'O' };
+  state.heroAnsweredAt = { t: 10_000 };
+  state.memberAnswers = { t: answers };
+  state.memberAnsweredAt = {
+    t: Object.fromEntries(Object.keys(answers).map(id => [id, 10_000 + (answeredAt[id] ?? 0)]))
+  };
+  return state;
+};
+
+describe('getScoringPolicy', () => {
+  it('설정이 없으면 기본값', () => {
+    expect(getScoringPolicy(config())).toEqual(DEFAULT_SCORING_POLICY);
+  });
+
+  it('범위를 벗어난 값은 0 ~ 상한으로 자르고 숫자가 아니면 기본값', () => {
+    const result = getScoringPolicy(config({
+      pointsPerCorrect: 10_000,
+      speedBonus: -5,
+      unanimityBonus: 'x' as unknown as number,
+      signalBonus: 12.7,
+      speedWindowSeconds: 0
+    }));
+    expect(result.pointsPerCorrect).toBe(MAX_AWARD_POINTS);
+    expect(result.speedBonus).toBe(0);
+    expect(result.unanimityBonus).toBe(DEFAULT_SCORING_POLICY.unanimityBonus);
+    expect(result.signalBonus).toBe(12);
+    expect(result.speedWindowSeconds).toBe(DEFAULT_SCORING_POLICY.speedWindowSeconds);
+  });
+});
+
+describe('scoreRound', () => {
+  it('주인공 답과 같은 답을 낸 팀원만 정답 점수', () => {
+    const awards = scoreRound(answeredState({ a: 'O', b: 'X' }), 't', 'h', ['a', 'b'], policy());
+    expect(awards).toEqual({ a: { correct: 100, speed: 0, unanimity: 0, signal: 0, total: 100 } });
+  });
+
+  it('주인공 답이 없으면 점수 없음', () => {
+    const state = answeredState({ a: 'O' });
+    state.heroAnswer = {};
+    expect(scoreRound(state, 't', 'h', ['a'], policy())).toEqual({});
+  });
+
+  it('속도 보너스는 제한 시간 안에서 선형으로 감소', () => {
+    const awards = scoreRound(
+      answeredState({ a: 'O', b: 'O', c: 'O' }, { a: 0, b: 5000, c: 10_000 }),
+      't', 'h', ['a', 'b', 'c'], policy({ speedBonus: 50, speedWindowSeconds: 10 })
+    );
+    expect(awards.a.speed).toBe(50);
+    expect(awards.b.speed).toBe(25);
+    expect(awards.c.speed).toBe(0);
+  });
+
+  it('기다린 팀원이 모두 맞히면 만장일치 보너스 (답을 안 낸 팀원이 있으면 없음)', () => {
+    const all = scoreRound(answeredState({ a: 'O', b: 'O' }), 't', 'h', ['a', 'b'], policy({ unanimityBonus: 30 }));
+    expect(all.a.unanimity).toBe(30);
+    expect(all.a.total).toBe(130);
+
+    const missing = scoreRound(answeredState({ a: 'O', b: 'O' }), 't', 'h', ['a', 'b', 'c'], policy({ unanimityBonus: 30 }));
+    expect(missing.a.unanimity).toBe(0);
+  });
+
+  it('시그널 보너스 - majority는 과반, all은 전원 정답일 때 주인공에게', () => {
+    const state = answeredState({ a: 'O', b: 'O', c: 'X' });
+    expect(scoreRound(state, 't', 'h', ['a', 'b', 'c'], policy({ signalBonus: 40 })).h)
+      .toEqual({ correct: 0, speed: 0, unanimity: 0, signal: 40, total: 40 });
+    expect(scoreRound(state, 't', 'h', ['a', 'b', 'c'], policy({ signalBonus: 40, signalThreshold: 'all' })).h).toBeUndefined();
+  });
+
+  it('주인공이 답 목록에 있어도 팀원으로 채점하지 않음', () => {
+    const awards = scoreRound(answeredState({ h: 'O', a: 'O' }), 't', 'h', ['a'], policy());
+    expect(Object.keys(awards)).toEqual(['a']);
+  });
+});
+
+describe('describeAward', () => {
+  it('받은 항목만 한 줄로', () => {
+    expect(describeAward({ correct: 100, speed: 30, unanimity: 0, signal: 0, total: 130 })).toBe('정답 +100 · 속도 +30');
+  });
+});
@@ -0,0 +1,98 @@
+
+import { GameState, PointAward, RoomConfig, ScoringPolicy } from '../types';
+
+// 정답 1회당 기본 점수
+export const POINTS_PER_CORRECT = 100;
+
+// 항목별 점수 상한 (보안 규칙의 한 라운드 최대 점수와 맞춤)
+export const MAX_AWARD_POINTS = 500;
+export const MAX_ROUND_POINTS = MAX_AWARD_POINTS * 3;
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  pointsPerCorrect: POINTS_PER_CORRECT,
+  signalBonus: 0,
+  signalThreshold: 'majority',
+  speedBonus: 0,
+  speedWindowSeconds: 10,
+  unanimityBonus: 0
+};
+
+const clampPoints = (value: unknown, fallback: number): number => {
+  const points = Math.floor(Number(value));
+  return Number.isFinite(points) ? Math.min(MAX_AWARD_POINTS, Math.max(0, points)) : fallback;
+};
+
+// 방 설정의 점수 규칙 (빠진 값은 기본값, 범위를 벗어난 값은 잘라냄)
+export const getScoringPolicy = (config: RoomConfig): ScoringPolicy => {
+  const scoring = config.scoring || {};
+  return {
+    pointsPerCorrect: clampPoints(scoring.pointsPerCorrect, DEFAULT_SCORING_POLICY.pointsPerCorrect),
+    signalBonus: clampPoints(scoring.signalBonus, DEFAULT_SCORING_POLICY.signalBonus),
+    signalThreshold: scoring.signalThreshold === 'all' ? 'all' : 'majority',
+    speedBonus: clampPoints(scoring.speedBonus, DEFAULT_SCORING_POLICY.speedBonus),
+    speedWindowSeconds: Math.max(1, Math.floor(Number(scoring.speedWindowSeconds) || DEFAULT_SCORING_POLICY.speedWindowSeconds)),
+    unanimityBonus: clampPoints(scoring.unanimityBonus, DEFAULT_SCORING_POLICY.unanimityBonus)
+  };
+};
+
+const emptyAward = (): PointAward => ({ correct: 0, speed: 0, unanimity: 0, signal: 0, total: 0 });
+
+// 주인공 선택 후 얼마나 빨리 맞혔는지에 따라 최대 speedBonus에서 선형으로 감소
+const speedPoints = (policy: ScoringPolicy, heroAnsweredAt: number | null, answeredAt: number | undefined): number => {
+  if (!policy.speedBonus || !heroAnsweredAt || !answeredAt) return 0;
+  const elapsed = Math.max(0, answeredAt - heroAnsweredAt);
+  const ratio = 1 - elapsed / (policy.speedWindowSeconds * 1000);
+  return ratio > 0 ? Math.round(policy.speedBonus * ratio) : 0;
+};
+
+// 결과 공개 시 점수 계산 - 점수를 받는 사람만 돌려줌 (userId -> 내역)
+// expectedIds: 답을 기다린 팀원 (주인공 / 오프라인 제외) - 전원 정답 / 다수 정답 판단 기준
+export const scoreRound = (
+  state: GameState,
+  team: string,
+  heroId: string | undefined,
+  expectedIds: string[],
+  policy: ScoringPolicy
+): Record<string, PointAward> => {
+  const heroAnswer = state.heroAnswer[team];
+  if (!heroAnswer) return {};
+
+  const answers = state.memberAnswers[team] || {};
+  const answeredAt = state.memberAnsweredAt[team] || {};
+  const heroAnsweredAt = state.heroAnsweredAt[team] ?? null;
+
+  // 답을 낸 사람은 오프라인이 되었더라도 포함
+  const voterIds = Array.from(new Set([...expectedIds, ...Object.keys(answers).filter(id => answers[id])]))
+    .filter(id => id !== heroId);
+  const correctIds = voterIds.filter(id => answers[id] === heroAnswer);
+  const unanimous = voterIds.length > 0 && correctIds.length === voterIds.length;
+
+  const awards: Record<string, PointAward> = {};
+  correctIds.forEach(id => {
+    const award = emptyAward();
+    award.correct = policy.pointsPerCorrect;
+    award.speed = speedPoints(policy, heroAnsweredAt, answeredAt[id]);
+    award.unanimity = unanimous ? policy.unanimityBonus : 0;
+    award.total = award.correct + award.speed + award.unanimity;
+    if (award.total > 0) awards[id] = award;
+  });
+
+  // 시그널 보너스 - 주인공의 신호가 팀에 잘 전달됨
+  const signalReached = policy.signalThreshold === 'all'
+    ? unanimous
+    : correctIds.length > voterIds.length / 2;
+  if (heroId && policy.signalBonus > 0 && signalReached) {
+    awards[heroId] = { ...emptyAward(), signal: policy.signalBonus, total: policy.signalBonus };
+  }
+
+  return awards;
+};
+
+// 점수 내역 한 줄 설명 (예: 정답 +100 · 속도 +30)
+export const describeAward = (award: PointAward): string =>
+  [
+    award.correct ? `정답 +${award.correct}` : '',
+    award.speed ? `속도 +${award.speed}` : '',
+    award.unanimity ? `만장일치 +${award.unanimity}` : '',
+    award.signal ? `시그널 +${award.signal}` : ''
+  ].filter(Boolean).join(' · ');
@@ -0,0 +1,68 @@
+
+import { GameState, ResetMode, RoomRecord, RoundLog, SessionArchive, User, UserRole } from '../types';
+import { RoomUpdates } from '../backend/types';
+import { cloneValue } from '../backend/paths';
+import { createInitialGameState, isRecord, toGameState } from './state';
+import { convertRoundHistory, countRecordedRounds, getSessionId, parseRoundLog } from './history';
+import { ROOM_SCHEMA_VERSION, getResetRoomUpdates, parseParticipants, parseRoomConfig, serializeGameState } from './schema';
+
+// 초기화하면 사라지는 것 요약 (확인 창 표시용)
+export interface ResetSummary {
+  participants: number; // 지워지는 참가자 수 (replay는 0)
+  scoredParticipants: number; // 점수가 있는 참가자 수
+  totalPoints: number;
+  rounds: number; // 결과를 공개한 라운드 수 (모든 팀 합계)
+  archived: boolean; // 보관 후 초기화하는지 (시작하지 않은 게임은 보관하지 않음)
+}
+
+export const summarizeReset = (mode: ResetMode, state: GameState, participants: User[], rounds: RoundLog): ResetSummary => {
+  const trainees = participants.filter(p => p.role === UserRole.TRAINEE);
+  const scores = Object.values(state.individualScores);
+  return {
+    participants: mode === 'replay' ? 0 : trainees.length,
+    scoredParticipants: scores.filter(score => score > 0).length,
+    totalPoints: scores.reduce((sum, score) => sum + score, 0),
+    rounds: countRecordedRounds(rounds),
+    archived: mode === 'newSession' && getSessionId(state) !== null
+  };
+};
+
+// 같은 팀으로 다시 하기 - 참가자 / 접속 상태는 그대로 두고 게임 상태와 라운드 기록만 초기값으로
+export const getReplayUpdates = (): RoomUpdates => ({
+  gameState: serializeGameState(createInitialGameState()),
+  rounds: null,
+  schemaVersion: ROOM_SCHEMA_VERSION
+});
+
+export const getResetUpdates = (mode: ResetMode): RoomUpdates =>
+  mode === 'replay' ? getReplayUpdates() : getResetRoomUpdates();
+
+// 지금 세션 보관본 - 설정 / 참가자 / 게임 상태 / 라운드 기록을 그대로 복사
+export const createSessionArchive = (room: RoomRecord, id: string, archivedAt: number): SessionArchive => ({
+  id,
+  archivedAt,
+  config: cloneValue(room.config),
+  gameState: cloneValue(room.gameState),
+  participants: cloneValue(room.participants),
+  rounds: cloneValue(room.rounds)
+});
+
+// 보관된 세션 읽기 - 설정이 없으면 null
+export const parseSessionArchive = (raw: unknown): SessionArchive | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') return null;
+  const config = parseRoomConfig(raw.config);
+  if (!config) return null;
+  const participants = parseParticipants(raw.participants);
+  // 스키마 1 때 보관된 세션은 라운드 기록이 gameState/roundHistory에 있음
+  const rounds = raw.rounds !== undefined || !isRecord(raw.gameState)
+    ? parseRoundLog(raw.rounds)
+    : convertRoundHistory(raw.gameState.roundHistory, config, participants);
+  return {
+    id: raw.id,
+    archivedAt: Number(raw.archivedAt) || 0,
+    config,
+    gameState: toGameState(raw.gameState),
+    participants,
+    rounds
+  };
+};
@@ -0,0 +1,88 @@
+
+import { GameState, User } from '../types';
+import { RoomUpdates } from '../backend/types';
+import { applyUpdates } from '../backend/paths';
+
+export const createInitialGameState = (): GameState => ({
+  isStarted: false,
+  isFinished: false,
+  startTime: null,
+  deadline: null,
+  pausedAt: null,
+  currentHeroId: {},
+  heroAnswer: {},
+  currentQuestionIndex: {},
+  questionHistory: {},
+  questionChoiceStart: {},
+  questionRerolls: {},
+  heroAnsweredAt: {},
+  memberAnsweredAt: {},
+  answerPausedMs: {},
+  memberAnswerChanges: {},
+  answersClosed: {},
+  roundAwards: {},
+  heroHistory: {},
+  usedQuestions: {},
+  individualScores: {},
+  answerStats: {},
+  memberAnswers: {},
+  roundCount: {},
+  roundAdvancedBy: {},
+  resultRevealed: {},
+  resultRevealedAt: {},
+  scoredRound: {}
+});
+
+export const isRecord = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// 맵 필드 - 객체가 아니면 빈 맵 (Firebase는 빈 맵을 저장하지 않음)
+export const asRecord = <T,>(value: unknown): Record<string, T> => (isRecord(value) ? value as Record<string, T> : {});
+
+const asBoolean = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+export const asTime = (value: unknown): number | null => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+// 저장된 값을 빠진 필드 없는 GameState로 변환 - 빠졌거나 형식이 맞지 않는 필드는 초기값
+export const toGameState = (raw: any): GameState => {
+  const initial = createInitialGameState();
+  if (!isRecord(raw)) return initial;
+  return {
+    isStarted: asBoolean(raw.isStarted, initial.isStarted),
+    isFinished: asBoolean(raw.isFinished, initial.isFinished),
+    startTime: asTime(raw.startTime),
+    deadline: asTime(raw.deadline),
+    pausedAt: asTime(raw.pausedAt),
+    currentHeroId: asRecord(raw.currentHeroId),
+    heroAnswer: asRecord(raw.heroAnswer),
+    currentQuestionIndex: asRecord(raw.currentQuestionIndex),
+    questionHistory: asRecord(raw.questionHistory),
+    questionChoiceStart: asRecord(raw.questionChoiceStart),
+    questionRerolls: asRecord(raw.questionRerolls),
+    heroAnsweredAt: asRecord(raw.heroAnsweredAt),
+    memberAnsweredAt: asRecord(raw.memberAnsweredAt),
+    answerPausedMs: asRecord(raw.answerPausedMs),
+    memberAnswerChanges: asRecord(raw.memberAnswerChanges),
+    answersClosed: asRecord(raw.answersClosed),
+    roundAwards: asRecord(raw.roundAwards),
+    heroHistory: asRecord(raw.heroHistory),
+    usedQuestions: asRecord(raw.usedQuestions),
+    individualScores: asRecord(raw.individualScores),
+    answerStats: asRecord(raw.answerStats),
+    memberAnswers: asRecord(raw.memberAnswers),
+    roundCount: asRecord(raw.roundCount),
+    roundAdvancedBy: asRecord(raw.roundAdvancedBy),
+    resultRevealed: asRecord(raw.resultRevealed),
+    resultRevealedAt: asRecord(raw.resultRevealedAt),
+    scoredRound: asRecord(raw.scoredRound)
+  };
+};
+
+// 방 기준 업데이트(gameState/...)를 상태에 적용한 결과
+export const applyGameUpdates = (state: GameState, updates: RoomUpdates): GameState => {
+  const room = applyUpdates({ gameState: state }, updates);
+  return toGameState(room?.gameState);
+};
+
+export const getTeamMembers = (participants: User[], team: string): User[] =>
+  participants.filter(p => p.team === team);
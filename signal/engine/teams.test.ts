@@ -0,0 +1,175 @@
+
+import { describe, expect, it } from 'vitest';
+import { RoomConfig, TeamConfig, User, UserRole } from '../types';
+import { createSeededRng } from './random';
+import {
+  assignOrphans,
+  createDefaultTeams,
+  createTeam,
+  findUnassignedParticipants,
+  getTeams,
+  isTeamFull,
+  pickTeamForJoin,
+  rebalanceTeamAssignments,
+  shuffleTeamAssignments,
+  UNASSIGNED_TEAM_ID,
+  validateTeams
+} from './teams';
+
+const teams: TeamConfig[] = [
+  { id: 'team_1', name: '1팀', color: '#ff0000' },
+  { id: 'team_2', name: '2팀', color: '#00ff00' },
+  { id: 'team_3', name: '3팀', color: '#0000ff', maxSize: 2 }
+];
+
+const member = (id: string, team: string): User => ({ id, name: `이름 ${id}`, team, role: UserRole.TRAINEE, score: 0 });
+
+const roomConfig = (overrides: Partial<RoomConfig> = {}): RoomConfig => ({
+  roomName: '테스트 방',
+  teamCount: teams.length,
+  teams,
+  durationMinutes: 10,
+  questions: [],
+  ...overrides
+});
+
+// 배정 결과를 반영한 팀별 인원
+const countByTeam = (members: User[], assignments: Record<string, string>): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  members.forEach(m => {
+    const team = assignments[m.id] ?? m.team;
+    counts[team] = (counts[team] || 0) + 1;
+  });
+  return counts;
+};
+
+describe('createTeam', () => {
+  it('기존 팀과 겹치지 않는 가장 작은 번호로 만듦', () => {
+    expect(createTeam([]).id).toBe('team_1');
+    expect(createTeam([teams[0], teams[2]]).id).toBe('team_2');
+    expect(createTeam(teams).id).toBe('team_4');
+  });
+
+  it('기본 팀 목록은 서로 다른 ID', () => {
+    expect(createDefaultTeams(3).map(t => t.id)).toEqual(['team_1', 'team_2', 'team_3']);
+  });
+});
+
+describe('getTeams', () => {
+  it('팀 목록이 없는 예전 방은 teamCount로 이름이 곧 ID인 팀을 만듦', () => {
+    const legacy: RoomConfig = { roomName: '예전 방', teamCount: 2, durationMinutes: 10, questions: [] };
+    expect(getTeams(legacy).map(t => t.id)).toEqual(['팀 1', '팀 2']);
+    expect(getTeams({ ...legacy, teams })).toBe(teams);
+  });
+});
+
+describe('validateTeams', () => {
+  it('팀 수, 빈 이름, 중복 이름, 잘못된 정원을 거부', () => {
+    expect(validateTeams(teams)).toBeNull();
+    expect(validateTeams([teams[0]])).not.toBeNull();
+    expect(validateTeams([teams[0], { ...teams[1], name: ' ' }])).not.toBeNull();
+    expect(validateTeams([teams[0], { ...teams[1], name: '1팀' }])).not.toBeNull();
+    expect(validateTeams([teams[0], { ...teams[1], maxSize: 0 }])).not.toBeNull();
+  });
+});
+
+describe('isTeamFull', () => {
+  it('정원이 있는 팀만 가득 찰 수 있음', () => {
+    const members = [member('a', 'team_3'), member('b', 'team_3'), member('c', 'team_1')];
+    expect(isTeamFull(teams[2], members)).toBe(true);
+    expect(isTeamFull(teams[2], members.slice(1))).toBe(false);
+    expect(isTeamFull(teams[0], members)).toBe(false);
+  });
+});
+
+describe('pickTeamForJoin', () => {
+  it('인원이 가장 적은 팀 (같으면 앞 순서)', () => {
+    expect(pickTeamForJoin(roomConfig(), [])).toBe('team_1');
+    expect(pickTeamForJoin(roomConfig(), [member('a', 'team_1')])).toBe('team_2');
+  });
+
+  it('돌아가며 배정하되 정원이 찬 팀은 건너뜀', () => {
+    const config = roomConfig({ teamAssignment: 'round-robin' });
+    const members = [member('a', 'team_1'), member('b', 'team_3'), member('c', 'team_3'), member('d', 'team_2'), member('e', 'team_1')];
+    // 5명이므로 3번째 팀 차례지만 가득 참
+    expect(pickTeamForJoin(config, members)).toBe('team_1');
+  });
+
+  it('모든 팀이 가득 차면 null', () => {
+    const full = teams.map(t => ({ ...t, maxSize: 1 }));
+    expect(pickTeamForJoin(roomConfig({ teams: full }), full.map((t, i) => member(`m${i}`, t.id)))).toBeNull();
+  });
+});
+
+describe('shuffleTeamAssignments', () => {
+  const members = Array.from({ length: 8 }, (_, i) => member(`m${i}`, 'team_1'));
+
+  it('모두를 인원 차이 1명 이하로 나누고 정원을 지킴', () => {
+    const assignments = shuffleTeamAssignments(roomConfig(), members, createSeededRng('shuffle'));
+    expect(Object.keys(assignments)).toHaveLength(8);
+
+    const counts = countByTeam(members, assignments);
+    expect(counts).toEqual({ team_1: 3, team_2: 3, team_3: 2 });
+  });
+
+  it('정원 때문에 남는 인원은 나머지 팀이 나눠 가짐', () => {
+    const more = [...members, member('m8', 'team_1'), member('m9', 'team_1')];
+    expect(countByTeam(more, shuffleTeamAssignments(roomConfig(), more, createSeededRng('shuffle')))).toEqual({ team_1: 4, team_2: 4, team_3: 2 });
+  });
+
+  it('같은 시드면 같은 결과', () => {
+    expect(shuffleTeamAssignments(roomConfig(), members, createSeededRng('a'))).toEqual(shuffleTeamAssignments(roomConfig(), members, createSeededRng('a')));
+  });
+});
+
+describe('rebalanceTeamAssignments', () => {
+  it('기존 팀원은 그대로 두고 많은 팀에서 적은 팀으로 필요한 만큼만 옮김', () => {
+    const members = ['a', 'b', 'c', 'd', 'e'].map(id => member(id, 'team_1')).concat(member('f', 'team_2'));
+    const assignments = rebalanceTeamAssignments(roomConfig(), members);
+
+    expect(Object.keys(assignments)).toHaveLength(3);
+    expect(Object.keys(assignments).every(id => ['c', 'd', 'e'].includes(id))).toBe(true);
+    expect(countByTeam(members, assignments)).toEqual({ team_1: 2, team_2: 2, team_3: 2 });
+  });
+
+  it('이미 균형이 맞으면 아무도 옮기지 않음', () => {
+    const members = [member('a', 'team_1'), member('b', 'team_1'), member('c', 'team_2'), member('d', 'team_3')];
+    expect(rebalanceTeamAssignments(roomConfig(), members)).toEqual({});
+  });
+
+  it('정원이 찬 팀으로는 옮기지 않음', () => {
+    const members = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => member(id, 'team_1')).concat(member('g', 'team_3'), member('h', 'team_3'));
+    const counts = countByTeam(members, rebalanceTeamAssignments(roomConfig(), members));
+    expect(counts).toEqual({ team_1: 3, team_2: 3, team_3: 2 });
+  });
+});
+
+describe('팀 수를 줄일 때 남는 팀원', () => {
+  // team_4 / team_5가 삭제되어 그 팀원이 팀 목록 밖에 남은 상태
+  const members = [
+    member('a', 'team_1'), member('b', 'team_1'),
+    member('c', 'team_2'),
+    member('d', 'team_3'),
+    member('e', 'team_4'), member('f', 'team_4'), member('g', 'team_5'),
+    member('h', UNASSIGNED_TEAM_ID)
+  ];
+
+  it('팀 목록 밖의 참가자를 찾음 (미배정 포함)', () => {
+    expect(findUnassignedParticipants(roomConfig(), members).map(m => m.id)).toEqual(['e', 'f', 'g', 'h']);
+  });
+
+  it('남은 팀 중 인원이 가장 적은 팀부터 한 명씩 배정하고 기존 팀원은 그대로 둠', () => {
+    const assignments = assignOrphans(teams, members);
+
+    expect(Object.keys(assignments).sort()).toEqual(['e', 'f', 'g', 'h']);
+    expect(countByTeam(members, assignments)).toEqual({ team_1: 3, team_2: 3, team_3: 2 });
+  });
+
+  it('정원이 모두 차면 나머지는 배정하지 않음', () => {
+    const small = teams.map(t => ({ ...t, maxSize: 2 }));
+    const assignments = assignOrphans(small, members);
+
+    expect(Object.keys(assignments)).toHaveLength(2);
+    expect(countByTeam(members, assignments)).toMatchObject({ team_1: 2, team_2: 2, team_3: 2 });
+  });
+});
@@ -0,0 +1,176 @@
+
+import { RoomConfig, TeamAssignmentMode, TeamConfig, User } from '../types';
+import { Rng, shuffle } from './random';
+
+export const MIN_TEAM_COUNT = 2;
+export const MAX_TEAM_COUNT = 10;
+
+// 팀 기본 색상 (순서대로 배정)
+export const TEAM_COLORS = [
+  '#818cf8', '#f472b6', '#34d399', '#fbbf24', '#60a5fa',
+  '#f87171', '#a78bfa', '#2dd4bf', '#fb923c', '#a3e635'
+];
+
+// 새 팀 만들기 - ID는 기존 팀과 겹치지 않는 가장 작은 번호 (이름을 바꿔도 유지)
+export const createTeam = (existing: TeamConfig[]): TeamConfig => {
+  const usedIds = new Set(existing.map(t => t.id));
+  let n = existing.length + 1;
+  for (let i = 1; i <= existing.length + 1; i++) {
+    if (!usedIds.has(`team_${i}`)) {
+      n = i;
+      break;
+    }
+  }
+  return {
+    id: `team_${n}`,
+    name: `팀 ${n}`,
+    color: TEAM_COLORS[(n - 1) % TEAM_COLORS.length]
+  };
+};
+
+export const createDefaultTeams = (count: number): TeamConfig[] => {
+  const teams: TeamConfig[] = [];
+  for (let i = 0; i < count; i++) {
+    teams.push(createTeam(teams));
+  }
+  return teams;
+};
+
+// 방의 팀 목록 - teams가 없는 예전 방은 teamCount로 '팀 N' 팀을 만들어 사용 (ID = 이름)
+export const getTeams = (config: RoomConfig): TeamConfig[] => {
+  if (config.teams && config.teams.length > 0) return config.teams;
+  return Array.from({ length: config.teamCount || 0 }, (_, i) => ({
+    id: `팀 ${i + 1}`,
+    name: `팀 ${i + 1}`,
+    color: TEAM_COLORS[i % TEAM_COLORS.length]
+  }));
+};
+
+export const getTeamIds = (config: RoomConfig): string[] => getTeams(config).map(t => t.id);
+
+export const findTeam = (config: RoomConfig, teamId: string): TeamConfig | undefined =>
+  getTeams(config).find(t => t.id === teamId);
+
+// 표시용 팀 이름 (목록에 없는 팀이면 ID 그대로)
+export const getTeamName = (config: RoomConfig | null, teamId: string): string =>
+  (config && findTeam(config, teamId)?.name) || teamId;
+
+export const countTeamMembers = (participants: User[], teamId: string): number =>
+  participants.filter(p => p.team === teamId).length;
+
+export const isTeamFull = (team: TeamConfig, participants: User[]): boolean =>
+  !!team.maxSize && countTeamMembers(participants, team.id) >= team.maxSize;
+
+// 팀 목록 검증 - 문제가 있으면 오류 메시지, 없으면 null
+export const validateTeams = (teams: TeamConfig[]): string | null => {
+  if (teams.length < MIN_TEAM_COUNT || teams.length > MAX_TEAM_COUNT) {
+    return `팀 수는 ${MIN_TEAM_COUNT}~${MAX_TEAM_COUNT}개 사이여야 합니다.`;
+  }
+  const names = teams.map(t => t.name.trim());
+  if (names.some(name => !name)) return '팀 이름을 입력해주세요.';
+  if (new Set(names).size !== names.length) return '팀 이름이 중복되었습니다.';
+  if (teams.some(t => t.maxSize !== undefined && (!Number.isInteger(t.maxSize) || t.maxSize < 1))) {
+    return '최대 인원은 1명 이상이어야 합니다.';
+  }
+  return null;
+};
+
+export const getTeamAssignmentMode = (config: RoomConfig): TeamAssignmentMode => config.teamAssignment || 'self';
+
+// 입장 시 자동 배정할 팀 - 정원이 찬 팀은 건너뜀 (들어갈 팀이 없으면 null)
+export const pickTeamForJoin = (config: RoomConfig, participants: User[]): string | null => {
+  const teams = getTeams(config);
+  const open = teams.filter(t => !isTeamFull(t, participants));
+  if (open.length === 0) return null;
+
+  if (getTeamAssignmentMode(config) === 'round-robin') {
+    const start = participants.length % teams.length;
+    for (let i = 0; i < teams.length; i++) {
+      const team = teams[(start + i) % teams.length];
+      if (!isTeamFull(team, participants)) return team.id;
+    }
+  }
+
+  // 인원이 가장 적은 팀 (같으면 앞 순서)
+  return open.reduce((smallest, t) =>
+    countTeamMembers(participants, t.id) < countTeamMembers(participants, smallest.id) ? t : smallest
+  ).id;
+};
+
+// 정원이 남은 팀 중 현재 인원이 가장 적은 팀
+const smallestOpenTeam = (teams: TeamConfig[], counts: Record<string, number>): TeamConfig | undefined =>
+  teams
+    .filter(t => !t.maxSize || (counts[t.id] || 0) < t.maxSize)
+    .reduce<TeamConfig | undefined>((smallest, t) =>
+      !smallest || (counts[t.id] || 0) < (counts[smallest.id] || 0) ? t : smallest, undefined);
+
+// 팀이 없는 참가자의 team 값 (삭제된 팀 ID를 남겨두면 같은 ID로 새 팀이 생길 때 섞여 들어감)
+export const UNASSIGNED_TEAM_ID = '';
+
+// 소속 팀이 팀 목록에 없는 참가자 (팀 삭제 후 관리자 배정을 기다리는 사람)
+export const findUnassignedParticipants = (config: RoomConfig, participants: User[]): User[] => {
+  const teamIds = getTeamIds(config);
+  return participants.filter(p => !teamIds.includes(p.team));
+};
+
+// 팀 목록 밖의 참가자를 한 명씩 인원이 가장 적은 팀에 배정 (정원이 모두 차면 배정하지 않음)
+export const assignOrphans = (teams: TeamConfig[], participants: User[]): Record<string, string> => {
+  const counts: Record<string, number> = {};
+  teams.forEach(t => {
+    counts[t.id] = countTeamMembers(participants, t.id);
+  });
+  const assignments: Record<string, string> = {};
+
+  participants
+    .filter(p => !teams.some(t => t.id === p.team))
+    .forEach(p => {
+      const team = smallestOpenTeam(teams, counts);
+      if (!team) return;
+      assignments[p.id] = team.id;
+      counts[team.id] += 1;
+    });
+
+  return assignments;
+};
+
+// 전체 섞기 - 무작위 순서로 한 명씩 가장 적은 팀에 배정 (userId -> teamId)
+export const shuffleTeamAssignments = (config: RoomConfig, participants: User[], rng: Rng): Record<string, string> => {
+  const teams = getTeams(config);
+  const counts: Record<string, number> = {};
+  const assignments: Record<string, string> = {};
+
+  shuffle(participants, rng).forEach(p => {
+    const team = smallestOpenTeam(teams, counts);
+    if (!team) return;
+    assignments[p.id] = team.id;
+    counts[team.id] = (counts[team.id] || 0) + 1;
+  });
+
+  return assignments;
+};
+
+// 균형 맞추기 - 인원 차이가 1명 이하가 될 때까지 가장 많은 팀에서 가장 적은 팀으로 최소 인원만 이동
+// 옮겨야 하는 참가자만 돌려줌 (userId -> teamId)
+export const rebalanceTeamAssignments = (config: RoomConfig, participants: User[]): Record<string, string> => {
+  const teams = getTeams(config);
+  const members: Record<string, User[]> = {};
+  teams.forEach(t => {
+    members[t.id] = participants.filter(p => p.team === t.id);
+  });
+  const counts = () => Object.fromEntries(teams.map(t => [t.id, members[t.id].length]));
+  const assignments: Record<string, string> = {};
+
+  for (;;) {
+    const current = counts();
+    const largest = teams.reduce((a, b) => (current[b.id] > current[a.id] ? b : a));
+    const smallest = smallestOpenTeam(teams, current);
+    if (!smallest || current[largest.id] - current[smallest.id] <= 1) break;
+
+    // 가장 늦게 들어온 사람부터 이동
+    const moved = members[largest.id].pop()!;
+    members[smallest.id].push(moved);
+    assignments[moved.id] = smallest.id;
+  }
+
+  return assignments;
+};
@@ -0,0 +1,158 @@
+
+import { describe, expect, it } from 'vitest';
+import { GameState, RoomConfig } from '../types';
+import { reduceGame } from './reducer';
+import { createInitialGameState } from './state';
+import {
+  FINISH_GRACE_MS,
+  REVEAL_COUNTDOWN_MS,
+  getAnswerDeadline,
+  getAnswerRemainingMs,
+  getDeadline,
+  getRemainingMs,
+  isAnswerWindowOver,
+  isPastDeadline,
+  shouldAutoFinish
+} from './timer';
+
+const config: RoomConfig = {
+  roomName: '테스트 방',
+  teamCount: 1,
+  durationMinutes: 10,
+  questions: ['질문 1'],
+  answerWindowSeconds: 30
+};
+
+const START = 1_000_000;
+const DEADLINE = START + 10 * 60 * 1000;
+
+// 10분 게임이 START에 시작된 상태
+const runningState = (overrides: Partial<GameState> = {}): GameState => ({
+  ...createInitialGameState(),
+  isStarted: true,
+  startTime: START,
+  deadline: DEADLINE,
+  ...overrides
+});
+
+// 주인공이 answeredAt에 답을 고른 상태
+const answeredState = (answeredAt: number, overrides: Partial<GameState> = {}): GameState => runningState({
+  heroAnswer: { team_1: 'O' },
+  heroAnsweredAt: { team_1: answeredAt },
+  resultRevealed: { team_1: false },
+  ...overrides
+});
+
+const pause = (state: GameState, now: number) => reduceGame(state, config, [], { type: 'PAUSE_TIMER', now }).state;
+const resume = (state: GameState, now: number) => reduceGame(state, config, [], { type: 'RESUME_TIMER', now }).state;
+
+describe('게임 종료 시각', () => {
+  it('저장된 종료 시각이 없는 예전 방은 시작 시각 + 진행 시간', () => {
+    expect(getDeadline(runningState({ deadline: null }), config)).toBe(DEADLINE);
+    expect(getDeadline(createInitialGameState(), config)).toBeNull();
+  });
+
+  it('일시정지 중에는 남은 시간이 줄지 않고 종료로 보지 않음', () => {
+    const paused = pause(runningState(), START + 60_000);
+
+    expect(getRemainingMs(paused, config, START + 60_000)).toBe(9 * 60 * 1000);
+    expect(getRemainingMs(paused, config, DEADLINE + 60_000)).toBe(9 * 60 * 1000);
+    expect(isPastDeadline(paused, config, DEADLINE + 60_000)).toBe(false);
+    expect(shouldAutoFinish(paused, config, DEADLINE + 60_000)).toBe(false);
+  });
+
+  it('재개하면 멈춘 시간만큼 늦게 끝남', () => {
+    const resumed = resume(pause(runningState(), START + 60_000), START + 120_000);
+
+    expect(getRemainingMs(resumed, config, START + 120_000)).toBe(9 * 60 * 1000);
+    expect(isPastDeadline(resumed, config, DEADLINE + 59_999)).toBe(false);
+    expect(isPastDeadline(resumed, config, DEADLINE + 60_000)).toBe(true);
+  });
+
+  it('연장하면 남은 시간이 늘어남 (일시정지 중에도)', () => {
+    const extend = (state: GameState) => reduceGame(state, config, [], { type: 'EXTEND_TIMER', minutes: 3 }).state;
+
+    expect(getRemainingMs(extend(runningState()), config, DEADLINE)).toBe(3 * 60 * 1000);
+    const paused = extend(pause(runningState(), START + 60_000));
+    expect(getRemainingMs(paused, config, DEADLINE)).toBe(12 * 60 * 1000);
+  });
+});
+
+describe('shouldAutoFinish', () => {
+  it('종료 시각이 되면 끝남', () => {
+    expect(shouldAutoFinish(runningState(), config, DEADLINE - 1)).toBe(false);
+    expect(shouldAutoFinish(runningState(), config, DEADLINE)).toBe(true);
+  });
+
+  it('결과 공개 후 카운트다운 중인 팀이 있으면 카운트다운이 끝날 때까지 기다림', () => {
+    const counting = runningState({ resultRevealed: { team_1: true }, resultRevealedAt: { team_1: DEADLINE - 2000 } });
+
+    expect(shouldAutoFinish(counting, config, DEADLINE)).toBe(false);
+    expect(shouldAutoFinish(counting, config, DEADLINE - 2000 + REVEAL_COUNTDOWN_MS)).toBe(true);
+  });
+
+  it('카운트다운이 남아 있어도 유예 시간이 지나면 끝남', () => {
+    const late = runningState({ resultRevealed: { team_1: true }, resultRevealedAt: { team_1: DEADLINE + FINISH_GRACE_MS - 1000 } });
+
+    expect(shouldAutoFinish(late, config, DEADLINE + FINISH_GRACE_MS - 1)).toBe(false);
+    expect(shouldAutoFinish(late, config, DEADLINE + FINISH_GRACE_MS)).toBe(true);
+  });
+
+  it('시작 전이나 이미 끝난 게임은 끝내지 않음', () => {
+    expect(shouldAutoFinish(createInitialGameState(), config, DEADLINE)).toBe(false);
+    expect(shouldAutoFinish(runningState({ isFinished: true }), config, DEADLINE)).toBe(false);
+  });
+});
+
+describe('답변 제한 시간과 일시정지', () => {
+  it('일시정지 중에는 답변 마감까지 남은 시간이 줄지 않음', () => {
+    const paused = pause(answeredState(START), START + 10_000);
+
+    expect(getAnswerRemainingMs(paused, config, 'team_1', START + 10_000)).toBe(20_000);
+    expect(getAnswerRemainingMs(paused, config, 'team_1', START + 60_000)).toBe(20_000);
+    expect(isAnswerWindowOver(paused, config, 'team_1', START + 60_000)).toBe(false);
+  });
+
+  it('재개하면 멈춘 시간만큼 답변 마감이 늦춰짐', () => {
+    const resumed = resume(pause(answeredState(START), START + 10_000), START + 70_000);
+
+    expect(resumed.answerPausedMs.team_1).toBe(60_000);
+    expect(getAnswerDeadline(resumed, config, 'team_1')).toBe(START + 90_000);
+    expect(isAnswerWindowOver(resumed, config, 'team_1', START + 89_999)).toBe(false);
+    expect(isAnswerWindowOver(resumed, config, 'team_1', START + 90_000)).toBe(true);
+  });
+
+  it('일시정지 중에 고른 답은 재개 시각부터 제한 시간이 흐름', () => {
+    const paused = pause(runningState(), START + 10_000);
+    const answered = reduceGame(paused, config, [], { type: 'SET_HERO_ANSWER', team: 'team_1', answer: 'X', now: START + 20_000 }).state;
+    const resumed = resume(answered, START + 50_000);
+
+    expect(resumed.answerPausedMs.team_1).toBe(30_000);
+    expect(getAnswerDeadline(resumed, config, 'team_1')).toBe(START + 80_000);
+  });
+
+  it('여러 번 멈추면 멈춘 시간을 모두 더함', () => {
+    const once = resume(pause(answeredState(START), START + 5_000), START + 15_000);
+    const twice = resume(pause(once, START + 20_000), START + 25_000);
+
+    expect(twice.answerPausedMs.team_1).toBe(15_000);
+    expect(getAnswerDeadline(twice, config, 'team_1')).toBe(START + 45_000);
+  });
+
+  it('결과를 공개한 팀과 답을 고르지 않은 팀은 늦추지 않음', () => {
+    const state = answeredState(START, { resultRevealed: { team_1: true } });
+    const resumed = resume(pause(state, START + 10_000), START + 70_000);
+    expect(resumed.answerPausedMs).toEqual({});
+
+    const idle = resume(pause(runningState(), START + 10_000), START + 70_000);
+    expect(idle.answerPausedMs).toEqual({});
+  });
+
+  it('주인공이 답을 다시 고르면 멈춘 시간 합계도 처음부터', () => {
+    const resumed = resume(pause(answeredState(START), START + 10_000), START + 70_000);
+    const reanswered = reduceGame(resumed, config, [], { type: 'SET_HERO_ANSWER', team: 'team_1', answer: 'X', now: START + 75_000 }).state;
+
+    expect(reanswered.answerPausedMs.team_1).toBeUndefined();
+    expect(getAnswerDeadline(reanswered, config, 'team_1')).toBe(START + 105_000);
+  });
+});
@@ -0,0 +1,88 @@
+
+import { AnswerTimeoutAction, GameState, RoomConfig } from '../types';
+
+// 결과 공개 후 다음 라운드로 넘어가기까지 대기 시간
+export const REVEAL_COUNTDOWN_MS = 10 * 1000;
+
+// 시간이 끝난 뒤에도 이미 공개된 라운드를 마무리할 수 있는 최대 유예 시간
+export const FINISH_GRACE_MS = REVEAL_COUNTDOWN_MS;
+
+// 게임 종료 시각 (예전 방은 시작 시각 + 진행 시간으로 계산)
+export const getDeadline = (state: GameState, config: RoomConfig): number | null => {
+  if (state.deadline !== null) return state.deadline;
+  if (state.startTime === null) return null;
+  return Number(state.startTime) + Number(config.durationMinutes) * 60 * 1000;
+};
+
+// 남은 시간 (일시정지 중이면 멈춘 시점 기준)
+export const getRemainingMs = (state: GameState, config: RoomConfig, now: number): number => {
+  const deadline = getDeadline(state, config);
+  if (deadline === null) return Number(config.durationMinutes) * 60 * 1000;
+  return Math.max(0, deadline - (state.pausedAt ?? now));
+};
+
+export const isPastDeadline = (state: GameState, config: RoomConfig, now: number): boolean => {
+  if (!state.isStarted || state.isFinished || state.pausedAt !== null) return false;
+  const deadline = getDeadline(state, config);
+  return deadline !== null && now >= deadline;
+};
+
+// 시간 종료 여부 - 결과 공개 후 카운트다운 중인 팀이 있으면 그 라운드가 끝날 때까지 (유예 시간 한도) 기다림
+export const shouldAutoFinish = (state: GameState, config: RoomConfig, now: number): boolean => {
+  if (!isPastDeadline(state, config, now)) return false;
+
+  const deadline = getDeadline(state, config) as number;
+  if (now >= deadline + FINISH_GRACE_MS) return true;
+
+  return !Object.entries(state.resultRevealed).some(([team, revealed]) => {
+    const revealedAt = state.resultRevealedAt[team];
+    return revealed && revealedAt && now < revealedAt + REVEAL_COUNTDOWN_MS;
+  });
+};
+
+// 팀원 답변 제한 시간 범위 (초)
+export const MIN_ANSWER_WINDOW_SECONDS = 5;
+export const MAX_ANSWER_WINDOW_SECONDS = 300;
+
+// 답변 제한 시간 (제한이 없으면 null)
+export const getAnswerWindowMs = (config: RoomConfig): number | null => {
+  const seconds = Math.floor(Number(config.answerWindowSeconds) || 0);
+  if (seconds <= 0) return null;
+  return Math.min(MAX_ANSWER_WINDOW_SECONDS, Math.max(MIN_ANSWER_WINDOW_SECONDS, seconds)) * 1000;
+};
+
+export const getAnswerTimeoutAction = (config: RoomConfig): AnswerTimeoutAction =>
+  config.answerTimeoutAction === 'close' ? 'close' : 'reveal';
+
+// 팀원 답변 마감 시각 - 주인공이 답을 고른 시각 + 그 뒤 일시정지됐던 시간 기준 (제한이 없거나 아직 안 골랐으면 null)
+export const getAnswerDeadline = (state: GameState, config: RoomConfig, team: string): number | null => {
+  const windowMs = getAnswerWindowMs(config);
+  const heroAnsweredAt = state.heroAnsweredAt[team];
+  if (windowMs === null || !state.heroAnswer[team] || !heroAnsweredAt) return null;
+  return heroAnsweredAt + windowMs + (state.answerPausedMs[team] || 0);
+};
+
+// 답변 마감까지 남은 시간 (일시정지 중이면 멈춘 시점 기준, 제한이 없으면 null)
+export const getAnswerRemainingMs = (state: GameState, config: RoomConfig, team: string, now: number): number | null => {
+  const deadline = getAnswerDeadline(state, config, team);
+  if (deadline === null) return null;
+  return Math.max(0, deadline - (state.pausedAt ?? now));
+};
+
+// 더 이상 답을 받지 않는지 (마감 처리됐거나 제한 시간이 지남)
+export const isAnswerWindowOver = (state: GameState, config: RoomConfig, team: string, now: number): boolean => {
+  if (state.answersClosed[team]) return true;
+  return getAnswerRemainingMs(state, config, team, now) === 0;
+};
+
+// 제한 시간이 지났는데 아직 공개(reveal) 또는 마감(close) 처리되지 않은 팀 - 일시정지 중에는 처리하지 않음
+export const findTeamsWithExpiredAnswers = (state: GameState, config: RoomConfig, now: number): string[] => {
+  if (!state.isStarted || state.isFinished || state.pausedAt !== null) return [];
+  const action = getAnswerTimeoutAction(config);
+  return Object.keys(state.heroAnswer).filter(team => {
+    if (state.resultRevealed[team]) return false;
+    if (action === 'close' && state.answersClosed[team]) return false;
+    const deadline = getAnswerDeadline(state, config, team);
+    return deadline !== null && now >= deadline;
+  });
+};
@@ -1,6 +1,7 @@
 
 import { initializeApp } from 'firebase/app';
-import { getDatabase, ref, set, get, onValue, update, remove, push } from 'firebase/database';
+import { getDatabase, ref, set, get, onValue, update, remove, push, runTransaction, onDisconnect } from 'firebase/database';
+import { getAuth, signInAnonymously } from 'firebase/auth';
 
 // Firebase 설정
 const firebaseConfig = {
@@ -15,5 +16,6 @@ const firebaseConfig = {
 
 const app = initializeApp(firebaseConfig);
 const database = getDatabase(app);
+const auth = getAuth(app);
 
-export { database, ref, set, get, onValue, update, remove, push };
+export { database, auth, ref, set, get, onValue, update, remove, push, runTransaction, onDisconnect, signInAnonymously };
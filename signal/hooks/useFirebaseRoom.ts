@@ -1,99 +1,182 @@
 
-import { useState, useEffect, useCallback } from 'react';
-import { database, ref, set, get, onValue, update, remove } from '../firebase';
-import { User, UserRole, RoomConfig, GameState } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RoomBackend, roomBackend } from '../backend';
+import { REVISION_KEY, applyUpdates, cloneValue, nextRevision } from '../backend/paths';
+import { hashAdminSecret, hashSetupSecret } from '../backend/adminSecret';
+import { User, UserRole, RoomConfig, GameState, Presence, PresenceState, CoordinatorLease, TeamConfig, TeamAssignmentMode, OrphanPolicy, QuestionItem, ScoringPolicy, ResetMode, SessionArchive, RoundLog } from '../types';
+import {
+  GameAction,
+  defaultRng,
+  claimCoordinatorLease,
+  holdsCoordinatorLease,
+  createInitialGameState,
+  findTeamsWithMissingHero,
+  findHeroReplacerId,
+  findTeam,
+  getTeamAssignmentMode,
+  getTeams,
+  isTeamFull,
+  pickTeamForJoin,
+  rebalanceTeamAssignments,
+  shuffleTeamAssignments,
+  validateTeams,
+  findUnavailableIds,
+  findTeamsWithExpiredAnswers,
+  getAnswerTimeoutAction,
+  getAnswerWindowMs,
+  reduceGame,
+  shouldAutoFinish,
+  toGameState,
+  toRoomQuestions,
+  parseRoom,
+  parseRoomConfig,
+  parseParticipants,
+  needsMigration,
+  getMigrationUpdates,
+  createRoomRecord,
+  serializeRoom,
+  getResetUpdates,
+  createSessionArchive,
+  parseSessionArchive,
+  getSessionId,
+  findUnloggedRounds,
+  sortSessions,
+  getScoringPolicy,
+  PRESENCE_HEARTBEAT_MS,
+  COORDINATOR_RENEW_MS
+} from '../engine';
+import { useServerClock } from './useServerClock';
 
 // 방 정보 타입
 export interface RoomInfo {
   id: string;
   roomName: string;
   teamCount: number;
+  teams: TeamConfig[];
+  teamSizes: Record<string, number>; // 팀별 현재 인원
+  teamAssignment: TeamAssignmentMode;
   createdAt: number;
   participantCount: number;
   isStarted: boolean;
+  // 소유자가 없는 예전 방 - 설정 비밀번호로 소유자를 등록해야 관리 가능
+  isLegacy: boolean;
 }
 
 interface UseFirebaseRoomReturn {
   // 상태
   roomConfig: RoomConfig | null;
   gameState: GameState;
+  rounds: RoundLog; // 결과를 공개한 라운드 기록 (팀 -> 라운드 번호)
   participants: User[];
+  presence: Record<string, Presence>; // 참가자별 접속 상태
   currentUser: User | null;
   isConnected: boolean;
   error: string | null;
   roomExists: boolean;
   currentRoomId: string | null;
   roomList: RoomInfo[];
+  sessionHistory: SessionArchive[]; // 보관된 지난 게임 (최근 것부터, 관리자만)
+  serverTimeOffset: number; // 서버 시간 - 로컬 시간 (ms)
 
   // 액션
-  createRoom: (config: RoomConfig) => Promise<string>;
+  createRoom: (config: RoomConfig, adminSecret: string) => Promise<string>;
   joinRoom: (roomId: string, user: Omit<User, 'id' | 'score'>) => Promise<boolean>;
-  joinRoomAsAdmin: (roomId: string) => Promise<boolean>;
+  joinRoomAsAdmin: (roomId: string, adminSecret: string) => Promise<boolean>;
+  claimLegacyRoom: (roomId: string, setupSecret: string, adminSecret: string) => Promise<boolean>;
   leaveRoom: () => void;
-  deleteRoom: (roomId: string) => Promise<void>;
+  deleteRoom: (roomId: string, adminSecret?: string) => Promise<boolean>;
   startGame: () => void;
   stopGame: () => void;
-  resetRoom: () => void;
+  resetRoom: (mode?: ResetMode) => Promise<boolean>; // 다시 하기 / 전체 초기화 / 새 세션
+  pauseTimer: () => void; // 게임 타이머 일시정지
+  resumeTimer: () => void; // 게임 타이머 재개
+  extendTimer: (minutes: number) => void; // 게임 시간 연장
 
   // 게임 액션
   setHeroAnswer: (team: string, answer: 'O' | 'X') => void;
   submitMemberAnswer: (odUserId: string, team: string, answer: 'O' | 'X') => void;
   changeQuestion: (team: string, direction: 'next' | 'prev' | number) => void;
+  rerollQuestions: (team: string) => void; // 주인공이 질문 선택지 새로 받기
   revealResult: (team: string) => void;
   nextRound: (team: string) => void;
   skipToNextHero: (team: string) => void; // 관리자용 순서넘기기
-  switchToAdmin: () => void; // 참가자에서 관리자로 전환
-  updateTeamCount: (newTeamCount: number) => Promise<boolean>; // 팀 수 변경
-  updateQuestions: (newQuestions: string[]) => Promise<boolean>; // 질문 수정
+  switchToAdmin: (adminSecret: string) => Promise<boolean>; // 참가자에서 관리자로 전환
+  updateTeams: (teams: TeamConfig[], orphanPolicy?: OrphanPolicy) => Promise<boolean>; // 팀 이름/색상/정원/개수 변경
+  updateTeamAssignment: (mode: TeamAssignmentMode) => Promise<boolean>; // 입장 시 팀 배정 방식 변경
+  moveParticipant: (userId: string, team: string) => Promise<boolean>; // 참가자 팀 이동
+  shuffleTeams: () => Promise<boolean>; // 전체 무작위 재배치 (게임 시작 전)
+  rebalanceTeams: () => Promise<boolean>; // 인원 균형 맞추기 (게임 시작 전)
+  updateQuestions: (newQuestions: QuestionItem[], settings?: QuestionSettings) => Promise<boolean>; // 질문 수정 (카테고리/태그 포함)
+  updateScoring: (scoring: ScoringPolicy) => Promise<boolean>; // 점수 규칙 수정
 
   refreshRoomList: () => Promise<void>;
+  refreshSessionHistory: () => Promise<void>;
+  deleteSession: (sessionId: string) => Promise<boolean>; // 보관된 게임 기록 삭제
   restoreSession: () => Promise<boolean>; // 세션 복원
   clearSession: () => void; // 세션 삭제
 }
 
-const initialGameState: GameState = {
-  isStarted: false,
-  isFinished: false,
-  startTime: null,
-  currentHeroId: {},
-  heroAnswer: {},
-  currentQuestionIndex: {},
-  questionHistory: {},
-  heroHistory: {},
-  individualScores: {},
-  memberAnswers: {},
-  roundCount: {},
-  resultRevealed: {},
-  resultRevealedAt: {}
-};
+// 질문 목록과 함께 바꾸는 출제 설정
+export type QuestionSettings = Pick<RoomConfig, 'questionChoiceCount' | 'heroRerolls' | 'balanceCategories'>;
+
+const initialGameState: GameState = createInitialGameState();
 
-export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
+const createAdminUser = (): User => ({
+  id: 'admin_' + Date.now(),
+  name: '관리자',
+  team: 'Admin',
+  role: UserRole.ADMIN,
+  score: 0
+});
+
+// backend를 넘기지 않으면 설정(ROOM_BACKEND)에 따라 선택된 기본 저장소 사용
+export const useFirebaseRoom = (backend: RoomBackend = roomBackend): UseFirebaseRoomReturn => {
   const [roomConfig, setRoomConfig] = useState<RoomConfig | null>(null);
   const [gameState, setGameState] = useState<GameState>(initialGameState);
+  const [rounds, setRounds] = useState<RoundLog>({});
   const [participants, setParticipants] = useState<User[]>([]);
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [roomExists, setRoomExists] = useState(false);
   const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
   const [roomList, setRoomList] = useState<RoomInfo[]>([]);
+  const { offset: serverTimeOffset, now: getServerTime } = useServerClock(backend);
+  const finishingRef = useRef(false);
+  // 주기적으로 도는 자동 진행 중 실패한 작업 - 성공할 때까지 같은 오류를 한 번만 기록
+  const failedAutoTasksRef = useRef<Set<string>>(new Set());
+  const [isCoordinator, setIsCoordinator] = useState(false);
+  const [schemaOutdated, setSchemaOutdated] = useState(false);
+  const [sessionHistory, setSessionHistory] = useState<SessionArchive[]>([]);
 
   // 방 목록 가져오기
   const refreshRoomList = useCallback(async () => {
     try {
-      const roomsRef = ref(database, 'rooms');
-      const snapshot = await get(roomsRef);
-
-      if (snapshot.exists()) {
-        const data = snapshot.val();
-        const rooms: RoomInfo[] = Object.entries(data).map(([id, roomData]: [string, any]) => ({
-          id,
-          roomName: roomData.config?.roomName || '이름 없음',
-          teamCount: roomData.config?.teamCount || 0,
-          createdAt: roomData.createdAt || 0,
-          participantCount: roomData.participants ? Object.keys(roomData.participants).length : 0,
-          isStarted: roomData.gameState?.isStarted || false
-        }));
+      const data = await backend.read('rooms');
+
+      if (data) {
+        const rooms: RoomInfo[] = Object.entries(data).map(([id, roomData]: [string, any]) => {
+          const teams = roomData.config ? getTeams(roomData.config) : [];
+          const roomParticipants = roomData.participants ? Object.values(roomData.participants) as User[] : [];
+          const teamSizes: Record<string, number> = {};
+          roomParticipants.forEach(p => {
+            teamSizes[p.team] = (teamSizes[p.team] || 0) + 1;
+          });
+
+          return {
+            id,
+            roomName: roomData.config?.roomName || '이름 없음',
+            teamCount: teams.length,
+            teams,
+            teamSizes,
+            teamAssignment: roomData.config ? getTeamAssignmentMode(roomData.config) : 'self',
+            createdAt: roomData.createdAt || 0,
+            participantCount: roomParticipants.length,
+            isStarted: roomData.gameState?.isStarted || false,
+            isLegacy: !roomData.ownerId
+          };
+        });
 
         rooms.sort((a, b) => b.createdAt - a.createdAt);
         setRoomList(rooms);
@@ -103,7 +186,7 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
     } catch (err) {
       console.error('Failed to fetch room list:', err);
     }
-  }, []);
+  }, [backend]);
 
   // 초기 방 목록 로드
   useEffect(() => {
@@ -116,50 +199,42 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
       setRoomExists(false);
       setRoomConfig(null);
       setGameState(initialGameState);
+      setRounds({});
       setParticipants([]);
+      setPresence({});
       return;
     }
 
-    const roomRef = ref(database, `rooms/${currentRoomId}`);
-
-    const unsubscribe = onValue(roomRef, (snapshot) => {
-      const data = snapshot.val();
+    const unsubscribe = backend.subscribe(`rooms/${currentRoomId}`, (data) => {
       if (data) {
         setIsConnected(true);
         setRoomExists(true);
-        if (data.config) setRoomConfig(data.config);
-
-        if (data.gameState) {
-          setGameState({
-            isStarted: data.gameState.isStarted ?? false,
-            isFinished: data.gameState.isFinished ?? false,
-            startTime: data.gameState.startTime ?? null,
-            currentHeroId: data.gameState.currentHeroId ?? {},
-            heroAnswer: data.gameState.heroAnswer ?? {},
-            currentQuestionIndex: data.gameState.currentQuestionIndex ?? {},
-            questionHistory: data.gameState.questionHistory ?? {},
-            heroHistory: data.gameState.heroHistory ?? {},
-            individualScores: data.gameState.individualScores ?? {},
-            memberAnswers: data.gameState.memberAnswers ?? {},
-            roundCount: data.gameState.roundCount ?? {},
-            resultRevealed: data.gameState.resultRevealed ?? {},
-            resultRevealedAt: data.gameState.resultRevealedAt ?? {}
-          });
-        } else {
-          setGameState(initialGameState);
-        }
+        setSchemaOutdated(needsMigration(data));
+
+        // 저장된 값을 스키마로 검사 (예전 버전 방은 읽을 때 현재 구조로 변환)
+        const room = parseRoom(data);
+        if (!room) return;
+
+        setRoomConfig(room.config);
+        setGameState(room.gameState);
+        setRounds(room.rounds);
+
+        const participantsList = Object.values(room.participants);
+        setParticipants(participantsList);
+        // 관리자가 팀을 옮기거나 팀이 삭제되면 내 팀도 따라감
+        setCurrentUser(prev => {
+          const me = prev && participantsList.find(p => p.id === prev.id);
+          return me && me.team !== prev.team ? { ...prev, team: me.team } : prev;
+        });
 
-        if (data.participants) {
-          const participantsList = Object.values(data.participants) as User[];
-          setParticipants(participantsList);
-        } else {
-          setParticipants([]);
-        }
+        setPresence(room.presence);
       } else {
         setRoomExists(false);
         setRoomConfig(null);
         setGameState(initialGameState);
+        setRounds({});
         setParticipants([]);
+        setPresence({});
         setCurrentRoomId(null);
         setCurrentUser(null);
       }
@@ -170,73 +245,269 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
     });
 
     return () => unsubscribe();
-  }, [currentRoomId]);
+  }, [backend, currentRoomId]);
 
-  // 주인공 이탈 감지 및 자동 교체
+  // 예전 버전 방 마이그레이션 저장 - 설정을 바꿀 수 있는 관리자만
   useEffect(() => {
-    if (!currentRoomId || !roomConfig || !gameState.isStarted || gameState.isFinished) return;
+    if (!schemaOutdated || !currentRoomId || currentUser?.role !== UserRole.ADMIN) return;
+
+    const roomPath = `rooms/${currentRoomId}`;
+    backend.read(roomPath).then(data => {
+      if (!needsMigration(data)) return;
+      return backend.update(roomPath, getMigrationUpdates(data));
+    }).catch(err => {
+      console.error('Failed to migrate room:', err);
+    });
+  }, [backend, schemaOutdated, currentRoomId, currentUser?.role]);
 
-    const checkAndReplaceHero = async () => {
-      const currentHeroIds = gameState.currentHeroId || {};
+  // 최신 방 데이터를 읽어 엔진으로 다음 상태를 계산하고 업데이트만 저장
+  const dispatch = useCallback(async (action: GameAction) => {
+    if (!currentRoomId) return;
 
-      for (const teamName of Object.keys(currentHeroIds)) {
-        const heroId = currentHeroIds[teamName];
-        const teamMembers = participants.filter(p => p.team === teamName);
+    const roomPath = `rooms/${currentRoomId}`;
+    const [rawConfig, rawGameState, participantsData] = await Promise.all([
+      backend.read(`${roomPath}/config`),
+      backend.read(`${roomPath}/gameState`),
+      backend.read(`${roomPath}/participants`)
+    ]);
+    const config = parseRoomConfig(rawConfig);
+    if (!config) return;
 
-        // 주인공이 팀원 목록에 없으면 자동 교체
-        if (heroId && teamMembers.length > 0 && !teamMembers.find(m => m.id === heroId)) {
-          console.log(`주인공 이탈 감지: ${teamName}, 자동 교체 실행`);
+    const allParticipants = Object.values(parseParticipants(participantsData));
+    const { updates } = reduceGame(toGameState(rawGameState), config, allParticipants, action);
+    if (Object.keys(updates).length === 0) return;
 
-          const heroHistory = gameState.heroHistory[teamName] || [];
-          const heroCountMap: Record<string, number> = {};
-          teamMembers.forEach(m => {
-            heroCountMap[m.id] = heroHistory.filter(id => id === m.id).length;
-          });
+    await backend.update(roomPath, updates);
+  }, [backend, currentRoomId]);
 
-          // 가장 적게 주인공 한 사람 선택
-          const minCount = Math.min(...teamMembers.map(m => heroCountMap[m.id] || 0));
-          const candidates = teamMembers.filter(m => (heroCountMap[m.id] || 0) === minCount);
-          const randomIdx = Math.floor(Math.random() * candidates.length);
-          const nextHero = candidates[randomIdx];
-
-          if (nextHero) {
-            // 새 질문 생성
-            const indices: number[] = [];
-            const used = new Set<number>();
-            while (indices.length < 4 && indices.length < roomConfig.questions.length) {
-              const idx = Math.floor(Math.random() * roomConfig.questions.length);
-              if (!used.has(idx)) {
-                used.add(idx);
-                indices.push(idx);
-              }
-            }
-
-            // 팀원 답변 초기화
-            const resetAnswers: Record<string, null> = {};
-            teamMembers.forEach(m => {
-              resetAnswers[m.id] = null;
-            });
-
-            const updates: Record<string, any> = {};
-            updates[`gameState/currentHeroId/${teamName}`] = nextHero.id;
-            updates[`gameState/heroAnswer/${teamName}`] = null;
-            updates[`gameState/questionHistory/${teamName}`] = indices;
-            updates[`gameState/currentQuestionIndex/${teamName}`] = 0;
-            updates[`gameState/memberAnswers/${teamName}`] = resetAnswers;
-            updates[`gameState/resultRevealed/${teamName}`] = false;
-            updates[`gameState/resultRevealedAt/${teamName}`] = null;
-
-            const roomRef = ref(database, `rooms/${currentRoomId}`);
-            await update(roomRef, updates);
-          }
-        }
+  // 결과를 공개한 팀 라운드 중 기록이 없는 것을 기록 - 이미 있으면 건드리지 않아 여러 번 실행해도 안전
+  const syncRoundLog = useCallback(async (state: GameState, config: RoomConfig, allParticipants: User[]) => {
+    if (!currentRoomId) return;
+
+    for (const record of findUnloggedRounds(state, config, allParticipants, {})) {
+      await backend.transaction<any>(`rooms/${currentRoomId}/rounds/${record.team}/${record.round}`, (current) =>
+        current === null ? cloneValue(record) : undefined
+      );
+    }
+  }, [backend, currentRoomId]);
+
+  // 비교 후 갱신 - 읽기 / 엔진 계산 / 쓰기를 백엔드 트랜잭션 하나로 처리하고, 엔진이 거부(업데이트 없음)하면 기록하지 않음
+  // 관리자는 gameState 전체를 트랜잭션으로, 참가자는 보안 규칙상 gameState 전체를 쓸 수 없으므로 바뀌는 경로만 transactUpdates로 기록
+  // (규칙도 라운드 번호 / 공개 여부를 다시 비교해 다른 기기가 먼저 바꾼 상태면 통째로 거부)
+  const transact = useCallback(async (action: GameAction): Promise<boolean> => {
+    if (!currentRoomId) return false;
+
+    const roomPath = `rooms/${currentRoomId}`;
+    const [rawConfig, participantsData] = await Promise.all([
+      backend.read(`${roomPath}/config`),
+      backend.read(`${roomPath}/participants`)
+    ]);
+    const config = parseRoomConfig(rawConfig);
+    if (!config) return false;
+
+    const allParticipants = Object.values(parseParticipants(participantsData));
+    if (currentUser?.role !== UserRole.ADMIN) {
+      // 라운드 기록(rounds)도 같은 쓰기에 포함
+      const result = await backend.transactUpdates<any>(roomPath, 'gameState', (current) => {
+        const { updates } = reduceGame(toGameState(current), config, allParticipants, action);
+        return Object.keys(updates).length === 0 ? undefined : updates;
+      });
+      return result.committed;
+    }
+
+    // 트랜잭션은 gameState만 바꿈 - 라운드 기록(rounds)은 커밋된 공개 상태로 syncRoundLog가 따로 기록
+    const result = await backend.transaction<any>(`${roomPath}/gameState`, (current) => {
+      // Firebase는 로컬 캐시가 없으면 null로 먼저 호출 후 서버 값으로 재시도
+      if (current === null) return current;
+
+      const { updates } = reduceGame(toGameState(current), config, allParticipants, action);
+      if (Object.keys(updates).length === 0) return undefined;
+      // 참가자의 transactUpdates와 같은 수정 번호를 올려 그쪽의 비교가 이 쓰기도 감지하도록
+      const next = applyUpdates({ gameState: current }, updates)?.gameState ?? null;
+      return next === null ? null : { ...next, [REVISION_KEY]: nextRevision(current) };
+    });
+
+    const committed = result.committed && result.value !== null;
+    if (committed && action.type === 'REVEAL_RESULT') {
+      // 기록에 실패해도 공개는 끝난 것 - 코디네이터가 다시 시도
+      try {
+        await syncRoundLog(toGameState(result.value), config, allParticipants);
+      } catch (err) {
+        console.error('Failed to record round:', err);
+        setError('라운드 기록 저장에 실패했습니다. 잠시 후 다시 시도합니다.');
+      }
+    }
+    return committed;
+  }, [backend, currentRoomId, currentUser?.role, syncRoundLog]);
+
+  // 코디네이터의 자동 진행 실행 - 오류는 잡아서 기록하고 다음 주기에 다시 시도
+  const runAutoTask = useCallback(async (task: string, run: () => Promise<unknown>) => {
+    try {
+      await run();
+      failedAutoTasksRef.current.delete(task);
+    } catch (err) {
+      if (failedAutoTasksRef.current.has(task)) return;
+      failedAutoTasksRef.current.add(task);
+      console.error(`Failed to ${task}:`, err);
+    }
+  }, []);
+
+  // 코디네이터 선출 - 임대를 가진 한 기기만 자동 진행을 맡음 (관리자가 있으면 관리자 우선)
+  useEffect(() => {
+    if (!currentRoomId || !currentUser) {
+      setIsCoordinator(false);
+      return;
+    }
+
+    const leasePath = `rooms/${currentRoomId}/coordinator`;
+    const holderId = currentUser.id;
+    const isAdmin = currentUser.role === UserRole.ADMIN;
+
+    const renew = async () => {
+      try {
+        const uid = await backend.getClientId();
+        const result = await backend.transaction<CoordinatorLease>(leasePath, (current) =>
+          claimCoordinatorLease(current, holderId, uid, isAdmin, getServerTime())
+        );
+        setIsCoordinator(result.committed && holdsCoordinatorLease(result.value, holderId, getServerTime()));
+      } catch (err) {
+        console.error('Failed to renew coordinator lease:', err);
+        setIsCoordinator(false);
+      }
+    };
+
+    renew();
+    const interval = setInterval(renew, COORDINATOR_RENEW_MS);
+
+    return () => {
+      clearInterval(interval);
+      setIsCoordinator(false);
+      // 내가 가진 임대면 바로 내려놓아 다른 기기가 기다리지 않도록
+      backend.transaction<CoordinatorLease>(leasePath, (current) =>
+        current && current.holderId === holderId ? null : undefined
+      ).catch(err => {
+        console.error('Failed to release coordinator lease:', err);
+      });
+    };
+  }, [backend, getServerTime, currentRoomId, currentUser?.id, currentUser?.role]);
+
+  // 주인공 이탈(퇴장 또는 오프라인 유예 시간 초과) 감지 및 자동 교체
+  // 관리자 코디네이터는 모든 팀, 참가자는 보안 규칙상 자기 팀만 넘길 수 있으므로 팀에서 교체를 맡은 한 명만 실행
+  // 교체 자체도 라운드 비교 트랜잭션이라 둘이 동시에 시도해도 한 번만 반영됨
+  useEffect(() => {
+    if (!currentRoomId || !currentUser || !roomConfig || !gameState.isStarted || gameState.isFinished) return;
+    const isAdminCoordinator = isCoordinator && currentUser.role === UserRole.ADMIN;
+    if (!isAdminCoordinator && currentUser.role !== UserRole.TRAINEE) return;
+
+    const checkAndReplaceHero = async () => {
+      const now = getServerTime();
+      const unavailableIds = findUnavailableIds(participants, presence, roomConfig, now);
+      const teams = findTeamsWithMissingHero(gameState, participants, unavailableIds).filter(teamName =>
+        isAdminCoordinator || findHeroReplacerId(gameState, participants, teamName, unavailableIds) === currentUser.id
+      );
+      for (const teamName of teams) {
+        await runAutoTask('replace hero', () => transact({
+          type: 'ADVANCE_ROUND',
+          team: teamName,
+          expectedRound: gameState.roundCount[teamName] || 0,
+          reason: 'replace',
+          actorId: currentUser.id,
+          now,
+          unavailableIds
+        }));
       }
     };
 
     // 약간의 딜레이 후 체크 (동시 접속 안정화)
     const timeoutId = setTimeout(checkAndReplaceHero, 1000);
-    return () => clearTimeout(timeoutId);
-  }, [currentRoomId, roomConfig, gameState.isStarted, gameState.isFinished, gameState.currentHeroId, participants]);
+    // 오프라인 유예 시간은 시간이 지나야 끝나므로 주기적으로 다시 확인
+    const interval = setInterval(checkAndReplaceHero, 5000);
+    return () => {
+      clearTimeout(timeoutId);
+      clearInterval(interval);
+    };
+  }, [transact, runAutoTask, getServerTime, isCoordinator, currentRoomId, currentUser, roomConfig, gameState, participants, presence]);
+
+  // 팀원 답변 제한 시간 종료 감지 - 코디네이터가 결과를 자동 공개하거나 답변을 마감
+  // 둘 다 라운드 비교 트랜잭션이라 여러 번 실행돼도 한 번만 반영됨
+  useEffect(() => {
+    if (!isCoordinator || !currentRoomId || !roomConfig || !gameState.isStarted || gameState.isFinished) return;
+    if (getAnswerWindowMs(roomConfig) === null) return;
+
+    const interval = setInterval(async () => {
+      const now = getServerTime();
+      const timeoutAction = getAnswerTimeoutAction(roomConfig);
+      for (const teamName of findTeamsWithExpiredAnswers(gameState, roomConfig, now)) {
+        const round = gameState.roundCount[teamName] || 0;
+        if (timeoutAction === 'close') {
+          await runAutoTask('close answers', () => transact({ type: 'CLOSE_ANSWERS', team: teamName, round, now }));
+        } else {
+          const unavailableIds = findUnavailableIds(participants, presence, roomConfig, now);
+          await runAutoTask('reveal result', () => transact({ type: 'REVEAL_RESULT', team: teamName, round, now, unavailableIds }));
+        }
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [transact, runAutoTask, getServerTime, isCoordinator, currentRoomId, roomConfig, gameState, participants, presence]);
+
+  // 결과를 공개했는데 라운드 기록이 빠진 팀이 있으면 다시 기록 - 코디네이터만 (라운드가 넘어가기 전까지 공개 때와 같은 기록)
+  useEffect(() => {
+    if (!isCoordinator || !roomConfig) return;
+    if (findUnloggedRounds(gameState, roomConfig, participants, rounds).length === 0) return;
+
+    syncRoundLog(gameState, roomConfig, participants).catch(err => {
+      console.error('Failed to record round:', err);
+      setError('라운드 기록 저장에 실패했습니다. 잠시 후 다시 시도합니다.');
+    });
+  }, [syncRoundLog, isCoordinator, roomConfig, gameState, participants, rounds]);
+
+  // 내 접속 상태 알리기 (참가자만) - 하트비트 + 연결이 끊기면 서버가 offline으로 기록
+  useEffect(() => {
+    if (!currentRoomId || !currentUser || currentUser.role !== UserRole.TRAINEE) return;
+
+    const presencePath = `rooms/${currentRoomId}/presence/${currentUser.id}`;
+    const statePath = `${presencePath}/state`;
+
+    const report = () => {
+      const state: PresenceState = document.visibilityState === 'hidden' ? 'idle' : 'online';
+      backend.set(presencePath, { state, lastSeen: getServerTime() }).catch(err => {
+        console.error('Failed to update presence:', err);
+      });
+    };
+
+    // 다시 연결될 때마다 onDisconnect를 새로 등록
+    const unsubscribe = backend.subscribeConnection(connected => {
+      if (!connected) return;
+      backend.setOnDisconnect(statePath, 'offline').then(report).catch(err => {
+        console.error('Failed to register presence:', err);
+      });
+    });
+    const heartbeat = setInterval(report, PRESENCE_HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', report);
+
+    return () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      document.removeEventListener('visibilitychange', report);
+      backend.cancelOnDisconnect(statePath).catch(err => {
+        console.error('Failed to cancel presence:', err);
+      });
+    };
+  }, [backend, getServerTime, currentRoomId, currentUser?.id, currentUser?.role]);
+
+  // 게임 시간 종료 감지 - 종료 시각이 지나면 코디네이터가 자동 종료
+  useEffect(() => {
+    if (!isCoordinator || !currentRoomId || !roomConfig || !gameState.isStarted || gameState.isFinished) return;
+
+    const interval = setInterval(async () => {
+      if (finishingRef.current || !shouldAutoFinish(gameState, roomConfig, getServerTime())) return;
+
+      finishingRef.current = true;
+      await runAutoTask('finish game', () => transact({ type: 'FINISH_GAME', now: getServerTime() }));
+      finishingRef.current = false;
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [transact, runAutoTask, getServerTime, isCoordinator, currentRoomId, roomConfig, gameState]);
 
   // 세션 저장 (먼저 정의해야 joinRoom에서 사용 가능)
   const saveSession = useCallback((roomId: string, user: User) => {
@@ -252,56 +523,32 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
     localStorage.removeItem('yja-signal-session');
   }, []);
 
-  // 랜덤 질문 인덱스 4개 생성
-  const generateQuestionHistory = useCallback((totalQuestions: number): number[] => {
-    const indices: number[] = [];
-    const used = new Set<number>();
-    while (indices.length < 4 && indices.length < totalQuestions) {
-      const idx = Math.floor(Math.random() * totalQuestions);
-      if (!used.has(idx)) {
-        used.add(idx);
-        indices.push(idx);
-      }
-    }
-    return indices;
-  }, []);
-
-  // 방 생성
-  const createRoom = useCallback(async (config: RoomConfig): Promise<string> => {
+  // 이 기기가 방 소유자 또는 인증된 관리자인지 확인
+  const checkRoomAdmin = useCallback(async (roomId: string): Promise<boolean> => {
+    const clientId = await backend.getClientId();
+    const [ownerId, isAdmin] = await Promise.all([
+      backend.read(`rooms/${roomId}/ownerId`),
+      backend.read(`rooms/${roomId}/admins/${clientId}`)
+    ]);
+    return ownerId === clientId || isAdmin === true;
+  }, [backend]);
+
+  // 방 관리자 비밀번호로 권한 얻기
+  const claimRoomAdmin = useCallback(async (roomId: string, adminSecret: string): Promise<boolean> => {
+    const clientId = await backend.getClientId();
+    return backend.claimAdmin(roomId, clientId, await hashAdminSecret(roomId, adminSecret));
+  }, [backend]);
+
+  // 방 생성 - 생성한 기기가 방 소유자가 되고 관리자 비밀번호 해시를 등록
+  const createRoom = useCallback(async (config: RoomConfig, adminSecret: string): Promise<string> => {
     const roomId = 'room_' + Date.now() + '_' + Math.random().toString(36).substr(2, 5);
-    const roomRef = ref(database, `rooms/${roomId}`);
-
-    const newGameState: GameState = {
-      isStarted: false,
-      isFinished: false,
-      startTime: null,
-      currentHeroId: {},
-      heroAnswer: {},
-      currentQuestionIndex: {},
-      questionHistory: {},
-      heroHistory: {},
-      individualScores: {},
-      memberAnswers: {},
-      roundCount: {},
-      resultRevealed: {},
-      resultRevealedAt: {}
-    };
 
     try {
-      await set(roomRef, {
-        config,
-        gameState: newGameState,
-        participants: {},
-        createdAt: Date.now()
-      });
+      const clientId = await backend.getClientId();
+      await backend.set(`rooms/${roomId}`, serializeRoom(createRoomRecord(config, clientId, getServerTime())));
+      await backend.set(`roomSecrets/${roomId}`, { hash: await hashAdminSecret(roomId, adminSecret) });
 
-      const adminUser: User = {
-        id: 'admin_' + Date.now(),
-        name: '관리자',
-        team: 'Admin',
-        role: UserRole.ADMIN,
-        score: 0
-      };
+      const adminUser = createAdminUser();
 
       setCurrentRoomId(roomId);
       setCurrentUser(adminUser);
@@ -314,26 +561,28 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
       setError('방 생성에 실패했습니다.');
       throw err;
     }
-  }, [refreshRoomList]);
-
-  // 기존 방에 관리자로 입장
-  const joinRoomAsAdmin = useCallback(async (roomId: string): Promise<boolean> => {
-    const roomRef = ref(database, `rooms/${roomId}`);
+  }, [backend, getServerTime, refreshRoomList]);
 
+  // 기존 방에 관리자로 입장 (방 관리자 비밀번호 필요)
+  const joinRoomAsAdmin = useCallback(async (roomId: string, adminSecret: string): Promise<boolean> => {
     try {
-      const snapshot = await get(roomRef);
-      if (!snapshot.exists()) {
+      const roomData = await backend.read(`rooms/${roomId}`);
+      if (!roomData) {
         setError('방이 존재하지 않습니다.');
         return false;
       }
 
-      const adminUser: User = {
-        id: 'admin_' + Date.now(),
-        name: '관리자',
-        team: 'Admin',
-        role: UserRole.ADMIN,
-        score: 0
-      };
+      if (!roomData.ownerId) {
+        setError('소유자가 없는 예전 방입니다. 설정 비밀번호로 먼저 관리자 등록을 해주세요.');
+        return false;
+      }
+
+      if (!(await claimRoomAdmin(roomId, adminSecret))) {
+        setError('관리자 비밀번호가 올바르지 않습니다.');
+        return false;
+      }
+
+      const adminUser = createAdminUser();
 
       setCurrentRoomId(roomId);
       setCurrentUser(adminUser);
@@ -345,53 +594,111 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
       setError('방 입장에 실패했습니다.');
       return false;
     }
-  }, []);
+  }, [backend, claimRoomAdmin]);
+
+  // 소유자가 없는 예전 방을 설정 비밀번호로 등록 - 이 기기가 소유자가 되고 새 관리자 비밀번호를 등록한 뒤 입장
+  const claimLegacyRoom = useCallback(async (roomId: string, setupSecret: string, adminSecret: string): Promise<boolean> => {
+    try {
+      const roomData = await backend.read(`rooms/${roomId}`);
+      if (!roomData) {
+        setError('방이 존재하지 않습니다.');
+        return false;
+      }
+      if (roomData.ownerId) {
+        setError('이미 소유자가 등록된 방입니다.');
+        return false;
+      }
+
+      const clientId = await backend.getClientId();
+      const claimed = await backend.claimLegacyRoom(
+        roomId,
+        clientId,
+        await hashSetupSecret(setupSecret),
+        await hashAdminSecret(roomId, adminSecret)
+      );
+      if (!claimed) {
+        setError('설정 비밀번호가 올바르지 않습니다.');
+        return false;
+      }
+
+      const adminUser = createAdminUser();
+
+      setCurrentRoomId(roomId);
+      setCurrentUser(adminUser);
+      setError(null);
+      await refreshRoomList();
+
+      return true;
+    } catch (err) {
+      console.error('Failed to claim legacy room:', err);
+      setError('예전 방 등록에 실패했습니다.');
+      return false;
+    }
+  }, [backend, refreshRoomList]);
 
   // 방 참가 (참가자) - 동명이인 처리 및 게임 진행 중 참여 지원
   const joinRoom = useCallback(async (roomId: string, userData: Omit<User, 'id' | 'score'>): Promise<boolean> => {
-    const roomRef = ref(database, `rooms/${roomId}`);
-
     try {
-      const snapshot = await get(roomRef);
-      if (!snapshot.exists()) {
+      const roomData = await backend.read(`rooms/${roomId}`);
+      if (!roomData) {
         setError('방이 존재하지 않습니다.');
         return false;
       }
 
-      const roomData = snapshot.val();
       const existingParticipants = roomData.participants ? Object.values(roomData.participants) as User[] : [];
+      const clientId = await backend.getClientId();
+
+      const config: RoomConfig | null = roomData.config || null;
+      const autoAssign = !!config && getTeamAssignmentMode(config) !== 'self';
 
-      // 같은 팀에 같은 이름이 있으면 기존 사람 삭제 (동명이인 처리)
-      const duplicateUser = existingParticipants.find(
-        p => p.team === userData.team && p.name === userData.name
+      // 같은 기기에서 같은 이름(직접 선택 방은 같은 팀까지)으로 다시 들어오면 기존 참가자로 복귀 (점수 유지)
+      // 다른 기기의 참가자 정보는 보안 규칙상 지우거나 점수를 옮길 수 없으므로 새 참가자로 등록
+      const returningUser = existingParticipants.find(
+        p => p.name === userData.name && p.uid === clientId && (autoAssign || p.team === userData.team)
       );
 
-      if (duplicateUser) {
-        // 기존 사용자 삭제
-        const duplicateRef = ref(database, `rooms/${roomId}/participants/${duplicateUser.id}`);
-        await remove(duplicateRef);
-        // 기존 사용자의 memberAnswers도 삭제
-        const duplicateAnswerRef = ref(database, `rooms/${roomId}/gameState/memberAnswers/${userData.team}/${duplicateUser.id}`);
-        await remove(duplicateAnswerRef);
+      // 팀 결정 - 복귀하면 기존 팀, 자동 배정 방이면 배정 규칙, 아니면 직접 고른 팀
+      let teamId = userData.team;
+      if (returningUser) {
+        teamId = returningUser.team;
+      } else if (autoAssign && config) {
+        const assignedTeam = pickTeamForJoin(config, existingParticipants);
+        if (!assignedTeam) {
+          setError('모든 팀의 정원이 가득 찼습니다.');
+          return false;
+        }
+        teamId = assignedTeam;
+      }
+
+      // 정원이 찬 팀에는 새로 들어갈 수 없음 (복귀는 허용)
+      const team = config ? findTeam(config, teamId) : undefined;
+      if (!team) {
+        setError('존재하지 않는 팀입니다.');
+        return false;
+      }
+      if (!returningUser && isTeamFull(team, existingParticipants)) {
+        setError(`${team.name} 정원이 가득 찼습니다.`);
+        return false;
       }
 
       const newUser: User = {
         ...userData,
-        id: 'user_' + Date.now() + '_' + Math.random().toString(36).substr(2, 5),
-        score: duplicateUser ? (roomData.gameState?.individualScores?.[duplicateUser.id] || 0) : 0 // 기존 점수 유지
+        team: team.id,
+        id: returningUser ? returningUser.id : 'user_' + Date.now() + '_' + Math.random().toString(36).substr(2, 5),
+        score: returningUser ? (roomData.gameState?.individualScores?.[returningUser.id] || 0) : 0,
+        uid: clientId
       };
 
-      const participantRef = ref(database, `rooms/${roomId}/participants/${newUser.id}`);
-      await set(participantRef, newUser);
+      await backend.set(`rooms/${roomId}/participants/${newUser.id}`, newUser);
 
-      // 개인 점수 초기화 (동명이인이면 기존 점수 이전)
-      const scoreRef = ref(database, `rooms/${roomId}/gameState/individualScores/${newUser.id}`);
-      await set(scoreRef, newUser.score);
+      // 개인 점수 초기화 (복귀한 참가자는 기존 점수 유지)
+      if (!returningUser) {
+        await backend.set(`rooms/${roomId}/gameState/individualScores/${newUser.id}`, 0);
+      }
 
-      // 게임이 진행 중이면 memberAnswers에 추가
-      if (roomData.gameState?.isStarted && !roomData.gameState?.isFinished) {
-        const memberAnswerRef = ref(database, `rooms/${roomId}/gameState/memberAnswers/${userData.team}/${newUser.id}`);
-        await set(memberAnswerRef, null);
+      // 게임이 진행 중이면 memberAnswers에 추가 (복귀한 참가자는 현재 답변 유지)
+      if (!returningUser && roomData.gameState?.isStarted && !roomData.gameState?.isFinished) {
+        await backend.set(`rooms/${roomId}/gameState/memberAnswers/${newUser.team}/${newUser.id}`, null);
       }
 
       // 세션 저장
@@ -407,406 +714,322 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
       setError('방 참가에 실패했습니다.');
       return false;
     }
-  }, [saveSession]);
+  }, [backend, saveSession]);
 
   // 방 나가기
   const leaveRoom = useCallback(() => {
     if (currentUser && currentRoomId) {
-      const participantRef = ref(database, `rooms/${currentRoomId}/participants/${currentUser.id}`);
-      remove(participantRef);
+      // 접속 상태를 먼저 지움 (보안 규칙이 참가자 정보로 본인 확인)
+      backend.remove(`rooms/${currentRoomId}/presence/${currentUser.id}`);
+      backend.remove(`rooms/${currentRoomId}/participants/${currentUser.id}`);
     }
     clearSession();
     setCurrentUser(null);
     setCurrentRoomId(null);
-  }, [currentUser, currentRoomId, clearSession]);
+  }, [backend, currentUser, currentRoomId, clearSession]);
 
-  // 방 삭제
-  const deleteRoom = useCallback(async (roomId: string) => {
+  // 방 삭제 (방 관리자만 가능 - 비밀번호를 넘기면 먼저 인증)
+  const deleteRoom = useCallback(async (roomId: string, adminSecret?: string): Promise<boolean> => {
     try {
-      const roomRef = ref(database, `rooms/${roomId}`);
-      await remove(roomRef);
+      const authorized = adminSecret !== undefined
+        ? await claimRoomAdmin(roomId, adminSecret)
+        : await checkRoomAdmin(roomId);
+      if (!authorized) {
+        setError('방 관리자만 삭제할 수 있습니다.');
+        return false;
+      }
+
+      await backend.remove(`roomSecrets/${roomId}`);
+      await backend.remove(`adminClaims/${roomId}`);
+      await backend.remove(`roomSessions/${roomId}`);
+      await backend.remove(`rooms/${roomId}`);
       await refreshRoomList();
 
       if (currentRoomId === roomId) {
         setCurrentUser(null);
         setCurrentRoomId(null);
       }
+      return true;
     } catch (err) {
       console.error('Failed to delete room:', err);
       setError('방 삭제에 실패했습니다.');
+      return false;
     }
-  }, [currentRoomId, refreshRoomList]);
+  }, [backend, currentRoomId, refreshRoomList, claimRoomAdmin, checkRoomAdmin]);
+
+  // 지금 세션 보관 - 시작하지 않은 게임은 보관할 것이 없고, 같은 게임(세션 ID)이 이미 보관돼 있으면 그대로 둠
+  const archiveSession = useCallback(async (roomId: string): Promise<void> => {
+    const room = parseRoom(await backend.read(`rooms/${roomId}`));
+    if (!room) throw new Error('Room not found');
 
-  // 방 초기화 (방은 유지하고 참가자와 게임 상태만 초기화)
-  const resetRoom = useCallback(async () => {
+    const sessionId = getSessionId(room.gameState);
+    if (!sessionId) return;
+    const archive = cloneValue(createSessionArchive(room, sessionId, getServerTime()));
+    await backend.transaction(`roomSessions/${roomId}/${sessionId}`, current => (current ? undefined : archive));
+  }, [backend, getServerTime]);
+
+  // 보관된 세션 목록 (방 관리자만 읽을 수 있음)
+  const refreshSessionHistory = useCallback(async () => {
     if (!currentRoomId) return;
+    try {
+      const data = await backend.read(`roomSessions/${currentRoomId}`);
+      const sessions = Object.values(data || {})
+        .map(parseSessionArchive)
+        .filter((session): session is SessionArchive => session !== null);
+      setSessionHistory(sortSessions(sessions));
+    } catch (err) {
+      console.error('Failed to load session history:', err);
+      setError('게임 기록을 불러오지 못했습니다.');
+    }
+  }, [backend, currentRoomId]);
 
+  const deleteSession = useCallback(async (sessionId: string): Promise<boolean> => {
+    if (!currentRoomId) return false;
     try {
-      const roomRef = ref(database, `rooms/${currentRoomId}`);
-
-      // 참가자 삭제 및 게임 상태 초기화
-      await update(roomRef, {
-        participants: null,
-        gameState: {
-          isStarted: false,
-          isFinished: false,
-          startTime: null,
-          currentHeroId: {},
-          heroHistory: {},
-          scores: {},
-          currentQuestionIndex: {},
-          questionHistory: {},
-          heroAnswers: {},
-          memberAnswers: {},
-          roundResults: {},
-          answeredInRound: {}
-        }
+      await backend.remove(`roomSessions/${currentRoomId}/${sessionId}`);
+      setSessionHistory(prev => prev.filter(session => session.id !== sessionId));
+      return true;
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+      setError('게임 기록 삭제에 실패했습니다.');
+      return false;
+    }
+  }, [backend, currentRoomId]);
+
+  // 게임이 끝나면 관리자 기기가 결과를 자동 보관 (세션마다 한 번)
+  const archivedSessionRef = useRef<string | null>(null);
+  useEffect(() => {
+    const sessionId = getSessionId(gameState);
+    if (!currentRoomId || !gameState.isFinished || !sessionId || currentUser?.role !== UserRole.ADMIN) return;
+    if (archivedSessionRef.current === sessionId) return;
+    archivedSessionRef.current = sessionId;
+
+    archiveSession(currentRoomId)
+      .then(() => refreshSessionHistory())
+      .catch(err => {
+        console.error('Failed to archive session:', err);
+        archivedSessionRef.current = null;
       });
+  }, [archiveSession, refreshSessionHistory, currentRoomId, gameState, currentUser?.role]);
+
+  // 방 초기화 (방과 설정은 유지)
+  // - replay: 참가자는 그대로 두고 점수와 진행 기록만 지움
+  // - full: 참가자와 게임 상태 모두 지움
+  // - newSession: 지금 세션을 roomSessions/{roomId}에 보관한 뒤 full과 같이 지움
+  const resetRoom = useCallback(async (mode: ResetMode = 'full'): Promise<boolean> => {
+    if (!currentRoomId) return false;
 
-      // 관리자 상태는 유지 (currentUser가 관리자면 유지)
-      if (currentUser?.role !== UserRole.ADMIN) {
+    try {
+      if (!(await checkRoomAdmin(currentRoomId))) {
+        setError('방 관리자만 초기화할 수 있습니다.');
+        return false;
+      }
+
+      if (mode === 'newSession') {
+        await archiveSession(currentRoomId);
+      }
+
+      await backend.update(`rooms/${currentRoomId}`, getResetUpdates(mode));
+
+      // 관리자 상태는 유지 (참가자를 지우는 초기화면 참가자 세션도 정리)
+      if (mode !== 'replay' && currentUser?.role !== UserRole.ADMIN) {
         setCurrentUser(null);
         clearSession();
       }
+      return true;
     } catch (err) {
       console.error('Failed to reset room:', err);
       setError('방 초기화에 실패했습니다.');
+      return false;
     }
-  }, [currentRoomId, currentUser, clearSession]);
+  }, [backend, archiveSession, currentRoomId, currentUser, clearSession, checkRoomAdmin]);
 
   // 게임 시작 - 각 팀별로 랜덤 주인공 선정
+  // 끝난 게임을 다시 시작하면 라운드 기록이 지워지므로 먼저 보관
   const startGame = useCallback(async () => {
     if (!currentRoomId || !roomConfig) return;
-
-    const roomRef = ref(database, `rooms/${currentRoomId}`);
-    const snapshot = await get(roomRef);
-    if (!snapshot.exists()) return;
-
-    const data = snapshot.val();
-    const allParticipants = data.participants ? Object.values(data.participants) as User[] : [];
-
-    const newHeroIds: Record<string, string> = {};
-    const newHeroHistory: Record<string, string[]> = {};
-    const newQuestionHistory: Record<string, number[]> = {};
-    const newCurrentQuestionIndex: Record<string, number> = {};
-    const newMemberAnswers: Record<string, Record<string, null>> = {};
-
-    for (let i = 1; i <= roomConfig.teamCount; i++) {
-      const teamName = `팀 ${i}`;
-      const teamMembers = allParticipants.filter((p: User) => p.team === teamName);
-
-      if (teamMembers.length > 0) {
-        // 랜덤으로 첫 주인공 선정
-        const randomIdx = Math.floor(Math.random() * teamMembers.length);
-        const firstHero = teamMembers[randomIdx];
-        newHeroIds[teamName] = firstHero.id;
-        newHeroHistory[teamName] = [firstHero.id];
-
-        // 질문 4개 생성
-        const questions = generateQuestionHistory(roomConfig.questions.length);
-        newQuestionHistory[teamName] = questions;
-        newCurrentQuestionIndex[teamName] = 0;
-
-        // 팀원 답변 초기화
-        newMemberAnswers[teamName] = {};
-        teamMembers.forEach((m: User) => {
-          newMemberAnswers[teamName][m.id] = null;
-        });
+    if (gameState.isFinished) {
+      try {
+        await archiveSession(currentRoomId);
+      } catch (err) {
+        console.error('Failed to archive session:', err);
       }
     }
-
-    const gameStateRef = ref(database, `rooms/${currentRoomId}/gameState`);
-    await update(gameStateRef, {
-      isStarted: true,
-      isFinished: false,
-      startTime: Date.now(),
-      currentHeroId: newHeroIds,
-      heroAnswer: {},
-      currentQuestionIndex: newCurrentQuestionIndex,
-      questionHistory: newQuestionHistory,
-      heroHistory: newHeroHistory,
-      memberAnswers: newMemberAnswers,
-      roundCount: {}
-    });
-  }, [currentRoomId, roomConfig, generateQuestionHistory]);
+    await dispatch({ type: 'START_GAME', now: getServerTime() });
+  }, [dispatch, archiveSession, getServerTime, currentRoomId, roomConfig, gameState.isFinished]);
 
   // 게임 종료
   const stopGame = useCallback(() => {
-    if (!currentRoomId) return;
-    const gameStateRef = ref(database, `rooms/${currentRoomId}/gameState`);
-    update(gameStateRef, {
-      isStarted: false,
-      isFinished: true
-    });
-  }, [currentRoomId]);
+    dispatch({ type: 'STOP_GAME' });
+  }, [dispatch]);
+
+  // 타이머 일시정지 / 재개 / 연장
+  const pauseTimer = useCallback(() => {
+    transact({ type: 'PAUSE_TIMER', now: getServerTime() });
+  }, [transact, getServerTime]);
+
+  const resumeTimer = useCallback(() => {
+    transact({ type: 'RESUME_TIMER', now: getServerTime() });
+  }, [transact, getServerTime]);
 
-  // 주인공 답변 설정
+  const extendTimer = useCallback((minutes: number) => {
+    transact({ type: 'EXTEND_TIMER', minutes });
+  }, [transact]);
+
+  // 주인공 답변 설정 (팀원 답변 초기화) - 결과 공개와 겹치지 않도록 트랜잭션으로
   const setHeroAnswer = useCallback((team: string, answer: 'O' | 'X') => {
-    if (!currentRoomId) return;
-    const answerRef = ref(database, `rooms/${currentRoomId}/gameState/heroAnswer/${team}`);
-    set(answerRef, answer);
-
-    // 팀원 답변 초기화
-    const memberAnswersRef = ref(database, `rooms/${currentRoomId}/gameState/memberAnswers/${team}`);
-    get(ref(database, `rooms/${currentRoomId}/participants`)).then(snapshot => {
-      if (snapshot.exists()) {
-        const allParticipants = Object.values(snapshot.val()) as User[];
-        const teamMembers = allParticipants.filter(p => p.team === team);
-        const resetAnswers: Record<string, null> = {};
-        teamMembers.forEach(m => {
-          resetAnswers[m.id] = null;
-        });
-        set(memberAnswersRef, resetAnswers);
-      }
-    });
-  }, [currentRoomId]);
+    transact({ type: 'SET_HERO_ANSWER', team, answer, now: getServerTime() });
+  }, [transact, getServerTime]);
 
-  // 팀원 답변 제출 (점수는 결과공개 시 계산)
+  // 팀원 답변 제출 (점수는 결과공개 시 계산) - 공개된 뒤 도착한 답은 엔진이 거부
   const submitMemberAnswer = useCallback(async (odUserId: string, team: string, answer: 'O' | 'X') => {
-    if (!currentRoomId) return;
-
-    // 답변만 저장 (점수는 결과공개 시 계산)
-    const memberAnswerRef = ref(database, `rooms/${currentRoomId}/gameState/memberAnswers/${team}/${odUserId}`);
-    await set(memberAnswerRef, answer);
-  }, [currentRoomId]);
+    await transact({ type: 'SUBMIT_MEMBER_ANSWER', team, userId: odUserId, answer, now: getServerTime() });
+  }, [transact, getServerTime]);
 
   // 질문 변경 (다른 질문보기)
   const changeQuestion = useCallback((team: string, direction: 'next' | 'prev' | number) => {
-    if (!currentRoomId) return;
+    dispatch({ type: 'CHANGE_QUESTION', team, direction });
+  }, [dispatch]);
 
-    const currentHistory = gameState.questionHistory[team] || [];
-    const currentIdx = gameState.currentQuestionIndex[team] || 0;
+  // 질문 교체 (주인공이 새 선택지 받기) - 내가 본 라운드에서만
+  const rerollQuestions = useCallback(async (team: string) => {
+    await transact({ type: 'REROLL_QUESTIONS', team, expectedRound: gameState.roundCount[team] || 0 });
+  }, [transact, gameState.roundCount]);
 
-    let newIdx: number;
-    if (typeof direction === 'number') {
-      newIdx = direction;
-    } else if (direction === 'next') {
-      newIdx = (currentIdx + 1) % currentHistory.length;
-    } else {
-      newIdx = (currentIdx - 1 + currentHistory.length) % currentHistory.length;
-    }
-
-    const questionIdxRef = ref(database, `rooms/${currentRoomId}/gameState/currentQuestionIndex/${team}`);
-    set(questionIdxRef, newIdx);
-  }, [currentRoomId, gameState]);
-
-  // 결과 공개 (주인공이 버튼 클릭) - 이때 점수 계산
+  // 결과 공개 (주인공이 버튼 클릭) - 공개 여부와 점수를 한 트랜잭션으로 기록
+  // 오프라인 팀원은 만장일치 / 시그널 보너스 판단에서 제외
   const revealResult = useCallback(async (team: string) => {
-    if (!currentRoomId) return;
-
-    // 주인공 답변 가져오기
-    const heroAnswerRef = ref(database, `rooms/${currentRoomId}/gameState/heroAnswer/${team}`);
-    const heroSnapshot = await get(heroAnswerRef);
-    const heroAnswer = heroSnapshot.val();
-
-    if (!heroAnswer) return;
-
-    // 팀원 답변 가져오기
-    const memberAnswersRef = ref(database, `rooms/${currentRoomId}/gameState/memberAnswers/${team}`);
-    const answersSnapshot = await get(memberAnswersRef);
-    const memberAnswers = answersSnapshot.val() || {};
-
-    // 정답 맞춘 팀원들에게 점수 부여
-    const scoreUpdates: Record<string, any> = {};
-    for (const [userId, answer] of Object.entries(memberAnswers)) {
-      if (answer === heroAnswer) {
-        const scoreRef = ref(database, `rooms/${currentRoomId}/gameState/individualScores/${userId}`);
-        const scoreSnapshot = await get(scoreRef);
-        const currentScore = scoreSnapshot.val() || 0;
-        scoreUpdates[`gameState/individualScores/${userId}`] = currentScore + 100;
-      }
+    const round = gameState.roundCount[team] || 0;
+    const now = getServerTime();
+    const unavailableIds = roomConfig ? findUnavailableIds(participants, presence, roomConfig, now) : [];
+    try {
+      await transact({ type: 'REVEAL_RESULT', team, round, now, unavailableIds });
+    } catch (err) {
+      console.error('Failed to reveal result:', err);
+      setError('결과 공개에 실패했습니다.');
     }
+  }, [transact, getServerTime, gameState.roundCount, roomConfig, participants, presence]);
 
-    // 결과 공개 상태 업데이트 + 점수 업데이트
-    const roomRef = ref(database, `rooms/${currentRoomId}`);
-    await update(roomRef, {
-      ...scoreUpdates,
-      [`gameState/resultRevealed/${team}`]: true,
-      [`gameState/resultRevealedAt/${team}`]: Date.now()
-    });
-  }, [currentRoomId]);
-
-  // 다음 라운드 (새 주인공)
+  // 다음 라운드 (새 주인공) - 내가 본 라운드에서만 넘어감
   const nextRound = useCallback(async (team: string) => {
-    if (!currentRoomId || !roomConfig) return;
-
-    const snapshot = await get(ref(database, `rooms/${currentRoomId}/participants`));
-    if (!snapshot.exists()) return;
-
-    const allParticipants = Object.values(snapshot.val()) as User[];
-    const teamMembers = allParticipants.filter(p => p.team === team);
-    if (teamMembers.length === 0) return;
-
-    const heroHistory = gameState.heroHistory[team] || [];
-
-    // 각 멤버별 주인공 횟수 계산
-    const heroCountMap: Record<string, number> = {};
-    teamMembers.forEach(m => {
-      heroCountMap[m.id] = heroHistory.filter(id => id === m.id).length;
-    });
-
-    // 3회 미만인 사람들 중 가장 적게 한 사람 찾기
-    const eligibleMembers = teamMembers.filter(m => heroCountMap[m.id] < 3);
-
-    let nextHero: User | undefined;
-    if (eligibleMembers.length > 0) {
-      // 가장 적게 주인공 한 횟수 찾기
-      const minCount = Math.min(...eligibleMembers.map(m => heroCountMap[m.id]));
-      // 그 횟수와 같은 사람들 중 랜덤 선택
-      const candidates = eligibleMembers.filter(m => heroCountMap[m.id] === minCount);
-      const randomIdx = Math.floor(Math.random() * candidates.length);
-      nextHero = candidates[randomIdx];
-    } else {
-      // 모두 3회 완료 - 게임 계속하려면 가장 적은 사람 선택
-      const minCount = Math.min(...teamMembers.map(m => heroCountMap[m.id]));
-      const candidates = teamMembers.filter(m => heroCountMap[m.id] === minCount);
-      const randomIdx = Math.floor(Math.random() * candidates.length);
-      nextHero = candidates[randomIdx];
-    }
-
-    // 새 질문 4개 생성
-    const newQuestions = generateQuestionHistory(roomConfig.questions.length);
-
-    // 팀원 답변 초기화
-    const resetAnswers: Record<string, null> = {};
-    teamMembers.forEach(m => {
-      resetAnswers[m.id] = null;
-    });
-
-    const updates: Record<string, any> = {};
-    updates[`gameState/currentHeroId/${team}`] = nextHero?.id;
-    updates[`gameState/heroAnswer/${team}`] = null;
-    updates[`gameState/questionHistory/${team}`] = newQuestions;
-    updates[`gameState/currentQuestionIndex/${team}`] = 0;
-    updates[`gameState/memberAnswers/${team}`] = resetAnswers;
-    updates[`gameState/roundCount/${team}`] = (gameState.roundCount[team] || 0) + 1;
-    updates[`gameState/resultRevealed/${team}`] = false;
-    updates[`gameState/resultRevealedAt/${team}`] = null;
-
-    // 주인공 히스토리 - 항상 누적 (리셋하지 않음)
-    updates[`gameState/heroHistory/${team}`] = [...heroHistory, nextHero?.id];
-
-    const roomRef = ref(database, `rooms/${currentRoomId}`);
-    await update(roomRef, updates);
-  }, [currentRoomId, roomConfig, gameState, generateQuestionHistory]);
+    if (!currentUser) return;
+    await transact({ type: 'ADVANCE_ROUND', team, expectedRound: gameState.roundCount[team] || 0, reason: 'next', actorId: currentUser.id, now: getServerTime() });
+  }, [transact, getServerTime, currentUser, gameState.roundCount]);
 
   // 관리자용 순서넘기기 (현재 주인공 스킵)
   const skipToNextHero = useCallback(async (team: string) => {
-    if (!currentRoomId || !roomConfig) return;
+    if (!currentUser) return;
+    await transact({ type: 'ADVANCE_ROUND', team, expectedRound: gameState.roundCount[team] || 0, reason: 'skip', actorId: currentUser.id, now: getServerTime() });
+  }, [transact, getServerTime, currentUser, gameState.roundCount]);
 
-    const snapshot = await get(ref(database, `rooms/${currentRoomId}/participants`));
-    if (!snapshot.exists()) return;
+  // 참가자에서 관리자로 전환 (방 관리자 비밀번호 필요)
+  const switchToAdmin = useCallback(async (adminSecret: string): Promise<boolean> => {
+    if (!currentRoomId) return false;
 
-    const allParticipants = Object.values(snapshot.val()) as User[];
-    const teamMembers = allParticipants.filter(p => p.team === team);
-    if (teamMembers.length === 0) return;
+    try {
+      if (!(await claimRoomAdmin(currentRoomId, adminSecret))) return false;
+    } catch (err) {
+      console.error('Failed to switch to admin:', err);
+      return false;
+    }
 
-    const heroHistory = gameState.heroHistory[team] || [];
-    const currentHeroId = gameState.currentHeroId[team];
+    const adminUser = createAdminUser();
+    setCurrentUser(adminUser);
+    // 관리자 세션 저장
+    saveSession(currentRoomId, adminUser);
+    return true;
+  }, [currentRoomId, saveSession, claimRoomAdmin]);
 
-    // 각 멤버별 주인공 횟수 계산
-    const heroCountMap: Record<string, number> = {};
-    teamMembers.forEach(m => {
-      heroCountMap[m.id] = heroHistory.filter(id => id === m.id).length;
-    });
+  // 팀 목록 변경 (게임 중에도 가능) - 삭제된 팀의 팀원은 orphanPolicy에 따라 재배정하거나 미배정으로 둠
+  const updateTeams = useCallback(async (newTeams: TeamConfig[], orphanPolicy: OrphanPolicy = 'reassign'): Promise<boolean> => {
+    if (!currentRoomId || !roomConfig) return false;
 
-    // 현재 주인공 제외하고 선택
-    const otherMembers = teamMembers.filter(m => m.id !== currentHeroId);
-    if (otherMembers.length === 0) {
-      // 혼자라면 그대로 유지
-      return;
+    const teams = newTeams.map(t => ({ ...t, name: t.name.trim() }));
+    const validationError = validateTeams(teams);
+    if (validationError) {
+      setError(validationError);
+      return false;
     }
 
-    // 3회 미만인 사람들 중 가장 적게 한 사람
-    const eligibleMembers = otherMembers.filter(m => heroCountMap[m.id] < 3);
-
-    let nextHero: User | undefined;
-    if (eligibleMembers.length > 0) {
-      const minCount = Math.min(...eligibleMembers.map(m => heroCountMap[m.id]));
-      const candidates = eligibleMembers.filter(m => heroCountMap[m.id] === minCount);
-      const randomIdx = Math.floor(Math.random() * candidates.length);
-      nextHero = candidates[randomIdx];
-    } else {
-      const minCount = Math.min(...otherMembers.map(m => heroCountMap[m.id]));
-      const candidates = otherMembers.filter(m => heroCountMap[m.id] === minCount);
-      const randomIdx = Math.floor(Math.random() * candidates.length);
-      nextHero = candidates[randomIdx];
+    try {
+      await dispatch({ type: 'UPDATE_TEAMS', teams, orphanPolicy });
+      return true;
+    } catch (err) {
+      console.error('Failed to update teams:', err);
+      setError('팀 변경에 실패했습니다.');
+      return false;
     }
+  }, [dispatch, currentRoomId, roomConfig]);
 
-    // 새 질문 4개 생성
-    const newQuestions = generateQuestionHistory(roomConfig.questions.length);
-
-    // 팀원 답변 초기화
-    const resetAnswers: Record<string, null> = {};
-    teamMembers.forEach(m => {
-      resetAnswers[m.id] = null;
-    });
+  // 입장 시 팀 배정 방식 변경
+  const updateTeamAssignment = useCallback(async (mode: TeamAssignmentMode): Promise<boolean> => {
+    if (!currentRoomId) return false;
 
-    const updates: Record<string, any> = {};
-    updates[`gameState/currentHeroId/${team}`] = nextHero?.id;
-    updates[`gameState/heroAnswer/${team}`] = null;
-    updates[`gameState/questionHistory/${team}`] = newQuestions;
-    updates[`gameState/currentQuestionIndex/${team}`] = 0;
-    updates[`gameState/memberAnswers/${team}`] = resetAnswers;
-    updates[`gameState/roundCount/${team}`] = (gameState.roundCount[team] || 0) + 1;
-    updates[`gameState/resultRevealed/${team}`] = false;
-    updates[`gameState/resultRevealedAt/${team}`] = null;
-    updates[`gameState/heroHistory/${team}`] = [...heroHistory, nextHero?.id];
-
-    const roomRef = ref(database, `rooms/${currentRoomId}`);
-    await update(roomRef, updates);
-  }, [currentRoomId, roomConfig, gameState, generateQuestionHistory]);
-
-  // 참가자에서 관리자로 전환
-  const switchToAdmin = useCallback(() => {
-    const adminUser: User = {
-      id: 'admin_' + Date.now(),
-      name: '관리자',
-      team: 'Admin',
-      role: UserRole.ADMIN,
-      score: 0
-    };
-    setCurrentUser(adminUser);
-    // 관리자 세션 저장
-    if (currentRoomId) {
-      saveSession(currentRoomId, adminUser);
+    try {
+      await backend.update(`rooms/${currentRoomId}`, {
+        'config/teamAssignment': mode
+      });
+      return true;
+    } catch (err) {
+      console.error('Failed to update team assignment:', err);
+      setError('팀 배정 방식 변경에 실패했습니다.');
+      return false;
     }
-  }, [currentRoomId, saveSession]);
+  }, [backend, currentRoomId]);
 
-  // 팀 수 변경 (게임 시작 전에만 가능)
-  const updateTeamCount = useCallback(async (newTeamCount: number): Promise<boolean> => {
-    if (!currentRoomId || !roomConfig) return false;
+  // 참가자 팀 이동 (관리자용) - 점수는 유지되고 답변 슬롯만 새 팀으로 옮김
+  const moveParticipant = useCallback(async (userId: string, teamId: string): Promise<boolean> => {
+    if (!roomConfig) return false;
 
-    // 게임이 이미 시작됐으면 변경 불가
-    if (gameState.isStarted || gameState.isFinished) {
-      setError('게임이 시작된 후에는 팀 수를 변경할 수 없습니다.');
+    const team = findTeam(roomConfig, teamId);
+    const participant = participants.find(p => p.id === userId);
+    if (!team || !participant || participant.team === teamId) return false;
+    if (isTeamFull(team, participants)) {
+      setError(`${team.name} 정원이 가득 찼습니다.`);
       return false;
     }
 
-    // 유효성 검사 (2~10개)
-    if (newTeamCount < 2 || newTeamCount > 10) {
-      setError('팀 수는 2~10개 사이여야 합니다.');
+    try {
+      await dispatch({ type: 'MOVE_PARTICIPANT', userId, team: teamId });
+      return true;
+    } catch (err) {
+      console.error('Failed to move participant:', err);
+      setError('팀 이동에 실패했습니다.');
       return false;
     }
+  }, [dispatch, roomConfig, participants]);
 
-    try {
-      const roomRef = ref(database, `rooms/${currentRoomId}`);
-
-      // config의 teamCount 업데이트
-      await update(roomRef, {
-        'config/teamCount': newTeamCount
-      });
+  // 팀 일괄 배정 (게임 시작 전에만 가능)
+  const assignTeams = useCallback(async (assignments: Record<string, string>): Promise<boolean> => {
+    if (gameState.isStarted) {
+      setError('게임이 시작된 후에는 팀을 다시 배정할 수 없습니다.');
+      return false;
+    }
 
+    try {
+      await dispatch({ type: 'ASSIGN_TEAMS', assignments });
       return true;
     } catch (err) {
-      console.error('Failed to update team count:', err);
-      setError('팀 수 변경에 실패했습니다.');
+      console.error('Failed to assign teams:', err);
+      setError('팀 배정에 실패했습니다.');
       return false;
     }
-  }, [currentRoomId, roomConfig, gameState.isStarted, gameState.isFinished]);
+  }, [dispatch, gameState.isStarted]);
+
+  const shuffleTeams = useCallback(async (): Promise<boolean> => {
+    if (!roomConfig) return false;
+    const trainees = participants.filter(p => p.role === UserRole.TRAINEE);
+    return assignTeams(shuffleTeamAssignments(roomConfig, trainees, defaultRng));
+  }, [assignTeams, roomConfig, participants]);
+
+  const rebalanceTeams = useCallback(async (): Promise<boolean> => {
+    if (!roomConfig) return false;
+    const trainees = participants.filter(p => p.role === UserRole.TRAINEE);
+    return assignTeams(rebalanceTeamAssignments(roomConfig, trainees));
+  }, [assignTeams, roomConfig, participants]);
 
   // 질문 수정 (게임 시작 전에만 가능)
-  const updateQuestions = useCallback(async (newQuestions: string[]): Promise<boolean> => {
+  const updateQuestions = useCallback(async (newQuestions: QuestionItem[], settings: QuestionSettings = {}): Promise<boolean> => {
     if (!currentRoomId || !roomConfig) return false;
 
     // 게임이 이미 시작됐으면 변경 불가
@@ -822,11 +1045,16 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
     }
 
     try {
-      const roomRef = ref(database, `rooms/${currentRoomId}`);
-
-      // config의 questions 업데이트
-      await update(roomRef, {
-        'config/questions': newQuestions
+      // config의 questions와 분류(questionMeta)를 같은 순서로 업데이트
+      const { questions, questionMeta } = toRoomQuestions(newQuestions);
+      await backend.update(`rooms/${currentRoomId}`, {
+        'config/questions': questions,
+        'config/questionMeta': questionMeta,
+        ...Object.fromEntries(
+          Object.entries(settings)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [`config/${key}`, value])
+        )
       });
 
       return true;
@@ -835,7 +1063,26 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
       setError('질문 수정에 실패했습니다.');
       return false;
     }
-  }, [currentRoomId, roomConfig, gameState.isStarted, gameState.isFinished]);
+  }, [backend, currentRoomId, roomConfig, gameState.isStarted, gameState.isFinished]);
+
+  // 점수 규칙 수정 (게임 시작 전에만 가능)
+  const updateScoring = useCallback(async (scoring: ScoringPolicy): Promise<boolean> => {
+    if (!currentRoomId || !roomConfig) return false;
+
+    if (gameState.isStarted || gameState.isFinished) {
+      setError('게임이 시작된 후에는 점수 규칙을 변경할 수 없습니다.');
+      return false;
+    }
+
+    try {
+      await backend.set(`rooms/${currentRoomId}/config/scoring`, getScoringPolicy({ ...roomConfig, scoring }));
+      return true;
+    } catch (err) {
+      console.error('Failed to update scoring:', err);
+      setError('점수 규칙 수정에 실패했습니다.');
+      return false;
+    }
+  }, [backend, currentRoomId, roomConfig, gameState.isStarted, gameState.isFinished]);
 
   // 세션 복원
   const restoreSession = useCallback(async (): Promise<boolean> => {
@@ -852,36 +1099,38 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
       }
 
       // 방이 존재하는지 확인
-      const roomRef = ref(database, `rooms/${roomId}`);
-      const snapshot = await get(roomRef);
-      if (!snapshot.exists()) {
+      const roomData = await backend.read(`rooms/${roomId}`);
+      if (!roomData) {
         localStorage.removeItem('yja-signal-session');
         return false;
       }
 
-      // 관리자인 경우
+      // 관리자인 경우 - 이 기기가 아직 방 관리자로 등록되어 있을 때만 복원
       if (user.role === UserRole.ADMIN) {
+        if (!(await checkRoomAdmin(roomId))) {
+          localStorage.removeItem('yja-signal-session');
+          return false;
+        }
         setCurrentRoomId(roomId);
         setCurrentUser(user);
         return true;
       }
 
       // 참가자인 경우 - 기존 사용자가 있는지 확인 후 복원
-      const participantRef = ref(database, `rooms/${roomId}/participants/${user.id}`);
-      const participantSnapshot = await get(participantRef);
+      const existingParticipant = await backend.read(`rooms/${roomId}/participants/${user.id}`);
 
-      if (participantSnapshot.exists()) {
+      if (existingParticipant) {
         // 기존 참가자 정보가 있으면 그대로 복원
         setCurrentRoomId(roomId);
         setCurrentUser(user);
         return true;
       } else {
-        // 참가자 정보가 없으면 다시 등록
-        await set(participantRef, user);
-        const scoreRef = ref(database, `rooms/${roomId}/gameState/individualScores/${user.id}`);
-        const scoreSnapshot = await get(scoreRef);
-        if (!scoreSnapshot.exists()) {
-          await set(scoreRef, 0);
+        // 참가자 정보가 없으면 다시 등록 (이 기기의 uid로)
+        await backend.set(`rooms/${roomId}/participants/${user.id}`, { ...user, uid: await backend.getClientId() });
+        const scorePath = `rooms/${roomId}/gameState/individualScores/${user.id}`;
+        const existingScore = await backend.read(scorePath);
+        if (existingScore === null) {
+          await backend.set(scorePath, 0);
         }
         setCurrentRoomId(roomId);
         setCurrentUser(user);
@@ -892,36 +1141,52 @@ export const useFirebaseRoom = (): UseFirebaseRoomReturn => {
       localStorage.removeItem('yja-signal-session');
       return false;
     }
-  }, []);
+  }, [backend, checkRoomAdmin]);
 
   return {
     roomConfig,
     gameState,
+    rounds,
     participants,
+    presence,
     currentUser,
     isConnected,
     error,
     roomExists,
     currentRoomId,
     roomList,
+    sessionHistory,
+    serverTimeOffset,
     createRoom,
     joinRoom,
     joinRoomAsAdmin,
+    claimLegacyRoom,
     leaveRoom,
     deleteRoom,
     startGame,
     stopGame,
     resetRoom,
+    pauseTimer,
+    resumeTimer,
+    extendTimer,
     setHeroAnswer,
     submitMemberAnswer,
     changeQuestion,
+    rerollQuestions,
     revealResult,
     nextRound,
     skipToNextHero,
     switchToAdmin,
-    updateTeamCount,
+    updateTeams,
+    updateTeamAssignment,
+    moveParticipant,
+    shuffleTeams,
+    rebalanceTeams,
     updateQuestions,
+    updateScoring,
     refreshRoomList,
+    refreshSessionHistory,
+    deleteSession,
     restoreSession,
     clearSession
   };
@@ -0,0 +1,109 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { RoomBackend, roomBackend } from '../backend';
+import { QuestionItem, QuestionSet } from '../types';
+import { INITIAL_QUESTION_ITEMS } from '../constants';
+
+// 항상 제공되는 기본 세트 (저장소에 없음, 삭제 불가)
+export const BUILT_IN_QUESTION_SET: QuestionSet = {
+  id: 'builtin',
+  name: '기본 질문',
+  questions: INITIAL_QUESTION_ITEMS,
+  createdAt: 0
+};
+
+interface UseQuestionLibraryReturn {
+  sets: QuestionSet[]; // 기본 세트 + 저장된 세트 (최근 순)
+  clientId: string | null; // 내가 만든 세트 확인용
+  error: string | null;
+  saveSet: (name: string, questions: QuestionItem[]) => Promise<boolean>;
+  deleteSet: (setId: string) => Promise<boolean>;
+}
+
+// 진행자들이 함께 쓰는 질문 세트 라이브러리 (questionLibrary/{setId})
+export const useQuestionLibrary = (backend: RoomBackend = roomBackend): UseQuestionLibraryReturn => {
+  const [savedSets, setSavedSets] = useState<QuestionSet[]>([]);
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = backend.subscribe('questionLibrary', (data) => {
+      const sets = data ? Object.values(data) as QuestionSet[] : [];
+      // Firebase는 빈 배열을 저장하지 않음
+      setSavedSets(
+        sets
+          .map(set => ({ ...set, questions: (set.questions || []).map(q => ({ ...q, tags: q.tags || [] })) }))
+          .sort((a, b) => b.createdAt - a.createdAt)
+      );
+    }, (err) => {
+      console.error('Failed to load question library:', err);
+      setError('질문 라이브러리를 불러오지 못했습니다.');
+    });
+
+    return () => unsubscribe();
+  }, [backend]);
+
+  useEffect(() => {
+    backend.getClientId().then(setClientId).catch(err => {
+      console.error('Failed to get client id:', err);
+    });
+  }, [backend]);
+
+  // 현재 질문을 새 세트로 저장
+  const saveSet = useCallback(async (name: string, questions: QuestionItem[]): Promise<boolean> => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('세트 이름을 입력해주세요.');
+      return false;
+    }
+    if (questions.length === 0) {
+      setError('저장할 질문이 없습니다.');
+      return false;
+    }
+
+    try {
+      const setId = 'set_' + Date.now() + '_' + Math.random().toString(36).substr(2, 5);
+      const newSet: QuestionSet = {
+        id: setId,
+        name: trimmedName,
+        questions,
+        ownerId: await backend.getClientId(),
+        createdAt: Date.now()
+      };
+      await backend.set(`questionLibrary/${setId}`, newSet);
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error('Failed to save question set:', err);
+      setError('질문 세트 저장에 실패했습니다.');
+      return false;
+    }
+  }, [backend]);
+
+  // 내가 만든 세트만 삭제 가능 (보안 규칙에서도 확인)
+  const deleteSet = useCallback(async (setId: string): Promise<boolean> => {
+    const target = savedSets.find(set => set.id === setId);
+    if (!target || target.ownerId !== clientId) {
+      setError('직접 만든 세트만 삭제할 수 있습니다.');
+      return false;
+    }
+
+    try {
+      await backend.remove(`questionLibrary/${setId}`);
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error('Failed to delete question set:', err);
+      setError('질문 세트 삭제에 실패했습니다.');
+      return false;
+    }
+  }, [backend, savedSets, clientId]);
+
+  return {
+    sets: [BUILT_IN_QUESTION_SET, ...savedSets],
+    clientId,
+    error,
+    saveSet,
+    deleteSet
+  };
+};
@@ -0,0 +1,15 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { RoomBackend, roomBackend, getServerClock } from '../backend';
+
+// 서버 시간 기준 시계 - 기기마다 시계가 달라도 같은 시각을 보도록 저장소의 시간 차이를 반영
+export const useServerClock = (backend: RoomBackend = roomBackend) => {
+  const clock = getServerClock(backend);
+  const [offset, setOffset] = useState(clock.offset());
+
+  useEffect(() => clock.subscribe(setOffset), [clock]);
+
+  const now = useCallback(() => Date.now() + offset, [offset]);
+
+  return { offset, now };
+};
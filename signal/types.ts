@@ -10,13 +10,125 @@ export interface User {
   team: string;
   role: UserRole;
   score: number; // 개인 점수
+  uid?: string; // 참가한 기기의 익명 인증 uid (보안 규칙에서 본인 확인용)
 }
 
+// 접속 상태 (online: 화면을 보는 중, idle: 화면이 꺼졌거나 다른 앱, offline: 연결 끊김)
+export type PresenceState = 'online' | 'idle' | 'offline';
+
+export interface Presence {
+  state: PresenceState;
+  lastSeen: number; // 마지막 하트비트 시각 (서버 시간 기준)
+}
+
+// 자동 진행(주인공 교체, 시간 종료)을 맡은 기기의 임대 정보
+export interface CoordinatorLease {
+  holderId: string; // 세션 사용자 ID
+  uid: string; // 임대를 쓴 기기 ID (보안 규칙의 auth.uid - 본인이 가진 임대인지 확인)
+  isAdmin: boolean;
+  expiresAt: number; // 서버 시간 기준
+}
+
+export interface TeamConfig {
+  id: string; // 변하지 않는 팀 ID (참가자의 team, gameState의 팀별 키)
+  name: string; // 표시 이름
+  color: string; // 표시 색상 (#rrggbb)
+  maxSize?: number; // 최대 인원 (없으면 제한 없음)
+}
+
+// 참가자 팀 배정 방식 (self: 직접 선택, round-robin: 입장 순서대로, smallest: 인원이 가장 적은 팀)
+export type TeamAssignmentMode = 'self' | 'round-robin' | 'smallest';
+
+// 팀 삭제로 소속 팀이 없어진 참가자 처리 방식 (reassign: 인원이 가장 적은 팀으로, unassigned: 관리자가 직접 배정)
+export type OrphanPolicy = 'reassign' | 'unassigned';
+
+// 질문 한 개 (카테고리/태그는 라이브러리에서 고르고 섞을 때 사용)
+export interface QuestionItem {
+  text: string;
+  category: string; // 일상, 음식, 직장, 가치관 등
+  tags?: string[];
+}
+
+// 방 설정에 questions와 같은 순서로 저장하는 질문 분류
+export type QuestionMeta = Omit<QuestionItem, 'text'>;
+
+// 질문 라이브러리에 저장된 이름 있는 질문 세트
+export interface QuestionSet {
+  id: string;
+  name: string;
+  questions: QuestionItem[];
+  ownerId?: string; // 만든 사람의 uid (기본 세트는 없음)
+  createdAt: number;
+}
+
+// 점수 규칙 (없는 값은 기본값 - 정답 100점, 보너스 없음)
+export interface ScoringPolicy {
+  pointsPerCorrect: number; // 주인공과 같은 답을 고른 팀원 점수
+  signalBonus: number; // 팀원 다수(또는 전원)가 맞히면 주인공에게 주는 보너스
+  signalThreshold: 'majority' | 'all';
+  speedBonus: number; // 주인공 선택 직후 바로 맞히면 받는 최대 보너스 (speedWindowSeconds 동안 줄어듦)
+  speedWindowSeconds: number;
+  unanimityBonus: number; // 팀원 전원이 맞히면 팀원 모두에게 주는 보너스
+}
+
+// 결과 공개 때 한 사람이 받은 점수 내역
+export interface PointAward {
+  correct: number;
+  speed: number;
+  unanimity: number;
+  signal: number;
+  total: number;
+}
+
+// 답변 제한 시간이 지났을 때
+// - reveal: 바로 결과 공개
+// - close: 답변만 마감 (안 낸 팀원은 무응답), 공개는 주인공이 직접
+export type AnswerTimeoutAction = 'reveal' | 'close';
+
+// 개인별 누적 답변 기록 (결과 공개 때마다 갱신, 게임 종료 후 통계용)
+export interface AnswerStats {
+  answered: number; // 답을 낸 라운드 수
+  correct: number;
+  totalResponseMs: number; // 주인공이 답을 고른 뒤 마지막 답을 낼 때까지 걸린 시간 합계
+  fastestCorrectMs: number | null; // 가장 빨리 맞힌 기록
+  changes: number; // 답을 바꾼 횟수 합계
+}
+
+// 결과 공개 때 남기는 팀 라운드 기록 (rooms/{roomId}/rounds/{team}/{round}, 한 번 쓰면 바꾸지 않음)
+export interface RoundRecord {
+  round: number; // roundCount 값 (0부터)
+  team: string;
+  heroId: string;
+  question: string; // 주인공이 고른 질문 - 나중에 질문을 고쳐도 그때 문구가 남도록 텍스트로
+  questionIndex: number | null; // 고른 질문의 당시 인덱스
+  offeredQuestions: string[]; // 이번 라운드에 제시한 질문 (교체되어 지나간 질문 포함)
+  heroAnswer: 'O' | 'X';
+  memberAnswers: Record<string, 'O' | 'X'>; // 답을 낸 팀원만
+  awards: Record<string, PointAward>; // 점수를 받은 사람만
+  names: Record<string, string>; // 주인공과 팀원 이름 (나간 참가자도 기록에서 알아볼 수 있도록)
+  revealedAt: number;
+}
+
+// 팀 -> 라운드 번호 -> 기록
+export type RoundLog = Record<string, Record<string, RoundRecord>>;
+
 export interface RoomConfig {
   roomName: string;
-  teamCount: number;
+  teamCount: number; // teams.length와 같음 (teams가 없는 예전 방 호환용)
+  teams?: TeamConfig[];
+  teamAssignment?: TeamAssignmentMode; // 없으면 self
   durationMinutes: number;
   questions: string[];
+  questionMeta?: QuestionMeta[]; // questions와 같은 순서 (없으면 모두 기본 카테고리)
+  questionChoiceCount?: number; // 주인공에게 보여줄 질문 수 (없으면 4)
+  heroRerolls?: number; // 주인공 한 명이 질문 목록을 새로 받을 수 있는 횟수 (없으면 0)
+  balanceCategories?: boolean; // 주인공에게 보여줄 질문을 서로 다른 카테고리에서 고르기
+  scoring?: Partial<ScoringPolicy>;
+  lockFirstAnswer?: boolean; // 팀원이 처음 고른 답을 바꿀 수 없음
+  answerWindowSeconds?: number; // 주인공이 답을 고른 뒤 팀원이 답할 수 있는 시간 (없거나 0이면 제한 없음)
+  answerTimeoutAction?: AnswerTimeoutAction; // 없으면 reveal
+  randomSeed?: string; // 지정하면 같은 진행에서 항상 같은 주인공/질문이 나옴 (테스트/재현용)
+  heroOfflineGraceSeconds?: number; // 주인공이 오프라인이 된 뒤 자동 교체까지 기다리는 시간 (초)
 }
 
 export interface GameState {
@@ -24,6 +136,12 @@ export interface GameState {
   isFinished: boolean;
   startTime: number | null;
 
+  // 게임 종료 시각 (서버 시간 기준, 일시정지/연장 시 변경)
+  deadline: number | null;
+
+  // 일시정지 시작 시각 (진행 중이면 null)
+  pausedAt: number | null;
+
   // 팀별 현재 주인공 ID
   currentHeroId: Record<string, string>;
 
@@ -33,26 +151,89 @@ export interface GameState {
   // 팀별 현재 질문 인덱스
   currentQuestionIndex: Record<string, number>;
 
-  // 팀별 질문 히스토리 (최대 4개, 주인공이 선택 가능한 질문들)
+  // 팀별 이번 라운드에 제시한 질문 (질문 교체 시 뒤에 이어 붙임, currentQuestionIndex는 이 배열의 위치)
   questionHistory: Record<string, number[]>;
 
+  // 팀별 현재 선택지가 시작되는 questionHistory 위치 (앞쪽은 교체되어 지나간 질문)
+  questionChoiceStart: Record<string, number>;
+
+  // 팀별 현재 주인공이 질문을 교체한 횟수
+  questionRerolls: Record<string, number>;
+
+  // 팀별 주인공 / 팀원이 답을 고른 시각 (서버 시간 기준, 속도 보너스 계산용)
+  heroAnsweredAt: Record<string, number | null>;
+  memberAnsweredAt: Record<string, Record<string, number>>;
+
+  // 팀별 주인공이 답을 고른 뒤 게임이 일시정지됐던 시간 합계 (ms) - 그만큼 답변 마감이 늦춰짐
+  answerPausedMs: Record<string, number>;
+
+  // 팀별 답변 마감 여부 (답변 제한 시간이 지나 마감됨, 안 낸 팀원은 무응답)
+  answersClosed: Record<string, boolean>;
+
+  // 팀별 이번 라운드에 팀원이 답을 바꾼 횟수
+  memberAnswerChanges: Record<string, Record<string, number>>;
+
+  // 팀별 마지막 결과 공개에서 받은 점수 내역 (userId별, 점수를 받은 사람만)
+  roundAwards: Record<string, Record<string, PointAward>>;
+
   // 팀별 주인공 했던 사람 목록
   heroHistory: Record<string, string[]>;
 
+  // 팀별로 이미 보여준 질문 인덱스 (질문을 모두 쓰면 새로 시작)
+  usedQuestions: Record<string, number[]>;
+
   // 개인별 점수 (odUserId: score)
   individualScores: Record<string, number>;
 
+  // 개인별 누적 답변 기록 (odUserId: stats)
+  answerStats: Record<string, AnswerStats>;
+
   // 팀별 팀원 답변 상태 (odUserId: answer)
   memberAnswers: Record<string, Record<string, 'O' | 'X' | null>>;
 
   // 라운드 카운트 (팀별)
   roundCount: Record<string, number>;
 
+  // 팀별 마지막으로 라운드를 넘긴 사람 ID (보안 규칙이 넘긴 사람의 팀을 확인)
+  roundAdvancedBy: Record<string, string>;
+
   // 팀별 결과 공개 여부
   resultRevealed: Record<string, boolean>;
 
   // 팀별 결과 공개 시간 (10초 카운트다운용)
   resultRevealedAt: Record<string, number | null>;
+
+  // 팀별 점수를 반영한 마지막 라운드 (같은 라운드 중복 채점 방지)
+  scoredRound: Record<string, number>;
+}
+
+// 방 초기화 방식
+// - replay: 같은 팀으로 다시 하기 (참가자 유지, 점수와 진행 기록만 지움)
+// - full: 전체 초기화 (참가자와 진행 기록 모두 지움)
+// - newSession: 지금 세션을 보관한 뒤 전체 초기화
+export type ResetMode = 'replay' | 'full' | 'newSession';
+
+// 보관된 세션 (roomSessions/{roomId}/{sessionId}) - 게임이 끝나면 자동으로, 새 세션으로 초기화할 때 보관
+export interface SessionArchive {
+  id: string;
+  archivedAt: number;
+  config: RoomConfig;
+  gameState: GameState;
+  participants: Record<string, User>;
+  rounds: RoundLog;
+}
+
+// 저장소의 rooms/{roomId} 형태 (schemaVersion으로 구조 변경을 구분, engine/schema.ts 참고)
+export interface RoomRecord {
+  schemaVersion: number;
+  config: RoomConfig;
+  gameState: GameState;
+  participants: Record<string, User>;
+  rounds: RoundLog;
+  presence: Record<string, Presence>;
+  createdAt: number;
+  ownerId?: string;
+  admins?: Record<string, boolean>;
 }
 
 export interface BroadcastMessage {